@@ -0,0 +1,191 @@
+import React, { useState, ChangeEvent } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Upload, Trash2 } from 'lucide-react';
+import { Agent, Config, MonthlyData, formatCurrency, formatCostTick } from '../utils/calculations';
+import { CurrencySettings, getCurrencySymbol } from '../utils/currency';
+import { ActualsComparison, parseActualsCsv, applyActualCredits, clearActualCredits } from '../utils/actuals';
+
+interface ActualsTrackerProps {
+  agents: Agent[];
+  config: Config;
+  monthlyData: MonthlyData[];
+  comparison: ActualsComparison;
+  onAgentsChange: (agents: Agent[]) => void;
+}
+
+const formatVariance = (value: number, currency?: CurrencySettings): string =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatCurrency(Math.abs(value), currency)}`;
+
+// Recorded PAYG consumption per agent against the projection, with the remaining months re-forecast from the run-rate
+const ActualsTracker: React.FC<ActualsTrackerProps> = ({ agents, config, monthlyData, comparison, onAgentsChange }) => {
+  const [selectedAgentId, setSelectedAgentId] = useState<number | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importMessage, setImportMessage] = useState('');
+
+  const importActuals = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { credits, errors, skippedAgents } = parseActualsCsv(await file.text(), agents, config);
+    setImportErrors(errors);
+    setImportMessage('');
+    if (!credits) return;
+
+    onAgentsChange(applyActualCredits(agents, credits));
+    const imported = agents.filter(agent => credits[agent.id]).map(agent => agent.name);
+    setImportMessage(
+      `Imported actuals for ${imported.length > 0 ? imported.join(', ') : 'no agents'}` +
+      `${skippedAgents.length > 0 ? `; skipped agents not in the portfolio: ${skippedAgents.join(', ')}` : ''}.`
+    );
+  };
+
+  const clearActuals = () => {
+    onAgentsChange(clearActualCredits(agents));
+    setImportMessage('');
+    setImportErrors([]);
+  };
+
+  const selected = comparison.agents.find(a => a.agentId === selectedAgentId);
+  const chartMonths = selected ? selected.months : comparison.months;
+  const lastActualMonth = comparison.lastActualMonth;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        Import the credit consumption report exported from the Power Platform admin center (one row per agent and day or month with the
+        billed credits) to compare the recorded PAYG cost with the projection. The remaining months of each agent are re-forecast from its
+        run-rate — recorded cost divided by projected cost over the months with data. Dated rows are placed by the start month set under
+        Projection Timeline; rows with a projection month number instead of a date are also accepted.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded bg-white hover:bg-gray-50 text-sm cursor-pointer">
+          <Upload size={16} />
+          Import Consumption CSV
+          <input type="file" accept=".csv,text/csv" onChange={importActuals} className="hidden" />
+        </label>
+        <button
+          onClick={clearActuals}
+          disabled={lastActualMonth === null}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded bg-white hover:bg-gray-50 text-sm text-red-600 disabled:text-gray-300 disabled:hover:bg-white"
+        >
+          <Trash2 size={16} />
+          Clear Actuals
+        </button>
+      </div>
+      {importMessage && (
+        <p className="text-xs text-green-700 mb-3">{importMessage}</p>
+      )}
+      {importErrors.length > 0 && (
+        <div className="p-3 mb-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs font-semibold text-red-800 mb-1">The file could not be imported:</p>
+          <ul className="text-xs text-red-700 list-disc pl-5">
+            {importErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {lastActualMonth === null ? (
+        <p className="text-sm text-gray-600">No actual consumption has been recorded yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-6">
+            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="text-sm text-gray-600 mb-1">Actual to date (through {monthlyData[lastActualMonth - 1]?.label ?? `Month ${lastActualMonth}`})</div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(comparison.actualToDate, config.currency)}</div>
+              <div className="text-xs text-gray-500 mt-1">Projected: {formatCurrency(comparison.projectedToDate, config.currency)}</div>
+            </div>
+            <div className={`p-4 rounded-lg border ${comparison.variance > 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+              <div className="text-sm text-gray-600 mb-1">Variance to date</div>
+              <div className={`text-2xl font-bold ${comparison.variance > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                {formatVariance(comparison.variance, config.currency)}
+              </div>
+            </div>
+            <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
+              <div className="text-sm text-blue-700 mb-1">Re-forecast PAYG total ({monthlyData.length} months)</div>
+              <div className="text-2xl font-bold text-blue-900">{formatCurrency(comparison.reforecastTotal, config.currency)}</div>
+              <div className="text-xs text-blue-700 mt-1">Projected: {formatCurrency(comparison.projectedTotal, config.currency)}</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 mb-3">
+            <label className="text-sm font-medium text-gray-700">Show:</label>
+            <select
+              value={selectedAgentId ?? ''}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => setSelectedAgentId(e.target.value === '' ? null : Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded text-sm"
+            >
+              <option value="">All agents</option>
+              {comparison.agents.map(agent => (
+                <option key={agent.agentId} value={agent.agentId}>{agent.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <ResponsiveContainer width="100%" height={400}>
+            <LineChart data={chartMonths} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="month"
+                label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+              />
+              <YAxis
+                label={{ value: `Monthly PAYG Cost (${getCurrencySymbol(config.currency)})`, angle: -90, position: 'insideLeft', offset: 10 }}
+                tickFormatter={(value: number) => formatCostTick(value, config.currency)}
+              />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value, config.currency)}
+                labelFormatter={(month: number) => monthlyData[month - 1]?.label ?? `Month ${month}`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <Line type="monotone" dataKey="projected" stroke="#9ca3af" strokeWidth={2} strokeDasharray="5 5" name="Projected" dot={false} />
+              <Line type="monotone" dataKey="reforecast" stroke="#3b82f6" strokeWidth={2} name="Re-forecast" dot={false} />
+              <Line type="monotone" dataKey="actual" stroke="#111827" strokeWidth={3} name="Actual" dot={{ r: 2 }} />
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="overflow-x-auto mt-6">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-3 text-left">Agent</th>
+                  <th className="p-3 text-right">Months Recorded</th>
+                  <th className="p-3 text-right">Projected to Date</th>
+                  <th className="p-3 text-right">Actual to Date</th>
+                  <th className="p-3 text-right">Variance</th>
+                  <th className="p-3 text-right">Run-Rate</th>
+                  <th className="p-3 text-right">Projected Total</th>
+                  <th className="p-3 text-right">Re-forecast Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.agents.map(agent => (
+                  <tr key={agent.agentId} className="border-t">
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: agent.color }}></div>
+                        <span className="font-medium">{agent.name}</span>
+                      </div>
+                    </td>
+                    <td className="p-3 text-right">{agent.observedMonths}</td>
+                    <td className="p-3 text-right">{formatCurrency(agent.projectedToDate, config.currency)}</td>
+                    <td className="p-3 text-right">{formatCurrency(agent.actualToDate, config.currency)}</td>
+                    <td className={`p-3 text-right font-medium ${agent.variance > 0 ? 'text-red-700' : agent.variance < 0 ? 'text-green-700' : ''}`}>
+                      {formatVariance(agent.variance, config.currency)}
+                    </td>
+                    <td className="p-3 text-right">{agent.runRate === null ? '—' : `${Math.round(agent.runRate * 100)}%`}</td>
+                    <td className="p-3 text-right">{formatCurrency(agent.projectedTotal, config.currency)}</td>
+                    <td className="p-3 text-right font-medium">{formatCurrency(agent.reforecastTotal, config.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ActualsTracker;
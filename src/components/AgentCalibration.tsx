@@ -0,0 +1,98 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Upload } from 'lucide-react';
+import { Agent, formatNumber } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { CalibrationProfile, CalibrationRow, parseAnalyticsCsv, compareCalibration } from '../utils/calibration';
+
+interface AgentCalibrationProps {
+  agent: Agent;
+  pricing: PricingCatalog;
+  onApply: (calibrated: Agent) => void;
+}
+
+const formatValue = (row: CalibrationRow, value: number): string =>
+  row.field === 'generativeRatio' ? `${Math.round(value * 100)}%` : String(value);
+
+// Derive the agent's conversation profile from the sessions of a pilot, next to the hand-entered values
+const AgentCalibration: React.FC<AgentCalibrationProps> = ({ agent, pricing, onApply }) => {
+  const [profile, setProfile] = useState<CalibrationProfile | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const importAnalytics = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseAnalyticsCsv(await file.text());
+    setImportErrors(result.errors);
+    setProfile(result.profile);
+  };
+
+  const comparison = profile && compareCalibration(agent, profile, pricing);
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <label className="block text-sm font-medium mb-1">Calibrate from Pilot Analytics</label>
+      <p className="text-xs text-gray-500 mb-3">
+        Import a Copilot Studio analytics export of the agent's sessions (one row per session with its turns, generative answers and
+        action or flow invocations; user and date columns also give conversations per user per day) to replace the estimates with observed averages.
+      </p>
+      <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded bg-white hover:bg-gray-50 text-sm cursor-pointer">
+        <Upload size={16} />
+        Import Analytics CSV
+        <input type="file" accept=".csv,text/csv" onChange={importAnalytics} className="hidden" />
+      </label>
+
+      {importErrors.length > 0 && (
+        <div className="p-3 mt-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs font-semibold text-red-800 mb-1">The file could not be imported:</p>
+          <ul className="text-xs text-red-700 list-disc pl-5">
+            {importErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {profile && comparison && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-600 mb-2">Averages over {formatNumber(profile.sessions)} sessions:</p>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-200">
+              <tr>
+                <th className="p-2 text-left">Parameter</th>
+                <th className="p-2 text-right">Entered</th>
+                <th className="p-2 text-right">Observed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.rows.map(row => (
+                <tr key={row.field} className="border-t">
+                  <td className="p-2">{row.label}</td>
+                  <td className="p-2 text-right">{formatValue(row, row.current)}</td>
+                  <td className={`p-2 text-right font-medium ${row.calibrated !== row.current ? 'text-blue-700' : ''}`}>
+                    {formatValue(row, row.calibrated)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t font-bold">
+                <td className="p-2">Credits per Conversation</td>
+                <td className="p-2 text-right">{comparison.currentCredits.toFixed(1)}</td>
+                <td className="p-2 text-right text-blue-700">{comparison.calibratedCredits.toFixed(1)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {profile.conversationsPerDay === null && (
+            <p className="text-xs text-gray-500 mt-2">The export has no user and date columns, so conversations per user per day keep their estimate.</p>
+          )}
+          <button
+            onClick={() => onApply(comparison.calibrated)}
+            className="mt-3 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+          >
+            Use Observed Values
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgentCalibration;
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceDot } from 'recharts';
+import { Config, MonthlyData, PRICING_MODELS, formatCurrency, formatCostTick } from '../utils/calculations';
+import { CurrencySettings, getCurrencySymbol } from '../utils/currency';
+import { CostBasis, calculateCumulativeCosts, calculateCrossovers } from '../utils/timeline';
+
+interface BreakevenTimelineProps {
+  monthlyData: MonthlyData[];
+  config: Config;
+  currency?: CurrencySettings;
+}
+
+// Cumulative cost curves per pricing model and the months in which one model overtakes another
+const BreakevenTimeline: React.FC<BreakevenTimelineProps> = ({ monthlyData, config, currency }) => {
+  const [basis, setBasis] = useState<CostBasis>('cumulative');
+
+  const chartData = useMemo(
+    () => calculateCumulativeCosts(monthlyData).map(({ month, costs }) => ({ month, ...costs })),
+    [monthlyData]
+  );
+  const crossovers = useMemo(() => calculateCrossovers(monthlyData, basis, config), [monthlyData, basis, config]);
+  const cumulativeCrossovers = useMemo(() => calculateCrossovers(monthlyData, 'cumulative', config), [monthlyData, config]);
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        The totals over the horizon hide when the cheapest model changes. Cost to date shows when a model that starts cheaper has paid more
+        than another overall; monthly cost shows when its monthly bill overtakes the other's (marked on the monthly cost chart above).
+      </p>
+
+      <ResponsiveContainer width="100%" height={400}>
+        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="month"
+            label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+          />
+          <YAxis
+            label={{ value: `Cost to Date (${getCurrencySymbol(currency)})`, angle: -90, position: 'insideLeft', offset: 10 }}
+            tickFormatter={(value: number) => formatCostTick(value, currency)}
+          />
+          <Tooltip
+            formatter={(value: number) => formatCurrency(value, currency)}
+            labelFormatter={(month: number) => monthlyData[month - 1]?.label ?? `Month ${month}`}
+          />
+          <Legend verticalAlign="top" height={36} />
+          {PRICING_MODELS.map(({ model, key, color }) => (
+            <Line
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={color}
+              strokeWidth={2}
+              strokeDasharray={key === 'm365AllCost' ? '5 5' : undefined}
+              name={model}
+              dot={false}
+            />
+          ))}
+          {cumulativeCrossovers.map(crossover => (
+            <ReferenceDot
+              key={`${crossover.moreExpensiveKey}-${crossover.cheaperKey}-${crossover.month}`}
+              x={crossover.month}
+              y={crossover.moreExpensiveCost}
+              r={5}
+              fill="#111827"
+              stroke="white"
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="flex flex-wrap items-center gap-4 mt-6 mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Crossovers</h3>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" checked={basis === 'cumulative'} onChange={() => setBasis('cumulative')} />
+          Cost to date
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" checked={basis === 'monthly'} onChange={() => setBasis('monthly')} />
+          Monthly cost
+        </label>
+      </div>
+
+      {crossovers.length === 0 ? (
+        <p className="text-sm text-gray-600">No pricing model overtakes another within the projection.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-3 text-left">Month</th>
+                <th className="p-3 text-left">Becomes More Expensive</th>
+                <th className="p-3 text-left">Than</th>
+                <th className="p-3 text-right">{basis === 'cumulative' ? 'Cost to Date' : 'Monthly Cost'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {crossovers.map(crossover => (
+                <tr key={`${crossover.moreExpensiveKey}-${crossover.cheaperKey}-${crossover.month}`} className="border-t">
+                  <td className="p-3 font-medium">{monthlyData[crossover.month - 1]?.label ?? crossover.month}</td>
+                  <td className="p-3">{crossover.moreExpensive}</td>
+                  <td className="p-3">{crossover.cheaper}</td>
+                  <td className="p-3 text-right">
+                    {formatCurrency(crossover.moreExpensiveCost, currency)} vs {formatCurrency(crossover.cheaperCost, currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BreakevenTimeline;
@@ -0,0 +1,206 @@
+import React, { useMemo, useState, ChangeEvent } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  PRICING_MODELS,
+  getBudgetYearDescription,
+  formatAmount,
+  formatNumber
+} from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { getCurrencySymbol } from '../utils/currency';
+import { BudgetBasis, hasBudget, calculateBudgetStatus, suggestBudgetDelays } from '../utils/budget';
+
+interface BudgetPlannerProps {
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+  monthlyData: MonthlyData[];
+  defaultModelKey: keyof MonthlyData;
+  onBudgetChange: (key: 'monthlyBudget' | 'annualBudget', value: number | undefined) => void;
+}
+
+const minHeadroom = (values: (number | null)[]): number | null =>
+  values.reduce<number | null>((min, value) => value === null ? min : min === null ? value : Math.min(min, value), null);
+
+// Monthly and annual budget caps: when each pricing model breaches them, the headroom left, and the delays that avoid a breach
+const BudgetPlanner: React.FC<BudgetPlannerProps> = ({
+  stages,
+  segments,
+  agents,
+  config,
+  pricing,
+  monthlyData,
+  defaultModelKey,
+  onBudgetChange
+}) => {
+  const [selectedBasis, setSelectedBasis] = useState<BudgetBasis>('monthly');
+  const [modelKey, setModelKey] = useState<keyof MonthlyData>(defaultModelKey);
+
+  const status = useMemo(() => calculateBudgetStatus(monthlyData, config), [monthlyData, config]);
+  const suggestions = useMemo(
+    () => suggestBudgetDelays(stages, segments, agents, config, pricing, modelKey),
+    [stages, segments, agents, config, pricing, modelKey]
+  );
+
+  // Chart the headroom of the cap that is set, the chosen one when both are
+  const basis: BudgetBasis = config.monthlyBudget === undefined ? 'annual' : config.annualBudget === undefined ? 'monthly' : selectedBasis;
+  const headroomKey = basis === 'monthly' ? 'monthlyHeadroom' : 'annualHeadroom';
+  const chartData = monthlyData.map((m, idx) => ({
+    month: m.month,
+    ...Object.fromEntries(status.map(s => [s.key, s.months[idx][headroomKey]]))
+  }));
+  const selectedStatus = status.find(s => s.key === modelKey);
+
+  const budgetInput = (key: 'monthlyBudget' | 'annualBudget', label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        min={0}
+        step={1000}
+        placeholder="No cap"
+        value={config[key] ?? ''}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => onBudgetChange(key, e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0))}
+        className="w-full px-3 py-2 border border-gray-300 rounded"
+      />
+    </div>
+  );
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        Enter the AI budget you operate under, in the display currency, to see when each pricing model breaches it. The annual budget applies to each budget year
+        ({getBudgetYearDescription(config)}, set under Projection Timeline), partial years at either end included. Leave a field blank for no cap.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {budgetInput('monthlyBudget', `Monthly Budget (${getCurrencySymbol(config.currency)})`)}
+        {budgetInput('annualBudget', `Annual Budget (${getCurrencySymbol(config.currency)})`)}
+      </div>
+
+      {!hasBudget(config) ? (
+        <p className="text-sm text-gray-600">No budget has been set.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-3 text-left">Pricing Model</th>
+                  <th className="p-3 text-left">First Breach</th>
+                  <th className="p-3 text-right">Months Over Budget</th>
+                  {config.monthlyBudget !== undefined && <th className="p-3 text-right">Lowest Monthly Headroom</th>}
+                  {config.annualBudget !== undefined && <th className="p-3 text-right">Lowest Annual Headroom</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {status.map(s => (
+                  <tr key={s.key} className={`border-t ${s.firstBreach ? 'bg-red-50' : 'bg-green-50'}`}>
+                    <td className="p-3 font-medium">{s.model}</td>
+                    <td className="p-3">
+                      {s.firstBreach
+                        ? `${monthlyData[s.firstBreach.month - 1]?.label} (${s.firstBreach.basis === 'monthly' ? 'monthly' : monthlyData[s.firstBreach.month - 1]?.year} budget)`
+                        : 'Within budget'}
+                    </td>
+                    <td className="p-3 text-right">{s.breachedMonths}</td>
+                    {config.monthlyBudget !== undefined && (
+                      <td className="p-3 text-right">{formatAmount(Math.round(minHeadroom(s.months.map(m => m.monthlyHeadroom)) ?? 0), config.currency)}</td>
+                    )}
+                    {config.annualBudget !== undefined && (
+                      <td className="p-3 text-right">{formatAmount(Math.round(minHeadroom(s.months.map(m => m.annualHeadroom)) ?? 0), config.currency)}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">Headroom per Month</h3>
+            {config.monthlyBudget !== undefined && config.annualBudget !== undefined && (
+              <>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="radio" checked={basis === 'monthly'} onChange={() => setSelectedBasis('monthly')} />
+                  Monthly budget
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="radio" checked={basis === 'annual'} onChange={() => setSelectedBasis('annual')} />
+                  Annual budget left
+                </label>
+              </>
+            )}
+          </div>
+          <ResponsiveContainer width="100%" height={400}>
+            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="month"
+                label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+              />
+              <YAxis
+                label={{ value: `Headroom (${getCurrencySymbol(config.currency)})`, angle: -90, position: 'insideLeft', offset: 10 }}
+                tickFormatter={(value: number) => formatNumber(Math.round(value))}
+              />
+              <Tooltip
+                formatter={(value: number) => formatAmount(Math.round(value), config.currency)}
+                labelFormatter={(month: number) => monthlyData[month - 1]?.label ?? `Month ${month}`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <ReferenceLine y={0} stroke="#111827" />
+              {PRICING_MODELS.map(({ model, key, color }) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  stroke={color}
+                  strokeWidth={2}
+                  strokeDasharray={key === 'm365AllCost' ? '5 5' : undefined}
+                  name={model}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="flex flex-wrap items-center gap-3 mt-6 mb-3">
+            <h3 className="text-lg font-semibold text-gray-900">Staying Under the Cap</h3>
+            <select
+              value={modelKey}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => setModelKey(e.target.value as keyof MonthlyData)}
+              className="px-3 py-2 border border-gray-300 rounded text-sm"
+            >
+              {PRICING_MODELS.map(({ model, key }) => (
+                <option key={key} value={key}>{model}</option>
+              ))}
+            </select>
+          </div>
+          {!selectedStatus?.firstBreach ? (
+            <p className="text-sm text-gray-600">{selectedStatus?.model} stays within budget over the projection.</p>
+          ) : suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              {selectedStatus.firstBreach.message}, and no single agent or stage delay within the projection avoids it.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-2">{selectedStatus.firstBreach.message}. Any one of these changes keeps it within budget:</p>
+              <ul className="text-sm text-gray-700 list-disc pl-5">
+                {suggestions.map(suggestion => (
+                  <li key={`${suggestion.kind}-${suggestion.id}`}>{suggestion.message}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPlanner;
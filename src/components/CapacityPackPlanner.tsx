@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Config, MonthlyData, PackPeriod, calculatePackPlan, getYearLabels, formatCurrency, formatNumber } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+
+interface CapacityPackPlannerProps {
+  config: Config;
+  pricing: PricingCatalog;
+  monthlyData: MonthlyData[];
+  onPackPeriodChange: (period: PackPeriod | undefined) => void;
+}
+
+// Recommended capacity packs per month for the credit curve, with the credits they leave unused and the PAYG overage
+const CapacityPackPlanner: React.FC<CapacityPackPlannerProps> = ({ config, pricing, monthlyData, onPackPeriodChange }) => {
+  const period = config.packPeriod ?? 'monthly';
+  const plan = useMemo(() => calculatePackPlan(monthlyData, config, pricing), [monthlyData, config, pricing]);
+
+  const chartData = monthlyData.map((m, idx) => ({
+    month: m.month,
+    credits: m.credits,
+    packCredits: plan[idx].packs * pricing.packCredits,
+    packs: plan[idx].packs
+  }));
+
+  const years = getYearLabels(monthlyData).map(year => {
+    const months = plan.filter((_, idx) => monthlyData[idx].year === year);
+    const packCounts = months.map(m => m.packs);
+    const sum = (value: (m: typeof months[number]) => number): number => months.reduce((total, m) => total + value(m), 0);
+    return {
+      year,
+      minPacks: Math.min(...packCounts),
+      maxPacks: Math.max(...packCounts),
+      usedCredits: sum(m => m.usedCredits),
+      expiredCredits: sum(m => m.expiredCredits),
+      overageCredits: sum(m => m.overageCredits),
+      cost: monthlyData.filter(m => m.year === year).reduce((total, m) => total + m.packCost, 0),
+      paygCost: monthlyData.filter(m => m.year === year).reduce((total, m) => total + m.paygCost, 0)
+    };
+  });
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        A capacity pack gives {formatNumber(pricing.packCredits)} credits per month for {formatCurrency(pricing.packPrice, config.currency)} (
+        {formatCurrency(pricing.packPrice / pricing.packCredits, config.currency)} per credit against {formatCurrency(pricing.paygRate, config.currency)} on PAYG).
+        Unused credits expire at the end of the period they were bought for, and usage beyond the packs is billed at PAYG, so the
+        calculator buys the number of whole packs that costs least for each period.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <span className="text-sm font-medium text-gray-700">Packs are bought:</span>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" checked={period === 'monthly'} onChange={() => onPackPeriodChange(undefined)} />
+          Monthly (credits expire at month end)
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" checked={period === 'annual'} onChange={() => onPackPeriodChange('annual')} />
+          Per budget year (credits pooled over the year)
+        </label>
+      </div>
+
+      <ResponsiveContainer width="100%" height={380}>
+        <LineChart data={chartData} margin={{ top: 20, right: 60, left: 60, bottom: 40 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="month"
+            label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+          />
+          <YAxis
+            yAxisId="left"
+            label={{ value: 'Credits per Month', angle: -90, position: 'insideLeft', offset: 10 }}
+            tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`}
+          />
+          <YAxis
+            yAxisId="right"
+            orientation="right"
+            allowDecimals={false}
+            label={{ value: 'Packs', angle: 90, position: 'insideRight', offset: 10 }}
+          />
+          <Tooltip
+            formatter={(value: number) => formatNumber(value)}
+            labelFormatter={(month: number) => monthlyData[month - 1]?.label ?? `Month ${month}`}
+          />
+          <Legend verticalAlign="top" height={36} />
+          <Line yAxisId="left" type="monotone" dataKey="credits" stroke="#3b82f6" strokeWidth={2} name="Credits Used" dot={false} />
+          <Line yAxisId="left" type="stepAfter" dataKey="packCredits" stroke="#14b8a6" strokeWidth={2} strokeDasharray="5 5" name="Pack Credits" dot={false} />
+          <Line yAxisId="right" type="stepAfter" dataKey="packs" stroke="#111827" strokeWidth={1} name="Recommended Packs" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto mt-6">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-3 text-left">Budget Year</th>
+              <th className="p-3 text-right">Packs</th>
+              <th className="p-3 text-right">Credits from Packs</th>
+              <th className="p-3 text-right">Credits Expired</th>
+              <th className="p-3 text-right">PAYG Overage Credits</th>
+              <th className="p-3 text-right">Capacity Packs Cost</th>
+              <th className="p-3 text-right">vs PAYG Alone</th>
+            </tr>
+          </thead>
+          <tbody>
+            {years.map(year => (
+              <tr key={year.year} className="border-t">
+                <td className="p-3 font-medium">{year.year}</td>
+                <td className="p-3 text-right">{year.minPacks === year.maxPacks ? year.minPacks : `${year.minPacks}–${year.maxPacks}`}</td>
+                <td className="p-3 text-right">{formatNumber(year.usedCredits)}</td>
+                <td className="p-3 text-right">{formatNumber(year.expiredCredits)}</td>
+                <td className="p-3 text-right">{formatNumber(year.overageCredits)}</td>
+                <td className="p-3 text-right font-medium">{formatCurrency(year.cost, config.currency)}</td>
+                <td className={`p-3 text-right ${year.cost < year.paygCost ? 'text-green-700' : 'text-gray-700'}`}>
+                  {year.cost < year.paygCost ? `-${formatCurrency(year.paygCost - year.cost, config.currency)}` : `+${formatCurrency(year.cost - year.paygCost, config.currency)}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CapacityPackPlanner;
@@ -1,195 +1,142 @@
-import React, { useState, useMemo, ChangeEvent } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Plus, Trash2, Edit2 } from 'lucide-react';
-
-// Interfaces
-interface Stage {
-  name: string;
-  users: number;
-  month: number;
-  dau: number;
-  phase: string;
-}
-
-interface Config {
-  m365CopilotPrice: number;
-  autonomousActionRatio: number;
-  hybridM365Users: number;
-}
-
-interface MonthlyData {
-  month: number;
-  year: string;
-  users: number;
-  dau: number;
-  dauPercent: number;
-  activeUsers: number;
-  conversations: number;
-  credits: number;
-  paygCost: number;
-  p3Cost: number;
-  paygM365Cost: number;
-  p3M365Cost: number;
-  m365AllCost: number;
-}
+import React, { useState, useMemo, useEffect, ChangeEvent } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceDot } from 'recharts';
+import { Plus, Trash2, Edit2, FileText, Link2 } from 'lucide-react';
+import {
+  Stage,
+  Segment,
+  Config,
+  UsageBucket,
+  Agent,
+  AgentMonthlyCost,
+  MonthlyData,
+  AgentRangeField,
+  Projection,
+  AGENT_RANGE_FIELDS,
+  PRICING_MODELS,
+  calculateAgentCredits,
+  calculateAgentEventCounts,
+  calculateProjection,
+  calculateLicensingBreakpoint,
+  findCheapestModel,
+  validateAgentRanges,
+  getHorizonMonths,
+  getHorizonLabel,
+  getMonthLabel,
+  getYearLabels,
+  getBudgetYearDescription,
+  MIN_PROJECTION_MONTHS,
+  MAX_PROJECTION_MONTHS,
+  formatCurrency,
+  formatCostTick,
+  validateNumber,
+  formatNumber
+} from '../utils/calculations';
+import {
+  PricingCatalog,
+  CORE_BILLING_EVENT_IDS,
+  getEventCredits,
+  loadPricingCatalog,
+  savePricingCatalog
+} from '../utils/pricing';
+import {
+  Scenario,
+  ScenarioStore,
+  loadScenarioStore,
+  validateScenario,
+  saveScenarioStore,
+  updateActiveScenario,
+  createScenario,
+  createAgent,
+  createScenarioDocument,
+  uniqueScenarioName
+} from '../utils/scenarios';
+import {
+  CurrencyCode,
+  CurrencySettings,
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY_SETTINGS,
+  convertCost,
+  describeCurrency,
+  getCurrencySymbol,
+  validateCurrencySettings
+} from '../utils/currency';
+import { calculateCrossovers } from '../utils/timeline';
+import { compareActuals } from '../utils/actuals';
+import { SHARE_HASH_PREFIX, encodeShareHash, decodeShareHash, getSharedPricingWarning } from '../utils/share';
+import PricingCatalogEditor from './PricingCatalogEditor';
+import StageEditor from './StageEditor';
+import SegmentEditor from './SegmentEditor';
+import ScenarioManager from './ScenarioManager';
+import ProjectionExport from './ProjectionExport';
+import Disclaimer from './Disclaimer';
+import ExecutiveReport from './ExecutiveReport';
+import UncertaintyAnalysis from './UncertaintyAnalysis';
+import SensitivityAnalysis from './SensitivityAnalysis';
+import LicenseOptimizer from './LicenseOptimizer';
+import UsageDistributionEditor from './UsageDistributionEditor';
+import BreakevenTimeline from './BreakevenTimeline';
+import ActualsTracker from './ActualsTracker';
+import AgentCalibration from './AgentCalibration';
+import BudgetPlanner from './BudgetPlanner';
+import CapacityPackPlanner from './CapacityPackPlanner';
+import P3CommitmentPlanner from './P3CommitmentPlanner';
+import M365SeatPlanner from './M365SeatPlanner';
+
+const CALENDAR_MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Card colours of the per-year agent cost cards, repeated when the horizon spans more years
+const YEAR_CARD_STYLES = [
+  { card: 'from-green-50 to-emerald-50 border-green-200', label: 'text-green-700', value: 'text-green-900' },
+  { card: 'from-blue-50 to-indigo-50 border-blue-200', label: 'text-blue-700', value: 'text-blue-900' },
+  { card: 'from-purple-50 to-pink-50 border-purple-200', label: 'text-purple-700', value: 'text-purple-900' }
+];
 
-interface PricingSummary {
-  model: string;
-  year1: number;
-  year2: number;
-  year3: number;
-  total: number;
-  color: string;
-}
-
-interface Agent {
-  id: number;
-  name: string;
-  purpose: string;
-  conversationsPerDay: number;
-  turns: number;
-  generativeRatio: number;
-  actions: number;
-  tenantGraph: boolean;
-  deployMonth: number;
-  segments: string[];
-  color: string;
-  enabled: boolean;
-}
+const CopilotCostCalculator: React.FC = () => {
+  // Saved scenarios; the working inputs below are autosaved into the active one
+  const [scenarioStore, setScenarioStore] = useState<ScenarioStore>(() => loadScenarioStore());
+  const initialScenario = scenarioStore.scenarios.find(s => s.id === scenarioStore.activeScenarioId) || scenarioStore.scenarios[0];
 
-interface AgentMonthlyCost {
-  month: number;
-  agentCosts: { agentId: number; agentName: string; cost: number; color: string }[];
-  totalCost: number;
-}
+  // Stages with time-based rollout (fully editable, always valid)
+  const [stages, setStages] = useState<Stage[]>(initialScenario.stages);
 
-const CopilotCostCalculator: React.FC = () => {
-  // Stages with time-based rollout (now editable)
-  const [stages, setStages] = useState<Stage[]>([
-    { name: 'Pilot (HQ)', users: 130, month: 1, dau: 0.45, phase: 'Pilot' },
-    { name: 'HQ Expansion', users: 500, month: 4, dau: 0.40, phase: 'Expansion' },
-    { name: 'Full HQ', users: 1000, month: 7, dau: 0.38, phase: 'Expansion' },
-    { name: 'HQ + Mgmt', users: 2500, month: 10, dau: 0.35, phase: 'Management' },
-    { name: 'All Mgmt', users: 6000, month: 13, dau: 0.33, phase: 'Management' },
-    { name: 'Mgmt + Stores', users: 12000, month: 19, dau: 0.30, phase: 'Stores' },
-    { name: 'Near-Complete', users: 30000, month: 31, dau: 0.28, phase: 'Enterprise' }
-  ]);
+  // Audience segments targeted by agents (headcount per stage is set on each stage)
+  const [segments, setSegments] = useState<Segment[]>(initialScenario.segments);
 
   // Configuration parameters with sliders
-  const [config, setConfig] = useState<Config>({
-    m365CopilotPrice: 30,
-    autonomousActionRatio: 0.15,
-    hybridM365Users: 200
-  });
+  const [config, setConfig] = useState<Config>(initialScenario.config);
+
+  // Pricing catalog (persisted locally, shared by every calculation)
+  const [pricing, setPricing] = useState<PricingCatalog>(() => loadPricingCatalog());
 
   const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
+  const [showPricingCatalog, setShowPricingCatalog] = useState<boolean>(false);
   const [showStageEditor, setShowStageEditor] = useState<boolean>(false);
+  // Bumped when the inputs are replaced from outside the stage and segment editors so they drop their drafts
+  const [inputsRevision, setInputsRevision] = useState<number>(0);
+  const [showSegmentEditor, setShowSegmentEditor] = useState<boolean>(false);
   const [showRolloutPlan, setShowRolloutPlan] = useState<boolean>(false);
   const [showSettings, setShowSettings] = useState<boolean>(true);
+  const [showScenarios, setShowScenarios] = useState<boolean>(false);
+  const [showReport, setShowReport] = useState<boolean>(false);
+  const [shareUrl, setShareUrl] = useState<string>('');
+  const [shareStatus, setShareStatus] = useState<string>('');
+  const [sharedLink, setSharedLink] = useState<{ name: string; pricing: PricingCatalog | null; errors: string[] } | null>(null);
 
   // Agent portfolio state
   const agentColors = ['#8b5cf6', '#3b82f6', '#f59e0b', '#22c55e', '#ef4444', '#ec4899', '#06b6d4', '#84cc16'];
 
-  const [agents, setAgents] = useState<Agent[]>([
-    {
-      id: 1,
-      name: 'HR Helper',
-      purpose: 'Benefits, PTO, policies',
-      conversationsPerDay: 1.5,
-      turns: 4,
-      generativeRatio: 0.50,
-      actions: 0.5,
-      tenantGraph: false,
-      deployMonth: 1,
-      segments: ['HQ', 'Management', 'Stores', 'All'],
-      color: '#8b5cf6',
-      enabled: true
-    },
-    {
-      id: 2,
-      name: 'IT Helpdesk',
-      purpose: 'Password reset, access requests',
-      conversationsPerDay: 1.0,
-      turns: 5,
-      generativeRatio: 0.60,
-      actions: 2,
-      tenantGraph: false,
-      deployMonth: 1,
-      segments: ['HQ', 'Management', 'Stores', 'All'],
-      color: '#3b82f6',
-      enabled: true
-    },
-    {
-      id: 3,
-      name: 'Document Search',
-      purpose: 'Policy docs, manuals',
-      conversationsPerDay: 1.0,
-      turns: 6,
-      generativeRatio: 0.80,
-      actions: 1,
-      tenantGraph: true,
-      deployMonth: 4,
-      segments: ['HQ', 'Management'],
-      color: '#f59e0b',
-      enabled: true
-    },
-    {
-      id: 4,
-      name: 'Document Translation',
-      purpose: 'Translate PPT, Word, Excel documents',
-      conversationsPerDay: 0.75,
-      turns: 4,
-      generativeRatio: 0.95,
-      actions: 2.5,
-      tenantGraph: false,
-      deployMonth: 5,
-      segments: ['HQ', 'Management'],
-      color: '#22c55e',
-      enabled: true
-    },
-    {
-      id: 5,
-      name: 'Document Summarization',
-      purpose: 'Summarize PPT, Word, Excel documents',
-      conversationsPerDay: 1.5,
-      turns: 5,
-      generativeRatio: 0.85,
-      actions: 1.5,
-      tenantGraph: false,
-      deployMonth: 2,
-      segments: ['HQ', 'Management', 'Stores', 'All'],
-      color: '#ef4444',
-      enabled: true
-    }
-  ]);
+  const [agents, setAgents] = useState<Agent[]>(initialScenario.agents);
 
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
   const [showAddAgent, setShowAddAgent] = useState<boolean>(false);
-
-  // Update stage values
-  const updateStage = (index: number, field: 'users' | 'dau', value: number) => {
-    const newStages = [...stages];
-    if (field === 'dau') {
-      newStages[index] = { ...newStages[index], dau: value / 100 };
-    } else {
-      newStages[index] = { ...newStages[index], [field]: value };
-    }
-    setStages(newStages);
-  };
-
-  // Agent helper functions
-  const calculateAgentCredits = (agent: Agent): number => {
-    const classicCredits = agent.turns * (1 - agent.generativeRatio) * 1;
-    const generativeCredits = agent.turns * agent.generativeRatio * 2;
-    const actionCredits = agent.actions * 5;
-    const graphCredits = agent.tenantGraph ? 10 : 0;
-    return classicCredits + generativeCredits + actionCredits + graphCredits;
-  };
+  // Agent whose profile the breakpoint analysis clones; null = average of enabled agents
+  const [breakpointTemplateId, setBreakpointTemplateId] = useState<number | null>(null);
 
   const addAgent = (newAgent: Partial<Agent>) => {
-    const id = Math.max(...agents.map(a => a.id), 0) + 1;
-    const color = agentColors[agents.length % agentColors.length];
-    setAgents([...agents, { ...newAgent, id, color } as Agent]);
+    setAgents([...agents, createAgent(newAgent, agents, agentColors[agents.length % agentColors.length])]);
     setShowAddAgent(false);
   };
 
@@ -206,443 +153,302 @@ const CopilotCostCalculator: React.FC = () => {
     setAgents(agents.map(a => a.id === id ? { ...a, enabled: !a.enabled } : a));
   };
 
-  // Linear interpolation between stages
-  const interpolateValue = (month: number, stagesBefore: Stage[], stagesAfter: Stage[], getValue: (stage: Stage) => number): number => {
-    const beforeStage = stagesBefore[stagesBefore.length - 1];
-    const afterStage = stagesAfter[0];
-
-    if (!beforeStage) return getValue(afterStage);
-    if (!afterStage) return getValue(beforeStage);
-
-    const monthRange = afterStage.month - beforeStage.month;
-    const monthProgress = month - beforeStage.month;
-    const ratio = monthProgress / monthRange;
-
-    const beforeValue = getValue(beforeStage);
-    const afterValue = getValue(afterStage);
-
-    return beforeValue + (afterValue - beforeValue) * ratio;
+  // Remove a segment along with agent targeting and stage headcounts that reference it
+  const deleteSegment = (segmentId: string) => {
+    setSegments(segments.filter(s => s.id !== segmentId));
+    setAgents(agents.map(a => ({ ...a, segments: a.segments.filter(id => id !== segmentId) })));
+    setStages(stages.map(stage => {
+      const segmentUsers = { ...stage.segmentUsers };
+      delete segmentUsers[segmentId];
+      return { ...stage, segmentUsers };
+    }));
   };
 
-  // Calculate monthly projections over 36 months (aggregated from all agents)
-  const monthlyData = useMemo((): MonthlyData[] => {
-    const data: MonthlyData[] = [];
-    const WORKING_DAYS_PER_MONTH = 22;
-    const paygRate = 0.01;
-    const p3Discount = 0.15;
-
-    for (let month = 1; month <= 36; month++) {
-      // Find stages before and after this month
-      const stagesBefore = stages.filter(s => s.month <= month);
-      const stagesAfter = stages.filter(s => s.month > month);
-
-      // Interpolate users and DAU
-      const users = Math.round(interpolateValue(month, stagesBefore, stagesAfter, s => s.users));
-      const dau = interpolateValue(month, stagesBefore, stagesAfter, s => s.dau);
-      const activeUsers = Math.round(users * dau);
-
-      // Find current stage for segment calculations
-      const currentStage = [...stages].reverse().find(s => s.month <= month) || stages[0];
-
-      // Aggregate costs across all enabled agents
-      let totalConversations = 0;
-      let totalCredits = 0;
-      let totalActionsForM365 = 0; // For M365 hybrid model autonomous actions
-
-      agents.forEach(agent => {
-        // Only include enabled agents that have been deployed
-        if (!agent.enabled || month < agent.deployMonth) {
-          return;
-        }
-
-        // Determine eligible users based on agent segments
-        let eligibleUsers = 0;
-        if (agent.segments.includes('All')) {
-          eligibleUsers = users;
-        } else if (agent.segments.includes('Stores')) {
-          eligibleUsers = users;
-        } else if (agent.segments.includes('Management')) {
-          if (currentStage.phase === 'Management' || currentStage.phase === 'Stores' || currentStage.phase === 'Enterprise') {
-            eligibleUsers = users;
-          } else if (currentStage.phase === 'Expansion') {
-            eligibleUsers = Math.round(users * 0.4);
-          }
-        } else if (agent.segments.includes('HQ')) {
-          if (currentStage.phase === 'Pilot' || currentStage.phase === 'Expansion') {
-            eligibleUsers = users;
-          } else {
-            eligibleUsers = Math.round(users * 0.15);
-          }
-        }
-
-        // Calculate agent-specific metrics
-        const agentActiveUsers = Math.round(eligibleUsers * dau);
-        const agentConversations = agentActiveUsers * agent.conversationsPerDay * WORKING_DAYS_PER_MONTH;
-        const agentCreditsPerConv = calculateAgentCredits(agent);
-        const agentCredits = agentConversations * agentCreditsPerConv;
-
-        // Accumulate totals
-        totalConversations += agentConversations;
-        totalCredits += agentCredits;
-        totalActionsForM365 += agentConversations * agent.actions; // Track actions for M365 model
-      });
-
-      // Model 1: PAYG Alone
-      const paygCost = totalCredits * paygRate;
-
-      // Model 2: P3 Pre-Purchase (15% discount)
-      const p3Cost = totalCredits * paygRate * (1 - p3Discount);
-
-      // Model 3 & 4: PAYG/P3 + M365 Licenses (hybrid)
-      // M365 users only pay for autonomous actions
-      const m365Users = Math.min(config.hybridM365Users, users);
-      const paygUsers = users - m365Users;
-
-      // Split credits proportionally between M365 and PAYG users
-      const userRatio = users > 0 ? paygUsers / users : 0;
-      const paygCredits = totalCredits * userRatio;
-      const m365AutonomousCredits = totalActionsForM365 * (1 - userRatio) * config.autonomousActionRatio * 5;
-
-      const paygM365Cost = (m365Users * config.m365CopilotPrice) + ((m365AutonomousCredits + paygCredits) * paygRate);
-      const p3M365Cost = (m365Users * config.m365CopilotPrice) + ((m365AutonomousCredits + paygCredits) * paygRate * (1 - p3Discount));
-
-      // Model 5: M365 Copilot for All
-      const m365AllCost = users * config.m365CopilotPrice;
-
-      data.push({
-        month,
-        year: month <= 12 ? 'Year 1' : month <= 24 ? 'Year 2' : 'Year 3',
-        users,
-        dau,
-        dauPercent: dau * 100,
-        activeUsers,
-        conversations: Math.round(totalConversations),
-        credits: Math.round(totalCredits),
-        paygCost: Math.round(paygCost),
-        p3Cost: Math.round(p3Cost),
-        paygM365Cost: Math.round(paygM365Cost),
-        p3M365Cost: Math.round(p3M365Cost),
-        m365AllCost: Math.round(m365AllCost)
-      });
-    }
+  const replaceStages = (newStages: Stage[]) => {
+    setStages(newStages);
+    setInputsRevision(revision => revision + 1);
+  };
 
-    return data;
-  }, [stages, agents, config]);
-
-  // Calculate 3-year summary
-  const pricingSummary = useMemo((): PricingSummary[] => {
-    const year1Data = monthlyData.slice(0, 12);
-    const year2Data = monthlyData.slice(12, 24);
-    const year3Data = monthlyData.slice(24, 36);
-
-    const sum = (data: MonthlyData[], key: keyof MonthlyData): number =>
-      data.reduce((acc, m) => acc + (m[key] as number), 0);
-
-    const models = [
-      {
-        model: 'PAYG Alone',
-        year1: sum(year1Data, 'paygCost'),
-        year2: sum(year2Data, 'paygCost'),
-        year3: sum(year3Data, 'paygCost'),
-        color: '#3b82f6' // blue
-      },
-      {
-        model: 'P3 Pre-Purchase (15% discount)',
-        year1: sum(year1Data, 'p3Cost'),
-        year2: sum(year2Data, 'p3Cost'),
-        year3: sum(year3Data, 'p3Cost'),
-        color: '#8b5cf6' // violet
-      },
-      {
-        model: 'PAYG + M365 Licenses',
-        year1: sum(year1Data, 'paygM365Cost'),
-        year2: sum(year2Data, 'paygM365Cost'),
-        year3: sum(year3Data, 'paygM365Cost'),
-        color: '#10b981' // green
-      },
-      {
-        model: 'P3 + M365 Licenses',
-        year1: sum(year1Data, 'p3M365Cost'),
-        year2: sum(year2Data, 'p3M365Cost'),
-        year3: sum(year3Data, 'p3M365Cost'),
-        color: '#f59e0b' // amber
-      },
-      {
-        model: 'M365 Copilot for All',
-        year1: sum(year1Data, 'm365AllCost'),
-        year2: sum(year2Data, 'm365AllCost'),
-        year3: sum(year3Data, 'm365AllCost'),
-        color: '#ef4444' // red
-      }
-    ];
+  const segmentNames = (segmentIds: string[]): string =>
+    segmentIds.map(id => segments.find(s => s.id === id)?.name).filter(Boolean).join(', ') || 'None';
 
-    return models.map(m => ({
-      ...m,
-      total: m.year1 + m.year2 + m.year3
-    }));
-  }, [monthlyData]);
+  // Run the projection engine over the current rollout, portfolio and configuration
+  const projection = useMemo(
+    (): Projection => calculateProjection(stages, segments, agents, config, pricing),
+    [stages, segments, agents, config, pricing]
+  );
+  const { monthlyData, pricingSummary, agentMonthlyCosts, agentYearSummary } = projection;
+  const yearLabels = getYearLabels(monthlyData);
+  const horizonLabel = getHorizonLabel(config);
+  const formatMonth = (month: number): string => getMonthLabel(month, config);
+  // The agent cost breakdown shows the portfolio in the last month of the horizon
+  const breakdownMonth = agentMonthlyCosts[agentMonthlyCosts.length - 1];
+  const currency = config.currency;
+  const currencySettings = currency ?? DEFAULT_CURRENCY_SETTINGS;
+  const currencyErrors = currency ? validateCurrencySettings(currency) : [];
+  const formatCost = (value: number): string => formatCurrency(value, currency);
 
   // Find cheapest model
-  const cheapestModel = useMemo(() => {
-    return pricingSummary.reduce((min, curr) => curr.total < min.total ? curr : min);
-  }, [pricingSummary]);
-
-  // Calculate agent-based monthly costs
-  const agentMonthlyCosts = useMemo((): AgentMonthlyCost[] => {
-    const costs: AgentMonthlyCost[] = [];
-    const PAYG_RATE = 0.01;
-    const WORKING_DAYS_PER_MONTH = 22;
-
-    for (let month = 1; month <= 36; month++) {
-      // Find current user counts from monthlyData
-      const monthData = monthlyData[month - 1];
-      if (!monthData) continue;
-
-      const agentCosts: { agentId: number; agentName: string; cost: number; color: string }[] = [];
-      let totalCost = 0;
-
-      agents.forEach(agent => {
-        // Only include enabled agents
-        if (!agent.enabled) {
-          return;
-        }
-
-        // Check if agent is deployed this month
-        if (month < agent.deployMonth) {
-          return;
-        }
-
-        // Determine which users have access based on segments
-        let eligibleUsers = 0;
-        // Find the last stage that has started (not the first one)
-        const currentStage = [...stages].reverse().find(s => s.month <= month) || stages[0];
-
-        // Simplified segment calculation based on stage phase
-        if (agent.segments.includes('All')) {
-          eligibleUsers = monthData.users;
-        } else if (agent.segments.includes('Stores')) {
-          eligibleUsers = monthData.users; // Stores implies access to all
-        } else if (agent.segments.includes('Management')) {
-          // Management is available from "HQ + Mgmt" stage onwards
-          if (currentStage.phase === 'Management' || currentStage.phase === 'Stores' || currentStage.phase === 'Enterprise') {
-            eligibleUsers = monthData.users;
-          } else if (currentStage.phase === 'Expansion') {
-            eligibleUsers = Math.round(monthData.users * 0.4); // Partial management access
-          }
-        } else if (agent.segments.includes('HQ')) {
-          // HQ only
-          if (currentStage.phase === 'Pilot' || currentStage.phase === 'Expansion') {
-            eligibleUsers = monthData.users;
-          } else {
-            eligibleUsers = Math.round(monthData.users * 0.15); // HQ is ~15% of total
-          }
-        }
-
-        // Calculate costs for this agent
-        const activeUsers = Math.round(eligibleUsers * monthData.dau);
-        const creditsPerConv = calculateAgentCredits(agent);
-        const monthlyConversations = activeUsers * agent.conversationsPerDay * WORKING_DAYS_PER_MONTH;
-        const monthlyCredits = monthlyConversations * creditsPerConv;
-        const monthlyCost = monthlyCredits * PAYG_RATE;
-
-        agentCosts.push({
-          agentId: agent.id,
-          agentName: agent.name,
-          cost: Math.round(monthlyCost),
-          color: agent.color
-        });
-
-        totalCost += monthlyCost;
-      });
-
-      costs.push({
-        month,
-        agentCosts,
-        totalCost: Math.round(totalCost)
-      });
-    }
+  const cheapestModel = useMemo(() => findCheapestModel(pricingSummary), [pricingSummary]);
+  const existingLicenses = segments.reduce((sum, segment) => sum + (segment.existingLicenses || 0), 0);
 
-    return costs;
-  }, [agents, monthlyData, stages]);
+  // Months in which one model's monthly cost overtakes another's, marked on the monthly cost chart
+  const monthlyCrossovers = useMemo(() => calculateCrossovers(monthlyData, 'monthly', config), [monthlyData, config]);
 
-  // Calculate 3-year agent cost summary
-  const agent3YearSummary = useMemo(() => {
-    const summary = agents.filter(agent => agent.enabled).map(agent => {
-      let year1 = 0, year2 = 0, year3 = 0;
+  // Recorded consumption against the projection, overlaid on the PAYG curves
+  const actuals = useMemo(
+    () => compareActuals(agents, agentMonthlyCosts, monthlyData, pricing),
+    [agents, agentMonthlyCosts, monthlyData, pricing]
+  );
+  const hasActuals = actuals.lastActualMonth !== null;
 
-      agentMonthlyCosts.forEach(({ month, agentCosts }) => {
-        const agentCost = agentCosts.find(ac => ac.agentId === agent.id);
-        if (!agentCost) return;
+  // Calculate licensing breakpoint analysis
+  const licensingBreakpoint = useMemo(
+    () => calculateLicensingBreakpoint(
+      agents,
+      segments,
+      monthlyData,
+      pricingSummary,
+      config,
+      pricing,
+      agents.find(a => a.id === breakpointTemplateId)
+    ),
+    [agents, segments, pricingSummary, monthlyData, config, pricing, breakpointTemplateId]
+  );
 
-        if (month <= 12) year1 += agentCost.cost;
-        else if (month <= 24) year2 += agentCost.cost;
-        else year3 += agentCost.cost;
-      });
+  const updateConfig = (key: 'autonomousActionRatio' | 'hybridM365Users', value: number) => {
+    setConfig(prev => ({ ...prev, [key]: value }));
+  };
 
-      return {
-        agent,
-        year1,
-        year2,
-        year3,
-        total: year1 + year2 + year3
-      };
+  // Unset timeline and budget settings are dropped from the config, like the usage distribution
+  const updateOptionalConfig = <
+    K extends 'horizonMonths' | 'startDate' | 'fiscalYearStartMonth' | 'monthlyBudget' | 'annualBudget' | 'packPeriod' | 'p3Commitment'
+      | 'm365Procurement' | 'currency'
+  >(key: K, value: Config[K]) => {
+    setConfig(prev => {
+      const next = { ...prev, [key]: value };
+      if (value === undefined) delete next[key];
+      return next;
     });
+  };
 
-    return summary;
-  }, [agents, agentMonthlyCosts]);
-
-  // Calculate licensing breakpoint analysis
-  const licensingBreakpoint = useMemo(() => {
-    const enabledAgents = agents.filter(a => a.enabled);
-
-    if (enabledAgents.length === 0) {
-      return {
-        currentAgentCount: 0,
-        currentPaygTotal: 0,
-        currentM365Total: 0,
-        breakpointAgentCount: 0,
-        breakpointPaygTotal: 0,
-        additionalAgents: 0,
-        hasBreakpoint: false,
-        message: 'No agents enabled'
-      };
-    }
-
-    // Get current costs from pricing summary
-    // Compare PAYG to pure M365 licensing (M365 Copilot for All), not hybrid models
-    const currentPaygTotal = pricingSummary.find(p => p.model === 'PAYG Alone')?.total || 0;
-    const currentM365Total = pricingSummary.find(p => p.model === 'M365 Copilot for All')?.total || 0;
-
-    // If M365 is already cheaper, return current state
-    if (currentPaygTotal >= currentM365Total) {
-      return {
-        currentAgentCount: enabledAgents.length,
-        currentPaygTotal,
-        currentM365Total,
-        breakpointAgentCount: enabledAgents.length,
-        breakpointPaygTotal: currentPaygTotal,
-        additionalAgents: 0,
-        hasBreakpoint: true,
-        message: `M365 Copilot for All is already more economical at current scale`
-      };
-    }
+  const updateCurrency = (changes: Partial<CurrencySettings>) => {
+    updateOptionalConfig('currency', { ...currencySettings, ...changes });
+  };
 
-    // Calculate average agent characteristics for simulation
-    const avgCreditsPerConv = enabledAgents.reduce((sum, a) => sum + calculateAgentCredits(a), 0) / enabledAgents.length;
-    const avgConversationsPerDay = enabledAgents.reduce((sum, a) => sum + a.conversationsPerDay, 0) / enabledAgents.length;
-    const avgDeployMonth = Math.round(enabledAgents.reduce((sum, a) => sum + a.deployMonth, 0) / enabledAgents.length);
+  const updateUsageDistribution = (usageDistribution: UsageBucket[] | undefined) => {
+    setConfig(({ usageDistribution: _previous, ...prev }) => usageDistribution ? { ...prev, usageDistribution } : prev);
+  };
 
-    // Most common segment (for simulation)
-    const segmentCounts = new Map<string, number>();
-    enabledAgents.forEach(a => {
-      a.segments.forEach(seg => {
-        segmentCounts.set(seg, (segmentCounts.get(seg) || 0) + 1);
-      });
-    });
-    const mostCommonSegment = Array.from(segmentCounts.entries()).sort((a, b) => b[1] - a[1])[0][0];
-
-    // Simulate adding agents incrementally
-    const PAYG_RATE = 0.01;
-    const DAYS_PER_MONTH = 30;
-    const MAX_AGENTS_TO_SIMULATE = 200; // Reasonable upper limit
-
-    for (let additionalAgents = 1; additionalAgents <= MAX_AGENTS_TO_SIMULATE; additionalAgents++) {
-      // Calculate additional cost from simulated agents
-      let additionalCost = 0;
-
-      for (let month = 1; month <= 36; month++) {
-        const monthData = monthlyData[month - 1];
-        if (!monthData) continue;
-
-        // Only count months after average deployment
-        if (month < avgDeployMonth) continue;
-
-        // Calculate eligible users based on most common segment
-        let eligibleUsers = 0;
-        const currentStage = [...stages].reverse().find(s => s.month <= month) || stages[0];
-
-        if (mostCommonSegment === 'All') {
-          eligibleUsers = monthData.users;
-        } else if (mostCommonSegment === 'Stores') {
-          eligibleUsers = monthData.users;
-        } else if (mostCommonSegment === 'Management') {
-          if (currentStage.phase === 'Management' || currentStage.phase === 'Stores' || currentStage.phase === 'Enterprise') {
-            eligibleUsers = monthData.users;
-          } else if (currentStage.phase === 'Expansion') {
-            eligibleUsers = Math.round(monthData.users * 0.4);
-          }
-        } else if (mostCommonSegment === 'HQ') {
-          if (currentStage.phase === 'Pilot' || currentStage.phase === 'Expansion') {
-            eligibleUsers = monthData.users;
-          } else {
-            eligibleUsers = Math.round(monthData.users * 0.15);
-          }
-        }
-
-        // Calculate cost for simulated agents this month
-        const activeUsers = Math.round(eligibleUsers * monthData.dau);
-        const monthlyConversations = activeUsers * avgConversationsPerDay * DAYS_PER_MONTH;
-        const monthlyCredits = monthlyConversations * avgCreditsPerConv;
-        const monthlyCost = monthlyCredits * PAYG_RATE;
-
-        additionalCost += monthlyCost * additionalAgents;
-      }
+  const savePricing = (catalog: PricingCatalog) => {
+    setPricing(savePricingCatalog(catalog, pricing));
+  };
 
-      const projectedPaygTotal = currentPaygTotal + additionalCost;
-
-      // Check if we've reached the breakpoint
-      if (projectedPaygTotal >= currentM365Total) {
-        return {
-          currentAgentCount: enabledAgents.length,
-          currentPaygTotal,
-          currentM365Total,
-          breakpointAgentCount: enabledAgents.length + additionalAgents,
-          breakpointPaygTotal: Math.round(projectedPaygTotal),
-          additionalAgents,
-          hasBreakpoint: true,
-          avgCreditsPerConv: Math.round(avgCreditsPerConv * 10) / 10,
-          message: `With your current onboarding plan, you have headroom for ${additionalAgents} more agent${additionalAgents > 1 ? 's' : ''} before M365 Copilot for All becomes more economical`
-        };
+  useEffect(() => {
+    setScenarioStore(prev => updateActiveScenario(prev, { stages, segments, agents, config }));
+  }, [stages, segments, agents, config]);
+
+  useEffect(() => {
+    saveScenarioStore(scenarioStore);
+  }, [scenarioStore]);
+
+  // Open a shared link (on load or when a link is pasted into this tab) as a new scenario
+  useEffect(() => {
+    const openSharedLink = async () => {
+      const hash = window.location.hash;
+      if (!hash.startsWith(SHARE_HASH_PREFIX)) return;
+      // Clear the hash first so a reload (or a second effect run) does not import the link twice
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+      const result = await decodeShareHash(hash);
+      const doc = result?.document;
+      if (!doc) {
+        setSharedLink({ name: '', pricing: null, errors: result?.errors || [] });
+        return;
       }
-    }
 
-    // No breakpoint found within reasonable limits
-    return {
-      currentAgentCount: enabledAgents.length,
-      currentPaygTotal,
-      currentM365Total,
-      breakpointAgentCount: enabledAgents.length + MAX_AGENTS_TO_SIMULATE,
-      breakpointPaygTotal: 0,
-      additionalAgents: MAX_AGENTS_TO_SIMULATE,
-      hasBreakpoint: false,
-      avgCreditsPerConv: Math.round(avgCreditsPerConv * 10) / 10,
-      message: `PAYG remains more economical even with ${MAX_AGENTS_TO_SIMULATE}+ additional agents given your onboarding plan`
+      const { stages: sharedStages, segments: sharedSegments, agents: sharedAgents, config: sharedConfig } = doc;
+      setScenarioStore(prev => {
+        const scenario = createScenario(
+          uniqueScenarioName(doc.name, prev.scenarios),
+          { stages: sharedStages, segments: sharedSegments, agents: sharedAgents, config: sharedConfig },
+          prev.scenarios
+        );
+        return { activeScenarioId: scenario.id, scenarios: [...prev.scenarios, scenario] };
+      });
+      replaceStages(sharedStages);
+      setSegments(sharedSegments);
+      setAgents(sharedAgents);
+      setConfig(sharedConfig);
+      setSharedLink({ name: doc.name, pricing: doc.pricing, errors: [] });
     };
-  }, [agents, pricingSummary, monthlyData, stages]);
 
-  // Helper functions
-  const formatCurrency = (value: number): string => `$${value.toLocaleString()}`;
-  const formatNumber = (value: number): string => value.toLocaleString();
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
+
+  // Switch the working inputs to another saved scenario
+  const loadScenario = (scenario: Scenario) => {
+    setScenarioStore(prev => ({ ...prev, activeScenarioId: scenario.id }));
+    replaceStages(scenario.stages);
+    setSegments(scenario.segments);
+    setAgents(scenario.agents);
+    setConfig(scenario.config);
+    setEditingAgent(null);
+    setShowAddAgent(false);
+  };
 
-  const updateConfig = (key: keyof Config, value: number) => {
-    setConfig(prev => ({ ...prev, [key]: value }));
+  // Scenarios are saved as they are edited, so a saved one can hold inputs that still need fixing
+  const scenarioErrors = useMemo(() => scenarioStore.scenarios.flatMap(validateScenario), [scenarioStore]);
+
+  const activeScenarioName = scenarioStore.scenarios.find(s => s.id === scenarioStore.activeScenarioId)?.name || 'Projection';
+  const sharedPricingWarning = sharedLink?.pricing ? getSharedPricingWarning(sharedLink.pricing, pricing) : null;
+
+  const copyShareLink = async () => {
+    const doc = createScenarioDocument(
+      { id: scenarioStore.activeScenarioId, name: activeScenarioName, updatedAt: new Date().toISOString(), stages, segments, agents, config },
+      pricing
+    );
+    const url = `${window.location.origin}${window.location.pathname}${await encodeShareHash(doc)}`;
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus('Link copied to clipboard');
+    } catch {
+      setShareStatus('Copy the link below');
+    }
   };
 
+  if (showReport) {
+    return (
+      <ExecutiveReport
+        name={activeScenarioName}
+        stages={stages}
+        segments={segments}
+        agents={agents}
+        config={config}
+        pricing={pricing}
+        projection={projection}
+        cheapestModel={cheapestModel}
+        licensingBreakpoint={licensingBreakpoint}
+        onClose={() => setShowReport(false)}
+      />
+    );
+  }
+
   return (
     <div className="w-full max-w-7xl mx-auto p-6 bg-gray-50">
       {/* Header */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-        <h1 className="text-3xl font-bold text-blue-900 mb-2">
-          Copilot Studio Cost Projection Calculator
-        </h1>
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-3xl font-bold text-blue-900 mb-2">
+            Copilot Studio Cost Projection Calculator
+          </h1>
+          <div className="flex gap-2">
+            <button
+              onClick={copyShareLink}
+              className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 transition-colors whitespace-nowrap"
+            >
+              <Link2 size={18} />
+              Copy Share Link
+            </button>
+            <button
+              onClick={() => setShowReport(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
+            >
+              <FileText size={18} />
+              Executive Report
+            </button>
+          </div>
+        </div>
+
+        {shareUrl && (
+          <div className="mb-4 p-3 bg-blue-50 rounded border border-blue-200">
+            <p className="text-xs text-blue-800 mb-1">{shareStatus} — anyone opening it sees this scenario with your pricing catalog.</p>
+            <input
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()}
+              className="w-full p-2 border rounded bg-white text-xs font-mono"
+            />
+          </div>
+        )}
+
+        {sharedLink && (
+          <div className={`mb-4 p-4 rounded border-l-4 ${sharedLink.errors.length > 0 ? 'bg-red-50 border-red-500' : sharedPricingWarning ? 'bg-amber-50 border-amber-500' : 'bg-green-50 border-green-500'}`}>
+            {sharedLink.errors.length > 0 ? (
+              <>
+                <p className="text-sm font-semibold text-red-800 mb-1">The shared link could not be opened:</p>
+                <ul className="text-xs text-red-700 list-disc pl-5">
+                  {sharedLink.errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-800">
+                  Opened shared scenario <strong>{sharedLink.name}</strong> as a new scenario.
+                </p>
+                {sharedPricingWarning && sharedLink.pricing && (
+                  <div className="mt-2">
+                    <p className="text-sm text-amber-900">
+                      ⚠️ {sharedPricingWarning} The numbers below use your catalog and may differ from the sender's.
+                    </p>
+                    <button
+                      onClick={() => sharedLink.pricing && savePricing(sharedLink.pricing)}
+                      className="mt-2 px-3 py-1 bg-amber-600 text-white rounded text-sm hover:bg-amber-700"
+                    >
+                      Use the Link's Pricing Catalog
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+            <button
+              onClick={() => setSharedLink(null)}
+              className="mt-2 text-xs text-gray-600 hover:text-gray-900 underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        {scenarioErrors.length > 0 && (
+          <div className="mb-4 p-4 rounded border-l-4 bg-amber-50 border-amber-500">
+            <p className="text-sm font-semibold text-amber-900 mb-1">Saved scenarios with inputs to fix:</p>
+            <ul className="text-xs text-amber-800 list-disc pl-5">
+              {scenarioErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
         <p className="text-gray-600 mb-4">
-          Interactive 3-year cost projection with usage-based modeling and 5 pricing strategies
+          Interactive {horizonLabel.toLowerCase()} cost projection with usage-based modeling and {PRICING_MODELS.length} pricing strategies
         </p>
 
-        <div className="bg-amber-50 border-l-4 border-amber-500 p-4 mb-6">
-          <p className="text-sm text-amber-900">
-            <strong>⚠️ Disclaimer:</strong> This tool provides indicative, non-binding cost estimates based on user inputs and publicly available Microsoft pricing. Actual pricing, terms, and usage costs may change at any time. Estimates are for informational purposes only and must be validated with official Microsoft documentation or an authorized representative. No guarantee of accuracy is provided, and no liability is accepted for decisions made based on these projections.
-          </p>
+        <Disclaimer />
+
+        {/* Scenarios Section */}
+        <div className="mb-6">
+          <button
+            onClick={() => setShowScenarios(!showScenarios)}
+            className="w-full text-left text-xl font-bold text-gray-900 p-4 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
+          >
+            {showScenarios ? '▼' : '▶'} 📁 Scenarios
+            <span className="text-sm font-normal text-gray-600">
+              (editing: {activeScenarioName})
+            </span>
+          </button>
+
+          {showScenarios && (
+            <ScenarioManager
+              store={scenarioStore}
+              inputs={{ stages, segments, agents, config }}
+              pricing={pricing}
+              onStoreChange={setScenarioStore}
+              onLoad={loadScenario}
+              onImportPricing={savePricing}
+            />
+          )}
         </div>
 
         {/* Settings Section */}
@@ -686,7 +492,7 @@ const CopilotCostCalculator: React.FC = () => {
                       <div className="w-3 h-3 rounded-full" style={{ backgroundColor: agent.color }}></div>
                       <h4 className="font-semibold text-gray-900">{agent.name}</h4>
                       <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded">
-                        Month {agent.deployMonth}+
+                        From {formatMonth(agent.deployMonth)}
                       </span>
                     </div>
                     <p className="text-sm text-gray-600 mb-3">{agent.purpose}</p>
@@ -714,11 +520,11 @@ const CopilotCostCalculator: React.FC = () => {
                       </div>
                       <div>
                         <span className="text-gray-500">Credits/Conv:</span>
-                        <span className="ml-1 font-medium text-purple-700">{calculateAgentCredits(agent).toFixed(1)}</span>
+                        <span className="ml-1 font-medium text-purple-700">{calculateAgentCredits(agent, pricing).toFixed(1)}</span>
                       </div>
                       <div className="col-span-2">
                         <span className="text-gray-500">Segments:</span>
-                        <span className="ml-1 font-medium">{agent.segments.join(', ')}</span>
+                        <span className="ml-1 font-medium">{segmentNames(agent.segments)}</span>
                       </div>
                     </div>
                   </div>
@@ -746,6 +552,9 @@ const CopilotCostCalculator: React.FC = () => {
           {(showAddAgent || editingAgent) && (
             <AgentForm
               agent={editingAgent}
+              pricing={pricing}
+              segments={segments}
+              horizonMonths={monthlyData.length}
               onSave={editingAgent ? (data: Partial<Agent>) => updateAgent(editingAgent.id, data) : addAgent}
               onCancel={() => {
                 setShowAddAgent(false);
@@ -763,7 +572,7 @@ const CopilotCostCalculator: React.FC = () => {
 
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Final User Count (Month 31)
+                Final User Count ({formatMonth(stages[stages.length - 1].month)})
               </label>
               <div className="text-2xl font-bold text-blue-900">
                 {formatNumber(stages[stages.length - 1].users)} users
@@ -776,60 +585,149 @@ const CopilotCostCalculator: React.FC = () => {
             onClick={() => setShowStageEditor(!showStageEditor)}
             className="text-blue-600 hover:text-blue-800 font-medium"
           >
-            {showStageEditor ? '▼' : '▶'} Edit Deployment Stages (Users & DAU)
+            {showStageEditor ? '▼' : '▶'} Edit Deployment Stages
           </button>
 
           {showStageEditor && (
-            <div className="mt-4 space-y-3 p-4 bg-white rounded-lg border border-gray-300">
-              <p className="text-sm text-gray-600 mb-3">
-                Adjust the number of users and DAU (Daily Active Users) percentage for each deployment stage:
-              </p>
-              {stages.map((stage, idx) => (
-                <div key={idx} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center p-3 bg-gray-50 rounded">
-                  <div>
-                    <span className="text-sm font-semibold text-gray-900">Month {stage.month}</span>
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-700 mb-1">
-                      Users
-                    </label>
-                    <input
-                      type="number"
-                      min={0}
-                      max={50000}
-                      step={100}
-                      value={stage.users}
-                      onChange={(e: ChangeEvent<HTMLInputElement>) =>
-                        updateStage(idx, 'users', parseInt(e.target.value) || 0)
-                      }
-                      className="w-full p-2 border rounded text-sm"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-gray-700 mb-1">
-                      DAU (Daily Active Users %)
-                    </label>
-                    <input
-                      type="number"
-                      min={0}
-                      max={100}
-                      step={1}
-                      value={(stage.dau * 100).toFixed(0)}
-                      onChange={(e: ChangeEvent<HTMLInputElement>) =>
-                        updateStage(idx, 'dau', parseInt(e.target.value) || 0)
-                      }
-                      className="w-full p-2 border rounded text-sm"
-                    />
-                  </div>
-                </div>
-              ))}
-              <div className="mt-3 p-3 bg-blue-50 rounded border border-blue-200">
-                <p className="text-xs text-blue-800">
-                  💡 <strong>Tip:</strong> Higher DAU % means more users are actively using the system daily.
-                  Typically, early adopters (HQ) have higher DAU than later groups (stores).
-                </p>
-              </div>
+            <StageEditor
+              key={`${inputsRevision}:${segments.map(s => s.id).join('|')}`}
+              stages={stages}
+              segments={segments}
+              onChange={setStages}
+            />
+          )}
+
+          <div className="mt-3">
+            <button
+              onClick={() => setShowSegmentEditor(!showSegmentEditor)}
+              className="text-blue-600 hover:text-blue-800 font-medium"
+            >
+              {showSegmentEditor ? '▼' : '▶'} Edit Audience Segments ({segments.length})
+            </button>
+          </div>
+
+          {showSegmentEditor && (
+            <SegmentEditor key={inputsRevision} segments={segments} onChange={setSegments} onDelete={deleteSegment} />
+          )}
+        </div>
+
+        {/* Projection Timeline */}
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">📅 Projection Timeline</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Horizon: {getHorizonMonths(config)} months
+              </label>
+              <input
+                type="range"
+                min={MIN_PROJECTION_MONTHS}
+                max={MAX_PROJECTION_MONTHS}
+                step="6"
+                value={getHorizonMonths(config)}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateOptionalConfig('horizonMonths', parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Start Month</label>
+              <input
+                type="month"
+                value={config.startDate || ''}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateOptionalConfig('startDate', e.target.value || undefined)}
+                className="w-full p-2 border rounded bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Budget Year Starts In</label>
+              <select
+                value={config.fiscalYearStartMonth ?? 1}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => {
+                  const month = parseInt(e.target.value);
+                  updateOptionalConfig('fiscalYearStartMonth', month === 1 ? undefined : month);
+                }}
+                disabled={!config.startDate}
+                className="w-full p-2 border rounded bg-white disabled:bg-gray-100"
+              >
+                {CALENDAR_MONTHS.map((name, idx) => (
+                  <option key={name} value={idx + 1}>{name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Cost summaries are grouped into {getBudgetYearDescription(config)}
+            {config.startDate ? '' : '; set a start month to group them into calendar or fiscal years'}.
+          </p>
+        </div>
+
+        {/* Currency */}
+        <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">💱 Currency</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Display Currency</label>
+              <select
+                value={currencySettings.code}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => updateCurrency({ code: e.target.value as CurrencyCode })}
+                className="w-full p-2 border rounded bg-white"
+              >
+                {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">FX Rate ({currencySettings.code} per USD)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.0001}
+                value={currencySettings.fxRates[currencySettings.code]}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateCurrency({
+                  fxRates: { ...currencySettings.fxRates, [currencySettings.code]: parseFloat(e.target.value) || 0 }
+                })}
+                disabled={currencySettings.code === 'USD'}
+                className="w-full p-2 border rounded bg-white disabled:bg-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Rates As Of</label>
+              <input
+                type="date"
+                value={currencySettings.fxAsOf}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateCurrency({ fxAsOf: e.target.value })}
+                className="w-full p-2 border rounded bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">VAT / Tax %</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={Math.round(currencySettings.taxRate * 1000) / 10}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateCurrency({ taxRate: validateNumber(parseFloat(e.target.value) || 0, 0, 100) / 100 })}
+                className="w-full p-2 border rounded bg-white"
+              />
             </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            The pricing catalog is in USD. Costs, charts, budgets and exports are shown in {describeCurrency(currency)}.
+            {currencyErrors.length > 0 && <span className="text-red-600"> {currencyErrors.join('; ')}.</span>}
+          </p>
+        </div>
+
+        {/* Pricing Catalog */}
+        <div className="space-y-4">
+          <button
+            onClick={() => setShowPricingCatalog(!showPricingCatalog)}
+            className="text-blue-600 hover:text-blue-800 font-medium"
+          >
+            {showPricingCatalog ? '▼' : '▶'} Pricing Catalog (v{pricing.version}, effective {pricing.effectiveDate})
+          </button>
+
+          {showPricingCatalog && (
+            <PricingCatalogEditor key={pricing.version} catalog={pricing} onSave={savePricing} />
           )}
         </div>
 
@@ -845,25 +743,9 @@ const CopilotCostCalculator: React.FC = () => {
           {showAdvanced && (
             <div className="space-y-4 p-4 bg-gray-100 rounded-lg">
               <p className="text-sm text-gray-700 mb-4">
-                Configure parameters for the M365 Copilot hybrid pricing models. These settings help accurately model scenarios where some users have M365 Copilot licenses while others use pay-as-you-go Copilot Studio.
+                Configure parameters for the M365 Copilot hybrid pricing models (license price is set in the pricing catalog). These settings help accurately model scenarios where some users have M365 Copilot licenses while others use pay-as-you-go Copilot Studio.
               </p>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {/* M365 Copilot Price */}
-                <div>
-                  <label className="block text-sm font-semibold text-gray-700 mb-2">
-                    M365 Copilot Price: ${config.m365CopilotPrice}/user/month
-                  </label>
-                  <input
-                    type="number"
-                    min="25"
-                    max="35"
-                    value={config.m365CopilotPrice}
-                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateConfig('m365CopilotPrice', parseInt(e.target.value))}
-                    className="w-full p-2 border rounded bg-white"
-                  />
-                  <p className="text-xs text-gray-500 mt-1">Standard: $30, Volume discount: $25-28</p>
-                </div>
-
                 {/* Autonomous Action Ratio */}
                 <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-2">
@@ -903,6 +785,14 @@ const CopilotCostCalculator: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <UsageDistributionEditor
+                key={scenarioStore.activeScenarioId}
+                distribution={config.usageDistribution}
+                finalMonth={monthlyData[monthlyData.length - 1]}
+                pricing={pricing}
+                onChange={updateUsageDistribution}
+              />
             </div>
           )}
         </div>
@@ -929,13 +819,13 @@ const CopilotCostCalculator: React.FC = () => {
                 <div className="text-sm text-gray-600 mb-1">Enabled Agents</div>
                 <div className="text-2xl font-bold text-purple-900">{agents.filter(a => a.enabled).length} of {agents.length}</div>
                 <div className="text-xs text-gray-500 mt-1">
-                  Avg: {agents.filter(a => a.enabled).length > 0 ? (agents.filter(a => a.enabled).reduce((s, a) => s + calculateAgentCredits(a), 0) / agents.filter(a => a.enabled).length).toFixed(1) : 0} credits/conv
+                  Avg: {agents.filter(a => a.enabled).length > 0 ? (agents.filter(a => a.enabled).reduce((s, a) => s + calculateAgentCredits(a, pricing), 0) / agents.filter(a => a.enabled).length).toFixed(1) : 0} credits/conv
                 </div>
               </div>
               <div className="bg-white rounded-lg p-3 shadow-sm">
                 <div className="text-sm text-gray-600 mb-1">Complexity Range</div>
                 <div className="text-2xl font-bold text-purple-900">
-                  {agents.filter(a => a.enabled).length > 0 ? Math.min(...agents.filter(a => a.enabled).map(a => calculateAgentCredits(a))).toFixed(1) : 0} - {agents.filter(a => a.enabled).length > 0 ? Math.max(...agents.filter(a => a.enabled).map(a => calculateAgentCredits(a))).toFixed(1) : 0}
+                  {agents.filter(a => a.enabled).length > 0 ? Math.min(...agents.filter(a => a.enabled).map(a => calculateAgentCredits(a, pricing))).toFixed(1) : 0} - {agents.filter(a => a.enabled).length > 0 ? Math.max(...agents.filter(a => a.enabled).map(a => calculateAgentCredits(a, pricing))).toFixed(1) : 0}
                 </div>
                 <div className="text-xs text-gray-500 mt-1">Credits per conversation</div>
               </div>
@@ -944,7 +834,7 @@ const CopilotCostCalculator: React.FC = () => {
                 <div className="text-2xl font-bold text-purple-900">
                   {agents.filter(a => a.enabled && a.tenantGraph).length} / {agents.filter(a => a.enabled).length}
                 </div>
-                <div className="text-xs text-gray-500 mt-1">+10 credits/conversation each</div>
+                <div className="text-xs text-gray-500 mt-1">+{getEventCredits(pricing, 'tenantGraphGrounding')} credits per grounded message</div>
               </div>
             </div>
           </div>
@@ -975,20 +865,44 @@ const CopilotCostCalculator: React.FC = () => {
         </div>
       </div>
 
-      {/* 3-Year Cost Summary Table */}
+      {/* Export */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          📥 Export Projection
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Download the monthly projection, per-agent costs and the assumptions used, as a multi-sheet Excel workbook or as CSV files.
+        </p>
+        <ProjectionExport
+          name={activeScenarioName}
+          projection={projection}
+          stages={stages}
+          segments={segments}
+          agents={agents}
+          config={config}
+          pricing={pricing}
+        />
+      </div>
+
+      {/* Cost Summary Table */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4">
-          3-Year Cost Summary
+          {horizonLabel} Cost Summary
         </h2>
+        {existingLicenses > 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            Costs are incremental to the {formatNumber(existingLicenses)} M365 Copilot licenses you already hold: their holders&apos; usage
+            ({formatNumber(monthlyData.reduce((sum, m) => sum + m.licensedCredits, 0))} credits over the projection) is covered in every model,
+            except autonomous actions and triggers, and M365 Copilot for All only buys seats for the users without one.
+          </p>
+        )}
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead className="bg-gray-100">
               <tr>
                 <th className="p-3 text-left">Pricing Model</th>
-                <th className="p-3 text-right">Year 1</th>
-                <th className="p-3 text-right">Year 2</th>
-                <th className="p-3 text-right">Year 3</th>
-                <th className="p-3 text-right font-bold">3-Year Total</th>
+                {yearLabels.map(year => <th key={year} className="p-3 text-right">{year}</th>)}
+                <th className="p-3 text-right font-bold">{horizonLabel} Total</th>
               </tr>
             </thead>
             <tbody>
@@ -1003,10 +917,10 @@ const CopilotCostCalculator: React.FC = () => {
                       <div className="w-4 h-4 rounded" style={{ backgroundColor: summary.color }}></div>
                       {summary.model}
                     </td>
-                    <td className="p-3 text-right">{formatCurrency(summary.year1)}</td>
-                    <td className="p-3 text-right">{formatCurrency(summary.year2)}</td>
-                    <td className="p-3 text-right">{formatCurrency(summary.year3)}</td>
-                    <td className="p-3 text-right font-bold">{formatCurrency(summary.total)}</td>
+                    {summary.years.map((cost, yearIdx) => (
+                      <td key={yearLabels[yearIdx]} className="p-3 text-right">{formatCost(cost)}</td>
+                    ))}
+                    <td className="p-3 text-right font-bold">{formatCost(summary.total)}</td>
                   </tr>
                 );
               })}
@@ -1015,7 +929,7 @@ const CopilotCostCalculator: React.FC = () => {
         </div>
 
         {/* Pricing Legend Boxes */}
-        <div className="mt-6 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
           {pricingSummary.map((summary, idx) => (
             <div
               key={idx}
@@ -1024,16 +938,70 @@ const CopilotCostCalculator: React.FC = () => {
             >
               <div className="text-xs font-medium text-gray-700 mb-1">{summary.model}</div>
               <div className="text-lg font-bold" style={{ color: summary.color }}>
-                {formatCurrency(summary.total)}
+                {formatCost(summary.total)}
               </div>
               <div className="text-xs text-gray-600 mt-1">
-                {summary.model === cheapestModel.model ? '✓ Cheapest' : `+${formatCurrency(summary.total - cheapestModel.total)}`}
+                {summary.model === cheapestModel.model ? '✓ Cheapest' : `+${formatCost(summary.total - cheapestModel.total)}`}
               </div>
             </div>
           ))}
         </div>
       </div>
 
+      {/* Hybrid License Optimizer */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          🎯 Hybrid License Optimizer
+        </h2>
+        <LicenseOptimizer
+          stages={stages}
+          segments={segments}
+          agents={agents}
+          config={config}
+          pricing={pricing}
+          monthlyData={monthlyData}
+        />
+      </div>
+
+      {/* P3 Pre-Purchase Commitment */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          🧾 P3 Pre-Purchase Commitment
+        </h2>
+        <P3CommitmentPlanner
+          config={config}
+          pricing={pricing}
+          monthlyData={monthlyData}
+          onCommitmentChange={commitment => updateOptionalConfig('p3Commitment', commitment)}
+        />
+      </div>
+
+      {/* M365 Seat Procurement */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          🪪 M365 Copilot Seat Procurement
+        </h2>
+        <M365SeatPlanner
+          config={config}
+          pricing={pricing}
+          monthlyData={monthlyData}
+          onProcurementChange={procurement => updateOptionalConfig('m365Procurement', procurement)}
+        />
+      </div>
+
+      {/* Capacity Packs */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          📦 Capacity Packs (Recommended Packs per Month)
+        </h2>
+        <CapacityPackPlanner
+          config={config}
+          pricing={pricing}
+          monthlyData={monthlyData}
+          onPackPeriodChange={period => updateOptionalConfig('packPeriod', period)}
+        />
+      </div>
+
       {/* Licensing Breakpoint Analysis */}
       {agents.filter(a => a.enabled).length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
@@ -1042,7 +1010,21 @@ const CopilotCostCalculator: React.FC = () => {
           </h2>
           <p className="text-sm text-gray-600 mb-4">
             Based on your specific onboarding plan and current agent portfolio, this analysis shows how many more agents you can add before M365 licensing becomes more economical than PAYG.
+            Each added agent is costed like the main projection, with the usage, segments and deploy month of the agent you pick.
           </p>
+          <div className="mb-4">
+            <label className="block text-sm font-semibold text-gray-700 mb-2">How many more agents like:</label>
+            <select
+              value={breakpointTemplateId ?? ''}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => setBreakpointTemplateId(e.target.value ? parseInt(e.target.value) : null)}
+              className="w-full md:w-1/2 p-2 border rounded"
+            >
+              <option value="">Average of enabled agents</option>
+              {agents.map(agent => (
+                <option key={agent.id} value={agent.id}>{agent.name}{agent.enabled ? '' : ' (disabled)'}</option>
+              ))}
+            </select>
+          </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Current State */}
@@ -1054,20 +1036,20 @@ const CopilotCostCalculator: React.FC = () => {
                   <span className="text-lg font-bold text-blue-900">{licensingBreakpoint.currentAgentCount}</span>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-700">PAYG 3-Year Total:</span>
-                  <span className="text-lg font-bold text-blue-900">{formatCurrency(licensingBreakpoint.currentPaygTotal)}</span>
+                  <span className="text-sm text-gray-700">PAYG {horizonLabel} Total:</span>
+                  <span className="text-lg font-bold text-blue-900">{formatCost(licensingBreakpoint.currentPaygTotal)}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-gray-700">M365 Copilot for All Total:</span>
-                  <span className="text-lg font-bold text-indigo-900">{formatCurrency(licensingBreakpoint.currentM365Total)}</span>
+                  <span className="text-lg font-bold text-indigo-900">{formatCost(licensingBreakpoint.currentM365Total)}</span>
                 </div>
                 <div className="pt-3 border-t border-blue-200">
                   <div className="flex justify-between items-center">
                     <span className="text-sm font-medium text-gray-700">PAYG Savings:</span>
                     <span className="text-lg font-bold text-green-600">
                       {licensingBreakpoint.currentPaygTotal < licensingBreakpoint.currentM365Total
-                        ? formatCurrency(licensingBreakpoint.currentM365Total - licensingBreakpoint.currentPaygTotal)
-                        : '$0'}
+                        ? formatCost(licensingBreakpoint.currentM365Total - licensingBreakpoint.currentPaygTotal)
+                        : formatCost(0)}
                     </span>
                   </div>
                 </div>
@@ -1108,11 +1090,12 @@ const CopilotCostCalculator: React.FC = () => {
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-700">PAYG @ Breakpoint:</span>
-                    <span className="text-lg font-bold text-gray-900">{formatCurrency(licensingBreakpoint.breakpointPaygTotal)}</span>
+                    <span className="text-lg font-bold text-gray-900">{formatCost(licensingBreakpoint.breakpointPaygTotal)}</span>
                   </div>
                   <div className="pt-3 border-t border-green-200">
                     <p className="text-sm text-gray-700 italic">
-                      {licensingBreakpoint.avgCreditsPerConv && `Simulated with avg ${licensingBreakpoint.avgCreditsPerConv} credits/conv`}
+                      Each agent like {licensingBreakpoint.templateName} adds {formatCost(licensingBreakpoint.costPerAdditionalAgent)} of PAYG cost
+                      {licensingBreakpoint.creditsPerConv !== undefined && ` (${licensingBreakpoint.creditsPerConv} credits/conv)`}
                     </p>
                   </div>
                 </div>
@@ -1129,11 +1112,11 @@ const CopilotCostCalculator: React.FC = () => {
               ) : (
                 <div className="space-y-3">
                   <p className="text-sm text-gray-700">
-                    PAYG remains highly economical even with {licensingBreakpoint.additionalAgents}+ additional agents given your current onboarding plan and user adoption rates.
+                    Agents like {licensingBreakpoint.templateName} add no PAYG cost in your onboarding plan, so adding them never makes M365 Copilot for All cheaper.
                   </p>
                   <div className="pt-3 border-t border-purple-200">
                     <p className="text-xs text-gray-600 italic">
-                      Your phased rollout and DAU rates keep per-user costs low
+                      Check the agent's usage, segments and deploy month against your rollout stages
                     </p>
                   </div>
                 </div>
@@ -1162,35 +1145,33 @@ const CopilotCostCalculator: React.FC = () => {
         </div>
       )}
 
-      {/* Agent Cost Analysis (3-Year Total) */}
+      {/* Agent Cost Analysis */}
       {agents.filter(a => a.enabled).length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">
-            Agent Cost Analysis (3-Year Total)
+            Agent Cost Analysis ({horizonLabel} Total)
           </h2>
 
           <div className="mb-6">
             <p className="text-sm text-gray-600 mb-4">
-              Long-term cost projection showing how your agent portfolio costs evolve over 36 months with phased deployment.
+              Long-term cost projection showing how your agent portfolio costs evolve over {monthlyData.length} months with phased deployment.
             </p>
 
-            {/* 3-Year Summary Table */}
+            {/* Year Summary Table */}
             <div className="overflow-x-auto mb-6">
               <table className="w-full text-sm">
                 <thead className="bg-gradient-to-r from-blue-100 to-indigo-100">
                   <tr>
                     <th className="p-3 text-left">Agent</th>
                     <th className="p-3 text-right">Deploy Month</th>
-                    <th className="p-3 text-right">Year 1</th>
-                    <th className="p-3 text-right">Year 2</th>
-                    <th className="p-3 text-right">Year 3</th>
-                    <th className="p-3 text-right">3-Year Total</th>
+                    {yearLabels.map(year => <th key={year} className="p-3 text-right">{year}</th>)}
+                    <th className="p-3 text-right">{horizonLabel} Total</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {agent3YearSummary
+                  {[...agentYearSummary]
                     .sort((a, b) => b.total - a.total)
-                    .map(({ agent, year1, year2, year3, total }) => (
+                    .map(({ agent, years, total }) => (
                       <tr key={agent.id} className="border-b hover:bg-gray-50">
                         <td className="p-3">
                           <div className="flex items-center gap-2">
@@ -1198,26 +1179,22 @@ const CopilotCostCalculator: React.FC = () => {
                             <span className="font-medium">{agent.name}</span>
                           </div>
                         </td>
-                        <td className="p-3 text-right">Month {agent.deployMonth}</td>
-                        <td className="p-3 text-right font-mono">{formatCurrency(year1)}</td>
-                        <td className="p-3 text-right font-mono">{formatCurrency(year2)}</td>
-                        <td className="p-3 text-right font-mono">{formatCurrency(year3)}</td>
-                        <td className="p-3 text-right font-mono font-bold text-blue-900">{formatCurrency(total)}</td>
+                        <td className="p-3 text-right">{formatMonth(agent.deployMonth)}</td>
+                        {years.map((cost, yearIdx) => (
+                          <td key={yearLabels[yearIdx]} className="p-3 text-right font-mono">{formatCost(cost)}</td>
+                        ))}
+                        <td className="p-3 text-right font-mono font-bold text-blue-900">{formatCost(total)}</td>
                       </tr>
                     ))}
                   <tr className="bg-gradient-to-r from-blue-100 to-indigo-100 font-bold">
                     <td className="p-3" colSpan={2}>Total Portfolio Cost</td>
-                    <td className="p-3 text-right">
-                      {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.year1, 0))}
-                    </td>
-                    <td className="p-3 text-right">
-                      {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.year2, 0))}
-                    </td>
-                    <td className="p-3 text-right">
-                      {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.year3, 0))}
-                    </td>
+                    {yearLabels.map((year, yearIdx) => (
+                      <td key={year} className="p-3 text-right">
+                        {formatCost(agentYearSummary.reduce((sum, a) => sum + a.years[yearIdx], 0))}
+                      </td>
+                    ))}
                     <td className="p-3 text-right text-blue-900">
-                      {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.total, 0))}
+                      {formatCost(agentYearSummary.reduce((sum, a) => sum + a.total, 0))}
                     </td>
                   </tr>
                 </tbody>
@@ -1226,35 +1203,27 @@ const CopilotCostCalculator: React.FC = () => {
 
             {/* Key Insights */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="bg-gradient-to-br from-green-50 to-emerald-50 border-2 border-green-200 rounded-lg p-4">
-                <div className="text-sm text-green-700 font-semibold mb-1">Year 1 Cost</div>
-                <div className="text-2xl font-bold text-green-900">
-                  {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.year1, 0))}
-                </div>
-                <div className="text-xs text-green-700 mt-2">
-                  Initial deployment phase - {agents.filter(a => a.enabled && a.deployMonth <= 12).length} agents deployed
-                </div>
-              </div>
-
-              <div className="bg-gradient-to-br from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-lg p-4">
-                <div className="text-sm text-blue-700 font-semibold mb-1">Year 2 Cost</div>
-                <div className="text-2xl font-bold text-blue-900">
-                  {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.year2, 0))}
-                </div>
-                <div className="text-xs text-blue-700 mt-2">
-                  Full portfolio + user growth - All {agents.filter(a => a.enabled).length} agents active
-                </div>
-              </div>
-
-              <div className="bg-gradient-to-br from-purple-50 to-pink-50 border-2 border-purple-200 rounded-lg p-4">
-                <div className="text-sm text-purple-700 font-semibold mb-1">Year 3 Cost</div>
-                <div className="text-2xl font-bold text-purple-900">
-                  {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.year3, 0))}
-                </div>
-                <div className="text-xs text-purple-700 mt-2">
-                  Steady state - {formatNumber(monthlyData[35]?.users || 0)} users at {(monthlyData[35]?.dau * 100 || 0).toFixed(0)}% DAU
-                </div>
-              </div>
+              {yearLabels.map((year, yearIdx) => {
+                const style = YEAR_CARD_STYLES[yearIdx % YEAR_CARD_STYLES.length];
+                const yearMonths = monthlyData.filter(m => m.year === year);
+                const lastMonth = yearMonths[yearMonths.length - 1];
+                const deployedAgents = agents.filter(a => a.enabled && a.deployMonth <= lastMonth.month).length;
+                return (
+                  <div key={year} className={`bg-gradient-to-br ${style.card} border-2 rounded-lg p-4`}>
+                    <div className={`text-sm font-semibold mb-1 ${style.label}`}>{year} Cost</div>
+                    <div className={`text-2xl font-bold ${style.value}`}>
+                      {formatCost(agentYearSummary.reduce((sum, a) => sum + a.years[yearIdx], 0))}
+                    </div>
+                    <div className={`text-xs mt-2 ${style.label}`}>
+                      {yearIdx === 0
+                        ? `Initial deployment phase - ${deployedAgents} agents deployed`
+                        : yearIdx === yearLabels.length - 1
+                        ? `Steady state - ${formatNumber(lastMonth.users)} users at ${(lastMonth.dau * 100).toFixed(0)}% DAU`
+                        : `${deployedAgents} of ${agents.filter(a => a.enabled).length} agents active by ${lastMonth.label}`}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
           </div>
 
@@ -1263,11 +1232,11 @@ const CopilotCostCalculator: React.FC = () => {
             <h3 className="font-semibold text-yellow-900 mb-3">📊 Comparison: Agent Portfolio vs Main Calculator</h3>
             <div className="text-sm text-yellow-800 space-y-2">
               <p>
-                <strong>Agent Portfolio 3-Year Total:</strong> {formatCurrency(agent3YearSummary.reduce((sum, a) => sum + a.total, 0))}
+                <strong>Agent Portfolio {horizonLabel} Total:</strong> {formatCost(agentYearSummary.reduce((sum, a) => sum + a.total, 0))}
                 <span className="ml-2 text-xs">(PAYG, actual agent usage)</span>
               </p>
               <p>
-                <strong>Main Calculator Best Model:</strong> {cheapestModel.model} = {formatCurrency(cheapestModel.total)}
+                <strong>Main Calculator Best Model:</strong> {cheapestModel.model} = {formatCost(cheapestModel.total)}
                 <span className="ml-2 text-xs">(Based on average usage parameters)</span>
               </p>
               <p className="pt-2 border-t border-yellow-300 mt-3">
@@ -1282,7 +1251,7 @@ const CopilotCostCalculator: React.FC = () => {
       {/* Monthly Cost Comparison Chart */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4">
-          36-Month Cost Comparison (All Pricing Models)
+          {monthlyData.length}-Month Cost Comparison (All Pricing Models)
         </h2>
         <ResponsiveContainer width="100%" height={480}>
           <LineChart
@@ -1295,11 +1264,12 @@ const CopilotCostCalculator: React.FC = () => {
               label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
             />
             <YAxis
-              label={{ value: 'Cost ($)', angle: -90, position: 'insideLeft', offset: 20 }}
+              label={{ value: `Cost (${getCurrencySymbol(currency)})`, angle: -90, position: 'insideLeft', offset: 20 }}
+              tickFormatter={(value: number) => formatCostTick(value, currency)}
             />
             <Tooltip
-              formatter={(value: number) => formatCurrency(value)}
-              labelFormatter={(month: number) => `Month ${month}`}
+              formatter={(value: number) => formatCost(value)}
+              labelFormatter={formatMonth}
             />
             <Legend
               verticalAlign="top"
@@ -1347,14 +1317,101 @@ const CopilotCostCalculator: React.FC = () => {
               name="M365 Copilot for All"
               dot={false}
             />
+            <Line
+              type="monotone"
+              dataKey="packCost"
+              stroke="#14b8a6"
+              strokeWidth={2}
+              name="Capacity Packs"
+              dot={false}
+            />
+            {hasActuals && (
+              <Line
+                type="monotone"
+                dataKey={(data: MonthlyData) => actuals.months[data.month - 1]?.actual ?? undefined}
+                stroke="#111827"
+                strokeWidth={3}
+                name="Actual PAYG"
+                dot={{ r: 2 }}
+              />
+            )}
+            {monthlyCrossovers.map(crossover => (
+              <ReferenceDot
+                key={`${crossover.moreExpensiveKey}-${crossover.cheaperKey}-${crossover.month}`}
+                x={crossover.month}
+                y={crossover.moreExpensiveCost}
+                r={5}
+                fill="#111827"
+                stroke="white"
+              />
+            ))}
           </LineChart>
         </ResponsiveContainer>
+        {monthlyCrossovers.length > 0 && (
+          <ul className="mt-2 text-sm text-gray-700 list-disc pl-5">
+            {monthlyCrossovers.map(crossover => (
+              <li key={`${crossover.moreExpensiveKey}-${crossover.cheaperKey}-${crossover.month}`}>{crossover.message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Breakeven Timeline */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          ⏱️ Breakeven Timeline (Cost to Date)
+        </h2>
+        <BreakevenTimeline monthlyData={monthlyData} config={config} currency={currency} />
+      </div>
+
+      {/* Budget Caps */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          💰 Budget Caps
+        </h2>
+        <BudgetPlanner
+          stages={stages}
+          segments={segments}
+          agents={agents}
+          config={config}
+          pricing={pricing}
+          monthlyData={monthlyData}
+          defaultModelKey={PRICING_MODELS.find(m => m.model === cheapestModel.model)?.key ?? 'paygCost'}
+          onBudgetChange={updateOptionalConfig}
+        />
+      </div>
+
+      {/* Monte Carlo Uncertainty Bands */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          🎲 Uncertainty Analysis (Monte Carlo)
+        </h2>
+        <UncertaintyAnalysis
+          stages={stages}
+          segments={segments}
+          agents={agents}
+          config={config}
+          pricing={pricing}
+          monthlyData={monthlyData}
+          onRangesChange={(rangedStages: Stage[], rangedAgents: Agent[]) => {
+            replaceStages(rangedStages);
+            setAgents(rangedAgents);
+          }}
+        />
+      </div>
+
+      {/* Tornado Sensitivity Analysis */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          🌪️ Sensitivity Analysis (Cost Drivers)
+        </h2>
+        <SensitivityAnalysis stages={stages} segments={segments} agents={agents} config={config} pricing={pricing} />
       </div>
 
       {/* Onboarding Strategy & User Growth */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4">
-          Onboarding Strategy & User Growth (36 Months)
+          Onboarding Strategy & User Growth ({monthlyData.length} Months)
         </h2>
         <ResponsiveContainer width="100%" height={380}>
           <LineChart
@@ -1380,7 +1437,7 @@ const CopilotCostCalculator: React.FC = () => {
                 if (name === "DAU %") return `${value}%`;
                 return formatNumber(value);
               }}
-              labelFormatter={(month: number) => `Month ${month}`}
+              labelFormatter={formatMonth}
             />
             <Legend
               verticalAlign="top"
@@ -1445,7 +1502,7 @@ const CopilotCostCalculator: React.FC = () => {
                       <div className="flex items-center justify-between mb-1">
                         <div className="flex items-center gap-3">
                           <span className="text-xs font-semibold text-blue-600 bg-blue-100 px-2 py-1 rounded">
-                            Month {stage.month}
+                            {formatMonth(stage.month)}
                           </span>
                           <span className="font-semibold text-gray-900">{stage.name}</span>
                         </div>
@@ -1473,8 +1530,8 @@ const CopilotCostCalculator: React.FC = () => {
               <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
                 <h4 className="font-semibold text-blue-900 mb-2">🎯 Onboarding Strategy Key Points:</h4>
                 <ul className="text-sm text-blue-800 space-y-1">
-                  <li>• <strong>Gradual rollout</strong> over 31 months minimizes disruption and allows for learning</li>
-                  <li>• <strong>DAU decreases</strong> from 45% → 28% as casual users join (expected and healthy)</li>
+                  <li>• <strong>Gradual rollout</strong> over {stages[stages.length - 1].month} months minimizes disruption and allows for learning</li>
+                  <li>• <strong>DAU changes</strong> from {(stages[0].dau * 100).toFixed(0)}% → {(stages[stages.length - 1].dau * 100).toFixed(0)}% as casual users join (a decline is expected and healthy)</li>
                   <li>• <strong>HQ first</strong> (engaged users) builds success stories before broader rollout</li>
                   <li>• <strong>Store workers last</strong> (lowest DAU) ensures infrastructure is proven at scale</li>
                 </ul>
@@ -1508,12 +1565,12 @@ const CopilotCostCalculator: React.FC = () => {
                   label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
                 />
                 <YAxis
-                  label={{ value: 'Monthly Cost ($)', angle: -90, position: 'insideLeft', offset: 10 }}
-                  tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                  label={{ value: `Monthly Cost (${getCurrencySymbol(currency)})`, angle: -90, position: 'insideLeft', offset: 10 }}
+                  tickFormatter={(value: number) => `${getCurrencySymbol(currency)}${(convertCost(value, currency) / 1000).toFixed(0)}k`}
                 />
                 <Tooltip
-                  formatter={(value: number) => formatCurrency(value)}
-                  labelFormatter={(month: number) => `Month ${month}`}
+                  formatter={(value: number) => formatCost(value)}
+                  labelFormatter={formatMonth}
                 />
                 <Legend
                   verticalAlign="top"
@@ -1543,13 +1600,23 @@ const CopilotCostCalculator: React.FC = () => {
                   name="Total Portfolio Cost"
                   dot={false}
                 />
+                {hasActuals && (
+                  <Line
+                    type="monotone"
+                    dataKey={(data: AgentMonthlyCost) => actuals.months[data.month - 1]?.actual ?? undefined}
+                    stroke="#111827"
+                    strokeWidth={3}
+                    name="Actual Portfolio Cost"
+                    dot={{ r: 2 }}
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           </div>
 
-          {/* Sample Month Breakdown Table */}
+          {/* Final Month Breakdown Table */}
           <div className="bg-gray-50 rounded-lg p-4">
-            <h3 className="font-semibold text-gray-900 mb-3">Month 12 Cost Breakdown (Example)</h3>
+            <h3 className="font-semibold text-gray-900 mb-3">{formatMonth(breakdownMonth.month)} Cost Breakdown (Final Month)</h3>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="bg-gray-200">
@@ -1562,12 +1629,12 @@ const CopilotCostCalculator: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {agentMonthlyCosts[11]?.agentCosts
+                  {[...breakdownMonth.agentCosts]
                     .sort((a, b) => b.cost - a.cost)
                     .map(agentCost => {
                       const agent = agents.find(a => a.id === agentCost.agentId);
                       if (!agent) return null;
-                      const percentage = ((agentCost.cost / agentMonthlyCosts[11].totalCost) * 100).toFixed(1);
+                      const percentage = ((agentCost.cost / breakdownMonth.totalCost) * 100).toFixed(1);
                       return (
                         <tr key={agentCost.agentId} className="border-b hover:bg-gray-100">
                           <td className="p-3">
@@ -1576,16 +1643,16 @@ const CopilotCostCalculator: React.FC = () => {
                               <span className="font-medium">{agentCost.agentName}</span>
                             </div>
                           </td>
-                          <td className="p-3 text-right">Month {agent.deployMonth}</td>
-                          <td className="p-3 text-right font-mono">{calculateAgentCredits(agent).toFixed(1)}</td>
-                          <td className="p-3 text-right font-mono">{formatCurrency(agentCost.cost)}</td>
+                          <td className="p-3 text-right">{formatMonth(agent.deployMonth)}</td>
+                          <td className="p-3 text-right font-mono">{calculateAgentCredits(agent, pricing).toFixed(1)}</td>
+                          <td className="p-3 text-right font-mono">{formatCost(agentCost.cost)}</td>
                           <td className="p-3 text-right">{percentage}%</td>
                         </tr>
                       );
                     })}
                   <tr className="bg-gray-200 font-bold">
-                    <td className="p-3" colSpan={3}>Total Portfolio Cost (Month 12)</td>
-                    <td className="p-3 text-right">{formatCurrency(agentMonthlyCosts[11]?.totalCost || 0)}</td>
+                    <td className="p-3" colSpan={3}>Total Portfolio Cost ({formatMonth(breakdownMonth.month)})</td>
+                    <td className="p-3 text-right">{formatCost(breakdownMonth.totalCost)}</td>
                     <td className="p-3 text-right">100%</td>
                   </tr>
                 </tbody>
@@ -1594,6 +1661,20 @@ const CopilotCostCalculator: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Budget Tracking */}
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          📒 Budget Tracking (Actuals vs Projection)
+        </h2>
+        <ActualsTracker
+          agents={agents}
+          config={config}
+          monthlyData={monthlyData}
+          comparison={actuals}
+          onAgentsChange={setAgents}
+        />
+      </div>
       </div>
 
     </div>
@@ -1603,11 +1684,21 @@ const CopilotCostCalculator: React.FC = () => {
 // Agent Form Component
 interface AgentFormProps {
   agent: Agent | null;
+  pricing: PricingCatalog;
+  segments: Segment[];
+  horizonMonths: number;
   onSave: (data: Partial<Agent>) => void;
   onCancel: () => void;
 }
 
-const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
+const RANGE_FIELD_LABELS: Record<AgentRangeField, string> = {
+  conversationsPerDay: 'Conversations/Day',
+  turns: 'Turns',
+  generativeRatio: 'Generative %',
+  actions: 'Actions'
+};
+
+const AgentForm: React.FC<AgentFormProps> = ({ agent, pricing, segments, horizonMonths, onSave, onCancel }) => {
   const [formData, setFormData] = useState<Partial<Agent>>(agent || {
     name: '',
     purpose: '',
@@ -1616,23 +1707,52 @@ const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
     generativeRatio: 0.50,
     actions: 1,
     tenantGraph: false,
+    eventCounts: {},
     deployMonth: 1,
-    segments: ['HQ']
+    segments: segments.slice(0, 1).map(s => s.id),
+    enabled: true
   });
 
-  const segments = ['HQ', 'Management', 'Stores', 'All'];
+  const formAgent = {
+    ...formData,
+    turns: formData.turns || 0,
+    generativeRatio: formData.generativeRatio || 0,
+    actions: formData.actions || 0,
+    tenantGraph: formData.tenantGraph || false,
+    eventCounts: formData.eventCounts || {}
+  } as Agent;
+
+  const calculateCredits = () => calculateAgentCredits(formAgent, pricing).toFixed(1);
 
-  const calculateCredits = () => {
-    const turns = formData.turns || 0;
-    const generativeRatio = formData.generativeRatio || 0;
-    const actions = formData.actions || 0;
-    const tenantGraph = formData.tenantGraph || false;
+  const additionalEvents = pricing.billingEvents.filter(rule => !(CORE_BILLING_EVENT_IDS as string[]).includes(rule.id));
 
-    const classic = turns * (1 - generativeRatio);
-    const gen = turns * generativeRatio * 2;
-    const act = actions * 5;
-    const graph = tenantGraph ? 10 : 0;
-    return (classic + gen + act + graph).toFixed(1);
+  const updateEventCount = (eventId: string, count: number) => {
+    const eventCounts = { ...(formData.eventCounts || {}) };
+    if (count > 0) {
+      eventCounts[eventId] = count;
+    } else {
+      delete eventCounts[eventId];
+    }
+    setFormData({ ...formData, eventCounts });
+  };
+
+  // Ratios are edited as percentages; clearing either bound removes the field's range
+  const rangeScale = (field: AgentRangeField): number => field === 'generativeRatio' ? 100 : 1;
+  const rangeErrors = validateAgentRanges(formAgent, formData.name || 'This agent');
+
+  const updateRange = (field: AgentRangeField, bound: 'min' | 'max', value: string) => {
+    const ranges = { ...(formData.ranges || {}) };
+    if (value === '') {
+      delete ranges[field];
+    } else {
+      const estimate = formAgent[field] || 0;
+      ranges[field] = {
+        min: ranges[field]?.min ?? estimate,
+        max: ranges[field]?.max ?? estimate,
+        [bound]: (parseFloat(value) || 0) / rangeScale(field)
+      };
+    }
+    setFormData({ ...formData, ranges: Object.keys(ranges).length > 0 ? ranges : undefined });
   };
 
   return (
@@ -1663,6 +1783,13 @@ const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
             />
           </div>
 
+          <AgentCalibration
+            agent={formAgent}
+            pricing={pricing}
+            onApply={({ conversationsPerDay, turns, generativeRatio, actions, eventCounts }: Agent) =>
+              setFormData({ ...formData, conversationsPerDay, turns, generativeRatio, actions, eventCounts })}
+          />
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium mb-1">Conversations/Day per User</label>
@@ -1671,8 +1798,8 @@ const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
                 min="0.1"
                 max="10"
                 step="0.5"
-                value={formData.conversationsPerDay || 1.0}
-                onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({...formData, conversationsPerDay: parseFloat(e.target.value)})}
+                value={formData.conversationsPerDay ?? 1.0}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({...formData, conversationsPerDay: Math.max(0, parseFloat(e.target.value) || 0)})}
                 className="w-full px-3 py-2 border rounded"
               />
             </div>
@@ -1682,9 +1809,9 @@ const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
               <input
                 type="number"
                 min="1"
-                max="36"
+                max={horizonMonths}
                 value={formData.deployMonth || 1}
-                onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({...formData, deployMonth: parseInt(e.target.value)})}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({...formData, deployMonth: Math.max(1, parseInt(e.target.value) || 1)})}
                 className="w-full px-3 py-2 border rounded"
               />
             </div>
@@ -1742,41 +1869,100 @@ const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
                 onChange={(e: ChangeEvent<HTMLInputElement>) => setFormData({...formData, tenantGraph: e.target.checked})}
                 className="rounded"
               />
-              <span className="text-sm font-medium">Tenant Graph Grounding (+10 credits/conversation)</span>
+              <span className="text-sm font-medium">Tenant Graph Grounding (+{getEventCredits(pricing, 'tenantGraphGrounding')} credits per generative answer)</span>
             </label>
             <p className="text-xs text-gray-500 mt-1">Search across Microsoft 365 data (expensive!)</p>
           </div>
 
+          {additionalEvents.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Other Billable Events per Conversation</label>
+              <div className="grid grid-cols-2 gap-3">
+                {additionalEvents.map(rule => (
+                  <div key={rule.id}>
+                    <label className="block text-xs text-gray-600 mb-1">{rule.label} ({rule.credits} credits each)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={formData.eventCounts?.[rule.id] || 0}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => updateEventCount(rule.id, parseFloat(e.target.value) || 0)}
+                      className="w-full px-3 py-2 border rounded"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-2">Available to User Segments</label>
             <div className="flex flex-wrap gap-2">
               {segments.map(seg => (
-                <label key={seg} className="flex items-center gap-2 px-3 py-2 border rounded hover:bg-gray-50">
+                <label key={seg.id} className="flex items-center gap-2 px-3 py-2 border rounded hover:bg-gray-50">
                   <input
                     type="checkbox"
-                    checked={(formData.segments || []).includes(seg)}
+                    checked={(formData.segments || []).includes(seg.id)}
                     onChange={(e: ChangeEvent<HTMLInputElement>) => {
                       const currentSegments = formData.segments || [];
                       if (e.target.checked) {
-                        setFormData({...formData, segments: [...currentSegments, seg]});
+                        setFormData({...formData, segments: [...currentSegments, seg.id]});
                       } else {
-                        setFormData({...formData, segments: currentSegments.filter(s => s !== seg)});
+                        setFormData({...formData, segments: currentSegments.filter(s => s !== seg.id)});
                       }
                     }}
                   />
-                  <span className="text-sm">{seg}</span>
+                  <span className="text-sm">{seg.name}</span>
                 </label>
               ))}
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-1">Uncertainty Ranges (optional)</label>
+            <p className="text-xs text-gray-500 mb-2">
+              Minimum and maximum plausible values around each estimate, used by the Monte Carlo uncertainty analysis. Leave blank for a fixed value.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {AGENT_RANGE_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="block text-xs text-gray-600 mb-1">
+                    {RANGE_FIELD_LABELS[field]} (min / max)
+                  </label>
+                  <div className="flex gap-2">
+                    {(['min', 'max'] as const).map(bound => (
+                      <input
+                        key={bound}
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        placeholder={bound}
+                        value={formData.ranges?.[field] ? +(formData.ranges[field][bound] * rangeScale(field)).toFixed(4) : ''}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => updateRange(field, bound, e.target.value)}
+                        className="w-full px-3 py-2 border rounded"
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {rangeErrors.length > 0 && (
+              <ul className="text-xs text-red-700 list-disc pl-5 mt-2">
+                {rangeErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+
           <div className="p-4 bg-blue-50 rounded">
             <p className="text-sm font-semibold text-blue-900">Calculated Credits per Conversation: {calculateCredits()}</p>
             <p className="text-xs text-blue-700 mt-1">
-              Classic: {((formData.turns || 0) * (1-(formData.generativeRatio || 0))).toFixed(1)}×1 +
-              Gen: {((formData.turns || 0) * (formData.generativeRatio || 0)).toFixed(1)}×2 +
-              Actions: {formData.actions || 0}×5
-              {formData.tenantGraph && ' + Graph: 10'}
+              {Object.entries(calculateAgentEventCounts(formAgent))
+                .filter(([, count]) => count > 0)
+                .map(([eventId, count]) => {
+                  const rule = pricing.billingEvents.find(r => r.id === eventId);
+                  return `${rule?.label || eventId}: ${count.toFixed(1)}×${rule?.credits ?? 0}`;
+                })
+                .join(' + ')}
             </p>
           </div>
         </div>
@@ -1784,7 +1970,7 @@ const AgentForm: React.FC<AgentFormProps> = ({ agent, onSave, onCancel }) => {
         <div className="flex gap-3 mt-6">
           <button
             onClick={() => onSave(formData)}
-            disabled={!formData.name || !formData.purpose}
+            disabled={!formData.name || !formData.purpose || rangeErrors.length > 0}
             className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
           >
             {agent ? 'Update Agent' : 'Add Agent'}
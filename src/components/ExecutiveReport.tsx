@@ -0,0 +1,288 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+import { ArrowLeft, Printer } from 'lucide-react';
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  Projection,
+  PricingSummary,
+  LicensingBreakpoint,
+  PRICING_MODELS,
+  calculateAgentCredits,
+  getHorizonLabel,
+  getHorizonMonths,
+  getBudgetYearDescription,
+  getYearLabels,
+  formatAmount,
+  formatCurrency,
+  formatNumber
+} from '../utils/calculations';
+import { PricingCatalog, getP3Discount } from '../utils/pricing';
+import { describeCurrency } from '../utils/currency';
+import { hasBudget, calculateModelBudget } from '../utils/budget';
+import Disclaimer from './Disclaimer';
+
+interface ExecutiveReportProps {
+  name: string;
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+  projection: Projection;
+  cheapestModel: PricingSummary;
+  licensingBreakpoint: LicensingBreakpoint;
+  onClose: () => void;
+}
+
+// Charts use a fixed size and no animation so they render completely when printed
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 280;
+
+const sectionClass = 'mb-8 break-inside-avoid';
+const headingClass = 'text-lg font-bold text-gray-900 border-b border-gray-300 pb-1 mb-3';
+
+// Print-optimised summary of the current scenario for steering committees
+const ExecutiveReport: React.FC<ExecutiveReportProps> = ({
+  name,
+  stages,
+  segments,
+  agents,
+  config,
+  pricing,
+  projection,
+  cheapestModel,
+  licensingBreakpoint,
+  onClose
+}) => {
+  const { monthlyData, pricingSummary, agentYearSummary } = projection;
+  const enabledAgents = agents.filter(a => a.enabled);
+  const finalStage = stages[stages.length - 1];
+  const yearLabels = getYearLabels(monthlyData);
+  const horizonLabel = getHorizonLabel(config);
+  const year1Credits = monthlyData.filter(m => m.year === yearLabels[0]).reduce((sum, m) => sum + m.credits, 0);
+  const segmentNames = (ids: string[]): string =>
+    ids.map(id => segments.find(s => s.id === id)?.name).filter(Boolean).join(', ') || 'None';
+  const cheapestKey = PRICING_MODELS.find(m => m.model === cheapestModel.model)?.key;
+  const cheapestBudget = hasBudget(config) && cheapestKey ? calculateModelBudget(monthlyData, cheapestKey, config) : null;
+  const budgetCaps = [
+    config.monthlyBudget !== undefined && `${formatAmount(config.monthlyBudget, config.currency)}/month`,
+    config.annualBudget !== undefined && `${formatAmount(config.annualBudget, config.currency)}/budget year`
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-8 bg-white print:p-0 print:max-w-none">
+      <div className="flex gap-3 mb-6 print:hidden">
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg bg-white hover:bg-gray-50"
+        >
+          <ArrowLeft size={18} />
+          Back to Calculator
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Printer size={18} />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <header className="mb-6">
+        <h1 className="text-2xl font-bold text-blue-900">Copilot Studio Cost Projection</h1>
+        <p className="text-gray-700">
+          {name} · prepared {new Date().toLocaleDateString()} · pricing catalog v{pricing.version} ({pricing.source}, effective {pricing.effectiveDate})
+        </p>
+      </header>
+
+      <Disclaimer />
+
+      <section className={sectionClass}>
+        <h2 className={headingClass}>Recommendation</h2>
+        <p className="text-sm text-gray-800 mb-2">
+          <strong>{cheapestModel.model}</strong> is the cheapest pricing model over {getHorizonMonths(config)} months at{' '}
+          <strong>{formatCurrency(cheapestModel.total, config.currency)}</strong>
+          {pricingSummary.length > 1 && (
+            <> — {formatCurrency(
+              Math.min(...pricingSummary.filter(s => s.model !== cheapestModel.model).map(s => s.total)) - cheapestModel.total,
+              config.currency
+            )} less than the next best option</>
+          )}.
+        </p>
+        {enabledAgents.length > 0 && (
+          <p className="text-sm text-gray-800">
+            <strong>Licensing breakpoint:</strong> {licensingBreakpoint.message}
+          </p>
+        )}
+        {cheapestBudget && (
+          <p className="text-sm text-gray-800 mt-2">
+            <strong>Budget:</strong>{' '}
+            {cheapestBudget.firstBreach
+              ? `${cheapestBudget.firstBreach.message} (${cheapestBudget.breachedMonths} months over budget).`
+              : `${cheapestModel.model} stays within the budget (${budgetCaps}) over the projection.`}
+          </p>
+        )}
+      </section>
+
+      <section className={sectionClass}>
+        <h2 className={headingClass}>{horizonLabel} Cost Summary</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="p-2 text-left">Pricing Model</th>
+              {yearLabels.map(year => <th key={year} className="p-2 text-right">{year}</th>)}
+              <th className="p-2 text-right">{horizonLabel} Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pricingSummary.map(summary => (
+              <tr
+                key={summary.model}
+                className={`border-b border-gray-200 ${summary.model === cheapestModel.model ? 'font-semibold bg-green-50' : ''}`}
+              >
+                <td className="p-2">{summary.model}</td>
+                {summary.years.map((cost, idx) => <td key={yearLabels[idx]} className="p-2 text-right">{formatCurrency(cost, config.currency)}</td>)}
+                <td className="p-2 text-right">{formatCurrency(summary.total, config.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className={sectionClass}>
+        <h2 className={headingClass}>Monthly Cost by Pricing Model</h2>
+        <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={monthlyData} margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" />
+          <YAxis tickFormatter={(value: number) => formatCurrency(value, config.currency)} />
+          <Legend />
+          {PRICING_MODELS.map(model => (
+            <Line
+              key={model.key}
+              type="monotone"
+              dataKey={model.key}
+              stroke={model.color}
+              strokeWidth={2}
+              name={model.model}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </section>
+
+      <section className={sectionClass}>
+        <h2 className={headingClass}>User Rollout</h2>
+        <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={monthlyData} margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" />
+          <YAxis tickFormatter={(value: number) => formatNumber(value)} />
+          <Legend />
+          <Line type="monotone" dataKey="users" stroke="#3b82f6" strokeWidth={2} name="Total Users" dot={false} isAnimationActive={false} />
+          <Line type="monotone" dataKey="activeUsers" stroke="#10b981" strokeWidth={2} name="Daily Active Users" dot={false} isAnimationActive={false} />
+        </LineChart>
+      </section>
+
+      {enabledAgents.length > 0 && (
+        <section className={sectionClass}>
+          <h2 className={headingClass}>Agent Costs (PAYG)</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="p-2 text-left">Agent</th>
+                <th className="p-2 text-right">Deploy Month</th>
+                <th className="p-2 text-right">Credits/Conv</th>
+                {yearLabels.map(year => <th key={year} className="p-2 text-right">{year}</th>)}
+                <th className="p-2 text-right">{horizonLabel} Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...agentYearSummary].sort((a, b) => b.total - a.total).map(({ agent, years, total }) => (
+                <tr key={agent.id} className="border-b border-gray-200">
+                  <td className="p-2">{agent.name}</td>
+                  <td className="p-2 text-right">{agent.deployMonth}</td>
+                  <td className="p-2 text-right">{calculateAgentCredits(agent, pricing).toFixed(1)}</td>
+                  {years.map((cost, idx) => <td key={yearLabels[idx]} className="p-2 text-right">{formatCurrency(cost, config.currency)}</td>)}
+                  <td className="p-2 text-right font-semibold">{formatCurrency(total, config.currency)}</td>
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td className="p-2" colSpan={3 + yearLabels.length}>Total Portfolio Cost</td>
+                <td className="p-2 text-right">{formatCurrency(agentYearSummary.reduce((sum, a) => sum + a.total, 0), config.currency)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section className={sectionClass}>
+        <h2 className={headingClass}>Assumptions</h2>
+        <div className="grid grid-cols-2 gap-x-8 gap-y-1 text-sm mb-4">
+          <div>PAYG rate: <strong>${pricing.paygRate}/credit</strong></div>
+          <div>M365 Copilot: <strong>${pricing.m365CopilotPrice}/user/month</strong></div>
+          <div>P3 discount ({yearLabels[0]} volume): <strong>{(getP3Discount(pricing, year1Credits) * 100).toFixed(0)}%</strong></div>
+          <div>Hybrid M365 licensed users: <strong>{formatNumber(config.hybridM365Users)}</strong></div>
+          <div>Autonomous action ratio: <strong>{(config.autonomousActionRatio * 100).toFixed(0)}%</strong></div>
+          <div>Final rollout: <strong>{formatNumber(finalStage.users)} users by month {finalStage.month}</strong></div>
+          <div>Horizon: <strong>{getHorizonMonths(config)} months{monthlyData.length > 0 && ` (${monthlyData[0].label} – ${monthlyData[monthlyData.length - 1].label})`}</strong></div>
+          <div>Budget years: <strong>{getBudgetYearDescription(config)}</strong></div>
+          {budgetCaps && <div>Budget caps: <strong>{budgetCaps}</strong></div>}
+          <div>Currency: <strong>{describeCurrency(config.currency)}</strong></div>
+        </div>
+
+        <h3 className="font-semibold text-gray-800 mb-2">Deployment Stages</h3>
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="p-2 text-left">Stage</th>
+              <th className="p-2 text-right">Start Month</th>
+              <th className="p-2 text-right">Users</th>
+              <th className="p-2 text-right">DAU</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stages.map((stage, idx) => (
+              <tr key={idx} className="border-b border-gray-200">
+                <td className="p-2">{stage.name}</td>
+                <td className="p-2 text-right">{stage.month}</td>
+                <td className="p-2 text-right">{formatNumber(stage.users)}</td>
+                <td className="p-2 text-right">{(stage.dau * 100).toFixed(0)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 className="font-semibold text-gray-800 mb-2">Agents</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="p-2 text-left">Agent</th>
+              <th className="p-2 text-right">Conv/Day</th>
+              <th className="p-2 text-right">Turns</th>
+              <th className="p-2 text-right">Generative</th>
+              <th className="p-2 text-right">Actions</th>
+              <th className="p-2 text-left">Segments</th>
+            </tr>
+          </thead>
+          <tbody>
+            {enabledAgents.map(agent => (
+              <tr key={agent.id} className="border-b border-gray-200">
+                <td className="p-2">{agent.name}{agent.tenantGraph ? ' (Tenant Graph)' : ''}</td>
+                <td className="p-2 text-right">{agent.conversationsPerDay}</td>
+                <td className="p-2 text-right">{agent.turns}</td>
+                <td className="p-2 text-right">{(agent.generativeRatio * 100).toFixed(0)}%</td>
+                <td className="p-2 text-right">{agent.actions}</td>
+                <td className="p-2">{segmentNames(agent.segments)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default ExecutiveReport;
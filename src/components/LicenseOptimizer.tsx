@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Stage, Segment, Agent, Config, MonthlyData, formatCurrency, formatNumber } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { optimizeHybridLicenses } from '../utils/optimizer';
+
+interface LicenseOptimizerProps {
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+  monthlyData: MonthlyData[];
+}
+
+// Recommended M365 Copilot seats per month for the PAYG + M365 Licenses model, against the static setting
+const LicenseOptimizer: React.FC<LicenseOptimizerProps> = ({ stages, segments, agents, config, pricing, monthlyData }) => {
+  const optimization = useMemo(
+    () => optimizeHybridLicenses(stages, segments, agents, config, pricing, monthlyData),
+    [stages, segments, agents, config, pricing, monthlyData]
+  );
+
+  const chartData = optimization.months.map((plan, idx) => ({
+    month: plan.month,
+    seats: plan.seats,
+    staticSeats: Math.min(config.hybridM365Users, (monthlyData[idx]?.users ?? 0) - (monthlyData[idx]?.licensedUsers ?? 0))
+  }));
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        Instead of one static number of M365 Copilot seats, the optimizer looks at the credit consumption per user of each segment — and of each
+        usage bucket within it, when a usage distribution is set — every month, and gives seats to those users when the credits a license covers would cost more than the seats
+        (about {formatNumber(Math.round(optimization.breakevenCreditsPerUser))} covered credits per user per month at current prices).
+        Costs follow the PAYG + M365 Licenses model; licensed users still pay for autonomous actions and triggers.
+        {config.m365Procurement && ' With seat-commitment rules applied, the recommended seats are procured for their term, so seats are paid for until the term renews.'}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-sm text-gray-600 mb-1">Static setting ({formatNumber(config.hybridM365Users)} seats)</div>
+          <div className="text-2xl font-bold text-gray-900">{formatCurrency(optimization.staticTotal, config.currency)}</div>
+        </div>
+        <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
+          <div className="text-sm text-blue-700 mb-1">Optimised seats per month</div>
+          <div className="text-2xl font-bold text-blue-900">{formatCurrency(optimization.total, config.currency)}</div>
+        </div>
+        <div className={`p-4 rounded-lg border ${optimization.savings > 0 ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}>
+          <div className="text-sm text-gray-600 mb-1">Savings over {monthlyData.length} months</div>
+          <div className={`text-2xl font-bold ${optimization.savings > 0 ? 'text-green-700' : 'text-gray-900'}`}>
+            {formatCurrency(optimization.savings, config.currency)}
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="p-3 text-left">Segment</th>
+              <th className="p-3 text-right">Users (Final)</th>
+              <th className="p-3 text-right">Seats (Final)</th>
+              <th className="p-3 text-right">Credits/User/Month (Final)</th>
+              <th className="p-3 text-right">Licensed Months</th>
+              <th className="p-3 text-left">Recommendation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {optimization.segments.map(segment => (
+              <tr key={segment.segmentId} className={`border-t ${segment.licensedMonths > 0 ? 'bg-green-50' : ''}`}>
+                <td className="p-3 font-medium">{segment.name}</td>
+                <td className="p-3 text-right">{formatNumber(segment.finalUsers)}</td>
+                <td className="p-3 text-right">{formatNumber(segment.finalSeats)}</td>
+                <td className="p-3 text-right">{formatNumber(segment.finalCreditsPerUser)}</td>
+                <td className="p-3 text-right">{segment.licensedMonths}</td>
+                <td className="p-3">
+                  {segment.firstLicensedMonth === null
+                    ? 'Keep on PAYG'
+                    : `License from month ${segment.firstLicensedMonth}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="month"
+            label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+          />
+          <YAxis
+            label={{ value: 'M365 Copilot Seats', angle: -90, position: 'insideLeft', offset: 10 }}
+          />
+          <Tooltip
+            formatter={(value: number) => formatNumber(value)}
+            labelFormatter={(month: number) => `Month ${month}`}
+          />
+          <Legend verticalAlign="top" height={36} />
+          <Line type="stepAfter" dataKey="seats" stroke="#10b981" strokeWidth={2} name="Recommended Seats" dot={false} />
+          <Line
+            type="stepAfter"
+            dataKey="staticSeats"
+            stroke="#6b7280"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            name="Static Setting"
+            dot={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default LicenseOptimizer;
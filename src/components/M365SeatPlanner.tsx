@@ -0,0 +1,168 @@
+import React, { useMemo, ChangeEvent } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Config, MonthlyData, M365Procurement, calculateSeatPlan, formatCurrency, formatNumber } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+
+interface M365SeatPlannerProps {
+  config: Config;
+  pricing: PricingCatalog;
+  monthlyData: MonthlyData[];
+  onProcurementChange: (procurement: M365Procurement | undefined) => void;
+}
+
+const DEFAULT_PROCUREMENT: M365Procurement = { leadTimeMonths: 1, termMonths: 12, trueUpIntervalMonths: 12 };
+const TERM_OPTIONS = [12, 24, 36];
+const TRUE_UP_OPTIONS = [1, 3, 6, 12];
+
+// M365 Copilot seats bought for annual terms ahead of rollout, against the seats the users need each month
+const M365SeatPlanner: React.FC<M365SeatPlannerProps> = ({ config, pricing, monthlyData, onProcurementChange }) => {
+  const procurement = config.m365Procurement;
+  const rules = procurement ?? DEFAULT_PROCUREMENT;
+
+  // Users with an existing license need no new seat
+  const allPlan = useMemo(() => calculateSeatPlan(monthlyData.map(m => m.users - m.licensedUsers), rules), [monthlyData, rules]);
+  const hybridPlan = useMemo(
+    () => calculateSeatPlan(monthlyData.map(m => Math.min(config.hybridM365Users, m.users - m.licensedUsers)), rules),
+    [monthlyData, config.hybridM365Users, rules]
+  );
+
+  const chartData = monthlyData.map((m, idx) => ({
+    month: m.month,
+    users: m.users - m.licensedUsers,
+    allSeats: allPlan[idx].seats,
+    hybridRequired: hybridPlan[idx].requiredSeats,
+    hybridSeats: hybridPlan[idx].seats
+  }));
+  const unusedSeatMonths = (plan: typeof allPlan): number => plan.reduce((sum, m) => sum + m.seats - m.requiredSeats, 0);
+  const purchases = allPlan.filter(m => m.addedSeats > 0);
+
+  const update = (key: keyof M365Procurement, value: number) => {
+    const next = { ...rules, [key]: value };
+    onProcurementChange({ ...next, trueUpIntervalMonths: Math.min(next.trueUpIntervalMonths, next.termMonths) });
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        M365 Copilot seats are annual commitments bought ahead of rollout. Seats are bought the lead time before the users who need them
+        arrive, can only be added in true-up months and are paid for until the term renews, when the count can come down. The M365 Copilot for
+        All and hybrid models then pay for the seats procured rather than the users of each month.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={procurement !== undefined}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => onProcurementChange(e.target.checked ? DEFAULT_PROCUREMENT : undefined)}
+            className="rounded"
+          />
+          Apply seat-commitment rules
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Purchase Lead Time (months)</label>
+          <input
+            type="number"
+            min={0}
+            max={12}
+            disabled={!procurement}
+            value={rules.leadTimeMonths}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => update('leadTimeMonths', Math.min(12, Math.max(0, parseInt(e.target.value) || 0)))}
+            className="px-3 py-2 border border-gray-300 rounded disabled:bg-gray-100"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Term</label>
+          <select
+            disabled={!procurement}
+            value={rules.termMonths}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => update('termMonths', parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded disabled:bg-gray-100"
+          >
+            {TERM_OPTIONS.map(months => <option key={months} value={months}>{months} months</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Seats Can Be Added</label>
+          <select
+            disabled={!procurement}
+            value={rules.trueUpIntervalMonths}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => update('trueUpIntervalMonths', parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded disabled:bg-gray-100"
+          >
+            {TRUE_UP_OPTIONS.filter(months => months <= rules.termMonths).map(months => (
+              <option key={months} value={months}>
+                {months === 1 ? 'Every month' : months === rules.termMonths ? 'Only at renewal' : `Every ${months} months (true-up)`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-sm text-gray-600 mb-1">M365 Copilot for All: seats paid for but not yet (or no longer) used</div>
+          <div className="text-2xl font-bold text-gray-900">{formatNumber(unusedSeatMonths(allPlan))} seat-months</div>
+          <div className="text-xs text-gray-500 mt-1">{formatCurrency(unusedSeatMonths(allPlan) * pricing.m365CopilotPrice, config.currency)} over the projection</div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="text-sm text-gray-600 mb-1">Hybrid ({formatNumber(config.hybridM365Users)} licensed users): unused seats</div>
+          <div className="text-2xl font-bold text-gray-900">{formatNumber(unusedSeatMonths(hybridPlan))} seat-months</div>
+          <div className="text-xs text-gray-500 mt-1">{formatCurrency(unusedSeatMonths(hybridPlan) * pricing.m365CopilotPrice, config.currency)} over the projection</div>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={380}>
+        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="month"
+            label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+          />
+          <YAxis
+            label={{ value: 'Seats', angle: -90, position: 'insideLeft', offset: 10 }}
+            tickFormatter={(value) => formatNumber(value)}
+          />
+          <Tooltip
+            formatter={(value: number) => formatNumber(value)}
+            labelFormatter={(month: number) => monthlyData[month - 1]?.label ?? `Month ${month}`}
+          />
+          <Legend verticalAlign="top" height={36} />
+          <Line type="monotone" dataKey="users" stroke="#ef4444" strokeWidth={2} name="Users Without a License" dot={false} />
+          <Line type="stepAfter" dataKey="allSeats" stroke="#ef4444" strokeWidth={2} strokeDasharray="5 5" name="Seats (M365 for All)" dot={false} />
+          <Line type="monotone" dataKey="hybridRequired" stroke="#10b981" strokeWidth={2} name="Hybrid Licensed Users" dot={false} />
+          <Line type="stepAfter" dataKey="hybridSeats" stroke="#10b981" strokeWidth={2} strokeDasharray="5 5" name="Seats (Hybrid)" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+
+      {procurement && purchases.length > 0 && (
+        <div className="overflow-x-auto mt-6">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-3 text-left">Purchase Month (M365 for All)</th>
+                <th className="p-3 text-left">Purchase</th>
+                <th className="p-3 text-right">Seats Bought</th>
+                <th className="p-3 text-right">Seats Held</th>
+                <th className="p-3 text-right">Users Without a License</th>
+              </tr>
+            </thead>
+            <tbody>
+              {purchases.map(m => (
+                <tr key={m.month} className="border-t">
+                  <td className="p-3 font-medium">{monthlyData[m.month - 1]?.label}</td>
+                  <td className="p-3">{m.renewal ? (m.month === 1 ? 'Initial term' : 'Renewal') : 'True-up'}</td>
+                  <td className="p-3 text-right">{formatNumber(m.addedSeats)}</td>
+                  <td className="p-3 text-right">{formatNumber(m.seats)}</td>
+                  <td className="p-3 text-right">{formatNumber(m.requiredSeats)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default M365SeatPlanner;
@@ -0,0 +1,173 @@
+import React, { useMemo, ChangeEvent } from 'react';
+import {
+  Config,
+  MonthlyData,
+  P3Commitment,
+  calculateP3CommitmentPlan,
+  getP3CommitmentDiscount,
+  recommendP3Commitment,
+  formatCurrency,
+  formatNumber
+} from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+
+interface P3CommitmentPlannerProps {
+  config: Config;
+  pricing: PricingCatalog;
+  monthlyData: MonthlyData[];
+  onCommitmentChange: (commitment: P3Commitment | undefined) => void;
+}
+
+const TERM_OPTIONS = [12, 24, 36];
+
+const describeCommitment = (commitment: P3Commitment, pricing: PricingCatalog): string =>
+  `${formatNumber(commitment.credits)} credits per ${commitment.termMonths}-month term at ` +
+  `${Math.round(getP3CommitmentDiscount(commitment, pricing) * 100)}% off`;
+
+// Upfront P3 pre-purchase: forfeited and overage credits per term, and the commitment the projected credit curve calls for
+const P3CommitmentPlanner: React.FC<P3CommitmentPlannerProps> = ({ config, pricing, monthlyData, onCommitmentChange }) => {
+  const commitment = config.p3Commitment;
+  const termMonths = commitment?.termMonths ?? 12;
+  const credits = useMemo(() => monthlyData.map(m => m.credits), [monthlyData]);
+
+  const recommended = useMemo(() => recommendP3Commitment(credits, termMonths, pricing), [credits, termMonths, pricing]);
+  const totalCost = (c: P3Commitment): number =>
+    Math.round(calculateP3CommitmentPlan(credits, c, pricing).reduce((sum, m) => sum + m.cost, 0));
+
+  const plan = useMemo(() => commitment && calculateP3CommitmentPlan(credits, commitment, pricing), [credits, commitment, pricing]);
+  const terms = plan
+    ? Array.from(new Set(plan.map(m => m.term))).map(term => {
+      const months = plan.filter(m => m.term === term);
+      const sum = (value: (m: typeof months[number]) => number): number => months.reduce((total, m) => total + value(m), 0);
+      return {
+        term,
+        from: months[0].month,
+        to: months[months.length - 1].month,
+        committedCredits: sum(m => m.committedCredits),
+        usedCredits: sum(m => m.usedCredits),
+        forfeitedCredits: sum(m => m.forfeitedCredits),
+        overageCredits: sum(m => m.overageCredits),
+        cost: Math.round(sum(m => m.cost))
+      };
+    })
+    : [];
+  const forfeited = terms.reduce((sum, t) => sum + t.forfeitedCredits, 0);
+  const overage = terms.reduce((sum, t) => sum + t.overageCredits, 0);
+  const rate = commitment ? pricing.paygRate * (1 - getP3CommitmentDiscount(commitment, pricing)) : 0;
+  const monthLabel = (month: number): string => monthlyData[month - 1]?.label ?? `Month ${month}`;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        P3 is an upfront commitment: the credits of each term are paid for in its first month at the discount tier their annual volume
+        reaches, unused credits are forfeited when the term ends, and consumption beyond them is billed at PAYG. Without a commitment the
+        P3 models assume one that matches consumption exactly. The P3 + M365 Licenses model draws on the same commitment for the credits its
+        licensed users don&apos;t cover.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={commitment !== undefined}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => onCommitmentChange(e.target.checked ? recommended : undefined)}
+            className="rounded"
+          />
+          Model an upfront commitment
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Credits per Term</label>
+          <input
+            type="number"
+            min={0}
+            step={10000}
+            disabled={!commitment}
+            value={commitment?.credits ?? recommended.credits}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => onCommitmentChange({ credits: Math.max(0, parseInt(e.target.value) || 0), termMonths })}
+            className="px-3 py-2 border border-gray-300 rounded disabled:bg-gray-100"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Term</label>
+          <select
+            disabled={!commitment}
+            value={termMonths}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => commitment && onCommitmentChange({ ...commitment, termMonths: parseInt(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded disabled:bg-gray-100"
+          >
+            {TERM_OPTIONS.map(months => <option key={months} value={months}>{months} months</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="p-4 bg-purple-50 rounded-lg border border-purple-200 mb-6 text-sm text-purple-900">
+        <strong>Recommended:</strong> {describeCommitment(recommended, pricing)} — {formatCurrency(totalCost(recommended), config.currency)} over {monthlyData.length} months
+        for the projected credits.
+        {commitment && commitment.credits !== recommended.credits && (
+          <>
+            {' '}Your commitment costs {formatCurrency(totalCost(commitment), config.currency)}.
+            <button
+              onClick={() => onCommitmentChange(recommended)}
+              className="ml-3 px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 text-xs"
+            >
+              Use Recommended
+            </button>
+          </>
+        )}
+      </div>
+
+      {commitment && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="text-sm text-gray-600 mb-1">Commitment</div>
+              <div className="text-lg font-bold text-gray-900">{describeCommitment(commitment, pricing)}</div>
+              <div className="text-xs text-gray-500 mt-1">{formatCurrency(Math.round(commitment.credits * rate), config.currency)} upfront per term</div>
+            </div>
+            <div className={`p-4 rounded-lg border ${forfeited > 0 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+              <div className="text-sm text-gray-600 mb-1">Forfeited credits</div>
+              <div className={`text-2xl font-bold ${forfeited > 0 ? 'text-red-700' : 'text-gray-900'}`}>{formatNumber(Math.round(forfeited))}</div>
+              <div className="text-xs text-gray-500 mt-1">{formatCurrency(Math.round(forfeited * rate), config.currency)} paid for unused credits</div>
+            </div>
+            <div className={`p-4 rounded-lg border ${overage > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-gray-50 border-gray-200'}`}>
+              <div className="text-sm text-gray-600 mb-1">Overage credits</div>
+              <div className={`text-2xl font-bold ${overage > 0 ? 'text-yellow-700' : 'text-gray-900'}`}>{formatNumber(Math.round(overage))}</div>
+              <div className="text-xs text-gray-500 mt-1">{formatCurrency(Math.round(overage * pricing.paygRate), config.currency)} billed at PAYG</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-3 text-left">Term</th>
+                  <th className="p-3 text-left">Months</th>
+                  <th className="p-3 text-right">Committed</th>
+                  <th className="p-3 text-right">Used</th>
+                  <th className="p-3 text-right">Forfeited</th>
+                  <th className="p-3 text-right">Overage</th>
+                  <th className="p-3 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {terms.map(term => (
+                  <tr key={term.term} className="border-t">
+                    <td className="p-3 font-medium">{term.term}</td>
+                    <td className="p-3">{monthLabel(term.from)} – {monthLabel(term.to)}</td>
+                    <td className="p-3 text-right">{formatNumber(Math.round(term.committedCredits))}</td>
+                    <td className="p-3 text-right">{formatNumber(Math.round(term.usedCredits))}</td>
+                    <td className={`p-3 text-right ${term.forfeitedCredits > 0 ? 'text-red-700' : ''}`}>{formatNumber(Math.round(term.forfeitedCredits))}</td>
+                    <td className={`p-3 text-right ${term.overageCredits > 0 ? 'text-yellow-700' : ''}`}>{formatNumber(Math.round(term.overageCredits))}</td>
+                    <td className="p-3 text-right font-medium">{formatCurrency(term.cost, config.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default P3CommitmentPlanner;
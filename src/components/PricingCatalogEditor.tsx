@@ -0,0 +1,273 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  PricingCatalog,
+  DEFAULT_PRICING_CATALOG,
+  CORE_BILLING_EVENT_IDS,
+  validatePricingCatalog
+} from '../utils/pricing';
+
+interface PricingCatalogEditorProps {
+  catalog: PricingCatalog;
+  onSave: (catalog: PricingCatalog) => void;
+}
+
+const isCoreEvent = (id: string): boolean => (CORE_BILLING_EVENT_IDS as string[]).includes(id);
+
+const PricingCatalogEditor: React.FC<PricingCatalogEditorProps> = ({ catalog, onSave }) => {
+  const [draft, setDraft] = useState<PricingCatalog>(catalog);
+  const errors = validatePricingCatalog(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(catalog);
+
+  const updateField = (key: 'paygRate' | 'packCredits' | 'packPrice' | 'm365CopilotPrice', value: number) => {
+    setDraft({ ...draft, [key]: value });
+  };
+
+  const updateEvent = (index: number, field: 'label' | 'credits', value: string | number) => {
+    const billingEvents = [...draft.billingEvents];
+    billingEvents[index] = { ...billingEvents[index], [field]: value };
+    setDraft({ ...draft, billingEvents });
+  };
+
+  const addEvent = () => {
+    let n = 1;
+    while (draft.billingEvents.some(rule => rule.id === `customEvent${n}`)) n++;
+    setDraft({
+      ...draft,
+      billingEvents: [...draft.billingEvents, { id: `customEvent${n}`, label: `Custom event ${n}`, credits: 1 }]
+    });
+  };
+
+  const removeEvent = (index: number) => {
+    setDraft({ ...draft, billingEvents: draft.billingEvents.filter((_, idx) => idx !== index) });
+  };
+
+  const updateTier = (index: number, field: 'minAnnualCredits' | 'discount', value: number) => {
+    const tiers = [...draft.p3DiscountTiers];
+    tiers[index] = { ...tiers[index], [field]: value };
+    setDraft({ ...draft, p3DiscountTiers: tiers });
+  };
+
+  const addTier = () => {
+    const last = draft.p3DiscountTiers[draft.p3DiscountTiers.length - 1];
+    setDraft({
+      ...draft,
+      p3DiscountTiers: [
+        ...draft.p3DiscountTiers,
+        { minAnnualCredits: (last?.minAnnualCredits || 0) + 1000000, discount: last?.discount || 0 }
+      ]
+    });
+  };
+
+  const removeTier = (index: number) => {
+    setDraft({ ...draft, p3DiscountTiers: draft.p3DiscountTiers.filter((_, idx) => idx !== index) });
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-gray-100 rounded-lg">
+      <p className="text-sm text-gray-700">
+        Catalog v{catalog.version} · {catalog.source} · effective {catalog.effectiveDate}. Update these rates when Microsoft changes list prices or to reflect your negotiated (EA) pricing. Every calculation uses this catalog.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Price Source</label>
+          <input
+            type="text"
+            value={draft.source}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, source: e.target.value })}
+            className="w-full p-2 border rounded bg-white"
+            placeholder="e.g., EA agreement 2026"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Effective Date</label>
+          <input
+            type="date"
+            value={draft.effectiveDate}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, effectiveDate: e.target.value })}
+            className="w-full p-2 border rounded bg-white"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            PAYG Rate: ${draft.paygRate}/credit
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={0.001}
+            value={draft.paygRate}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateField('paygRate', parseFloat(e.target.value) || 0)}
+            className="w-full p-2 border rounded bg-white"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            M365 Copilot Price: ${draft.m365CopilotPrice}/user/month
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={draft.m365CopilotPrice}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateField('m365CopilotPrice', parseFloat(e.target.value) || 0)}
+            className="w-full p-2 border rounded bg-white"
+          />
+          <p className="text-xs text-gray-500 mt-1">Standard: $30, Volume discount: $25-28</p>
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Capacity Pack Size (credits)</label>
+          <input
+            type="number"
+            min={1}
+            step={1000}
+            value={draft.packCredits}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateField('packCredits', parseInt(e.target.value) || 0)}
+            className="w-full p-2 border rounded bg-white"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Capacity Pack Price ($/month)</label>
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={draft.packPrice}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateField('packPrice', parseFloat(e.target.value) || 0)}
+            className="w-full p-2 border rounded bg-white"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-700">Billable Event Types (credits per event)</h4>
+          <button
+            onClick={addEvent}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus size={14} />
+            Add Event Type
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-2">
+          Classic/generative answers, agent actions and Tenant Graph grounding are derived from each agent's turns; other events are counted per conversation on the agent.
+        </p>
+        <div className="space-y-2">
+          {draft.billingEvents.map((rule, idx) => (
+            <div key={rule.id} className="grid grid-cols-5 gap-3 items-center">
+              <div className="col-span-3">
+                {isCoreEvent(rule.id) ? (
+                  <span className="text-sm text-gray-800">{rule.label}</span>
+                ) : (
+                  <input
+                    type="text"
+                    value={rule.label}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateEvent(idx, 'label', e.target.value)}
+                    className="w-full p-2 border rounded bg-white text-sm"
+                  />
+                )}
+              </div>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={rule.credits}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateEvent(idx, 'credits', parseFloat(e.target.value) || 0)}
+                className="w-full p-2 border rounded bg-white text-sm"
+              />
+              <button
+                onClick={() => removeEvent(idx)}
+                disabled={isCoreEvent(rule.id)}
+                className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-700">P3 Pre-Purchase Discount Tiers</h4>
+          <button
+            onClick={addTier}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus size={14} />
+            Add Tier
+          </button>
+        </div>
+        <div className="space-y-2">
+          {draft.p3DiscountTiers.map((tier, idx) => (
+            <div key={idx} className="grid grid-cols-5 gap-3 items-end">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">From annual credits</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={100000}
+                  value={tier.minAnnualCredits}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => updateTier(idx, 'minAnnualCredits', parseInt(e.target.value) || 0)}
+                  className="w-full p-2 border rounded bg-white text-sm"
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Discount (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={Math.round(tier.discount * 100)}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => updateTier(idx, 'discount', (parseFloat(e.target.value) || 0) / 100)}
+                  className="w-full p-2 border rounded bg-white text-sm"
+                />
+              </div>
+              <button
+                onClick={() => removeTier(idx)}
+                disabled={draft.p3DiscountTiers.length === 1}
+                className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-700 list-disc pl-5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!isDirty || errors.length > 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Save Catalog
+        </button>
+        <button
+          onClick={() => setDraft(catalog)}
+          disabled={!isDirty}
+          className="px-4 py-2 border border-gray-300 rounded bg-white hover:bg-gray-50 disabled:text-gray-400"
+        >
+          Discard Changes
+        </button>
+        <button
+          onClick={() => setDraft({ ...DEFAULT_PRICING_CATALOG, version: catalog.version })}
+          className="px-4 py-2 border border-gray-300 rounded bg-white hover:bg-gray-50"
+        >
+          Reset to List Prices
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PricingCatalogEditor;
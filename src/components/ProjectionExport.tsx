@@ -0,0 +1,58 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Stage, Segment, Agent, Config, Projection } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { buildProjectionSheets, toCsv } from '../utils/export';
+import { createWorkbook } from '../utils/xlsx';
+import { downloadFile, toFileName } from '../utils/download';
+
+interface ProjectionExportProps {
+  name: string;
+  projection: Projection;
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const ProjectionExport: React.FC<ProjectionExportProps> = ({ name, projection, stages, segments, agents, config, pricing }) => {
+  const buildSheets = () => buildProjectionSheets(projection, stages, segments, agents, config, pricing);
+
+  const exportWorkbook = () => {
+    downloadFile(toFileName(name, 'xlsx'), createWorkbook(buildSheets()), XLSX_MIME_TYPE);
+  };
+
+  const exportCsv = (sheetName: string) => {
+    const sheet = buildSheets().find(s => s.name === sheetName);
+    if (sheet) {
+      downloadFile(toFileName(`${name} ${sheet.name}`, 'csv'), toCsv(sheet.rows), 'text/csv');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        onClick={exportWorkbook}
+        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+      >
+        <Download size={18} />
+        Excel Workbook (.xlsx)
+      </button>
+      {['Monthly Projection', 'Agent Monthly Costs', 'Agent Year Summary', 'Assumptions'].map(sheetName => (
+        <button
+          key={sheetName}
+          onClick={() => exportCsv(sheetName)}
+          className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 text-sm"
+        >
+          <Download size={14} />
+          {sheetName} (CSV)
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ProjectionExport;
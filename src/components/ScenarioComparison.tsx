@@ -0,0 +1,129 @@
+import React, { useState, useMemo, ChangeEvent } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { MonthlyData, PRICING_MODELS, calculateProjection, findCheapestModel, getHorizonMonths, formatCurrency, formatCostTick } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { CurrencySettings, getCurrencySymbol } from '../utils/currency';
+import { Scenario } from '../utils/scenarios';
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[];
+  pricing: PricingCatalog;
+  currency?: CurrencySettings; // of the current scenario, used for all compared ones
+}
+
+const scenarioColors = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2'];
+
+// Side-by-side totals over each scenario's horizon and monthly cost curves of two or more scenarios under the same pricing catalog
+const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ scenarios, pricing, currency }) => {
+  const [modelKey, setModelKey] = useState<keyof MonthlyData>('paygCost');
+
+  const projections = useMemo(
+    () => scenarios.map(s => calculateProjection(s.stages, s.segments, s.agents, s.config, pricing)),
+    [scenarios, pricing]
+  );
+
+  // One row per month of the longest horizon with each scenario's cost for the selected model, keyed by scenario id
+  const chartData = useMemo(
+    () => Array.from({ length: Math.max(...projections.map(p => p.monthlyData.length)) }, (_, idx) => {
+      const row: Record<string, number> = { month: idx + 1 };
+      projections.forEach((projection, scenarioIdx) => {
+        const month = projection.monthlyData[idx];
+        if (month) row[scenarios[scenarioIdx].id] = month[modelKey] as number;
+      });
+      return row;
+    }),
+    [projections, scenarios, modelKey]
+  );
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded-lg border border-gray-300">
+      <h4 className="text-lg font-semibold text-gray-800 mb-3">Scenario Comparison (Totals over Each Horizon)</h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-left p-2">Pricing Model</th>
+              {scenarios.map((scenario, idx) => (
+                <th key={scenario.id} className="text-right p-2" style={{ color: scenarioColors[idx % scenarioColors.length] }}>
+                  {scenario.name}
+                  <div className="text-xs font-normal text-gray-500">{getHorizonMonths(scenario.config)} months</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PRICING_MODELS.map((model, modelIdx) => (
+              <tr key={model.key} className="border-b border-gray-200">
+                <td className="p-2 font-medium">{model.model}</td>
+                {projections.map((projection, idx) => {
+                  const summary = projection.pricingSummary[modelIdx];
+                  const isCheapest = findCheapestModel(projection.pricingSummary).model === summary.model;
+                  return (
+                    <td
+                      key={scenarios[idx].id}
+                      className={`text-right p-2 ${isCheapest ? 'font-bold text-green-700 bg-green-50' : ''}`}
+                    >
+                      {formatCurrency(summary.total, currency)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr className="bg-gray-50">
+              <td className="p-2 font-semibold">Cheapest Model</td>
+              {projections.map((projection, idx) => (
+                <td key={scenarios[idx].id} className="text-right p-2 font-semibold">
+                  {findCheapestModel(projection.pricingSummary).model}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-3 mt-6 mb-2">
+        <label className="text-sm font-semibold text-gray-700">Monthly cost curve for</label>
+        <select
+          value={modelKey}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => setModelKey(e.target.value as keyof MonthlyData)}
+          className="p-2 border rounded text-sm bg-white"
+        >
+          {PRICING_MODELS.map(model => (
+            <option key={model.key} value={model.key}>{model.model}</option>
+          ))}
+        </select>
+      </div>
+      <ResponsiveContainer width="100%" height={380}>
+        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="month"
+            label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+          />
+          <YAxis
+            label={{ value: `Cost (${getCurrencySymbol(currency)})`, angle: -90, position: 'insideLeft', offset: 20 }}
+            tickFormatter={(value: number) => formatCostTick(value, currency)}
+          />
+          <Tooltip
+            formatter={(value: number) => formatCurrency(value, currency)}
+            labelFormatter={(month: number) => `Month ${month}`}
+          />
+          <Legend verticalAlign="top" height={36} />
+          {scenarios.map((scenario, idx) => (
+            <Line
+              key={scenario.id}
+              type="monotone"
+              dataKey={scenario.id}
+              stroke={scenarioColors[idx % scenarioColors.length]}
+              strokeWidth={2}
+              name={scenario.name}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
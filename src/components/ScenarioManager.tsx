@@ -0,0 +1,251 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Plus, Trash2, Edit2, Copy, Download, Upload } from 'lucide-react';
+import { PricingCatalog } from '../utils/pricing';
+import {
+  Scenario,
+  ScenarioInputs,
+  ScenarioStore,
+  createScenario,
+  duplicateScenario,
+  uniqueScenarioName,
+  validateScenarioName,
+  createScenarioDocument,
+  parseScenarioDocument
+} from '../utils/scenarios';
+import { downloadFile, toFileName } from '../utils/download';
+import ScenarioComparison from './ScenarioComparison';
+
+interface ScenarioManagerProps {
+  store: ScenarioStore;
+  inputs: ScenarioInputs;
+  pricing: PricingCatalog;
+  onStoreChange: (store: ScenarioStore) => void;
+  onLoad: (scenario: Scenario) => void;
+  onImportPricing: (catalog: PricingCatalog) => void;
+}
+
+const ScenarioManager: React.FC<ScenarioManagerProps> = ({ store, inputs, pricing, onStoreChange, onLoad, onImportPricing }) => {
+  const [newName, setNewName] = useState<string>('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importMessage, setImportMessage] = useState<string>('');
+
+  const { scenarios, activeScenarioId } = store;
+  const newNameErrors = newName ? validateScenarioName(newName, scenarios) : [];
+  const renameErrors = renamingId ? validateScenarioName(renameValue, scenarios, renamingId) : [];
+
+  // Save the working inputs as a new scenario and keep editing it
+  const saveAsNew = () => {
+    const scenario = createScenario(newName.trim(), inputs, scenarios);
+    onStoreChange({ activeScenarioId: scenario.id, scenarios: [...scenarios, scenario] });
+    setNewName('');
+  };
+
+  const duplicate = (scenario: Scenario) => {
+    onStoreChange({ ...store, scenarios: [...scenarios, duplicateScenario(scenario, scenarios)] });
+  };
+
+  const startRename = (scenario: Scenario) => {
+    setRenamingId(scenario.id);
+    setRenameValue(scenario.name);
+  };
+
+  const rename = () => {
+    onStoreChange({
+      ...store,
+      scenarios: scenarios.map(s => s.id === renamingId ? { ...s, name: renameValue.trim() } : s)
+    });
+    setRenamingId(null);
+  };
+
+  // Deleting the active scenario switches editing to the first remaining one
+  const remove = (scenario: Scenario) => {
+    const remaining = scenarios.filter(s => s.id !== scenario.id);
+    onStoreChange({ ...store, scenarios: remaining });
+    setCompareIds(compareIds.filter(id => id !== scenario.id));
+    if (scenario.id === activeScenarioId) {
+      onLoad(remaining[0]);
+    }
+  };
+
+  const exportScenario = (scenario: Scenario) => {
+    const doc = createScenarioDocument(scenario, pricing);
+    downloadFile(toFileName(scenario.name, 'json'), JSON.stringify(doc, null, 2), 'application/json');
+  };
+
+  // Import a document as a new scenario and start editing it; its pricing replaces the catalog when different
+  const importScenario = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { document: doc, errors } = parseScenarioDocument(await file.text());
+    setImportErrors(errors);
+    setImportMessage('');
+    if (!doc) return;
+
+    const { stages, segments, agents, config } = doc;
+    const scenario = createScenario(uniqueScenarioName(doc.name, scenarios), { stages, segments, agents, config }, scenarios);
+    onStoreChange({ ...store, scenarios: [...scenarios, scenario] });
+    onLoad(scenario);
+
+    const pricingChanged = JSON.stringify({ ...doc.pricing, version: 0 }) !== JSON.stringify({ ...pricing, version: 0 });
+    if (pricingChanged) {
+      onImportPricing(doc.pricing);
+    }
+    setImportMessage(
+      `Imported "${scenario.name}"${pricingChanged ? ` and its pricing catalog (${doc.pricing.source}, effective ${doc.pricing.effectiveDate})` : ''}.`
+    );
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(compareIds.includes(id) ? compareIds.filter(c => c !== id) : [...compareIds, id]);
+  };
+
+  const compared = scenarios.filter(s => compareIds.includes(s.id));
+
+  return (
+    <div className="mt-4 space-y-3 p-4 bg-gray-100 rounded-lg">
+      <p className="text-sm text-gray-700">
+        Scenarios are saved in this browser. Changes to stages, segments, agents and settings are saved automatically to the scenario being edited. Tick two or more scenarios to compare them under the current pricing catalog.
+      </p>
+
+      {scenarios.map(scenario => (
+        <div key={scenario.id} className="flex items-center gap-3 p-3 bg-white rounded border border-gray-200">
+          <input
+            type="checkbox"
+            checked={compareIds.includes(scenario.id)}
+            onChange={() => toggleCompare(scenario.id)}
+            className="w-4 h-4"
+            title="Compare"
+          />
+          <div className="flex-1">
+            {renamingId === scenario.id ? (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={renameValue}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setRenameValue(e.target.value)}
+                  className="flex-1 p-1 border rounded text-sm"
+                />
+                <button
+                  onClick={rename}
+                  disabled={renameErrors.length > 0}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:bg-gray-300"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setRenamingId(null)}
+                  className="px-3 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900">{scenario.name}</span>
+                {scenario.id === activeScenarioId && (
+                  <span className="text-xs px-2 py-1 bg-blue-100 text-blue-800 rounded">Editing</span>
+                )}
+              </div>
+            )}
+            {renamingId === scenario.id && renameErrors.length > 0 && (
+              <p className="text-xs text-red-700 mt-1">{renameErrors[0]}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              {scenario.agents.filter(a => a.enabled).length} agents · {scenario.stages.length} stages · saved {new Date(scenario.updatedAt).toLocaleString()}
+            </p>
+          </div>
+          <button
+            onClick={() => onLoad(scenario)}
+            disabled={scenario.id === activeScenarioId}
+            className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+          >
+            Load
+          </button>
+          <button
+            onClick={() => startRename(scenario)}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+            title="Rename"
+          >
+            <Edit2 size={16} />
+          </button>
+          <button
+            onClick={() => exportScenario(scenario)}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+            title="Export JSON"
+          >
+            <Download size={16} />
+          </button>
+          <button
+            onClick={() => duplicate(scenario)}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+            title="Duplicate"
+          >
+            <Copy size={16} />
+          </button>
+          <button
+            onClick={() => remove(scenario)}
+            disabled={scenarios.length === 1}
+            className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Delete"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => setNewName(e.target.value)}
+          placeholder="e.g., Aggressive rollout"
+          className="flex-1 p-2 border rounded bg-white text-sm"
+        />
+        <button
+          onClick={saveAsNew}
+          disabled={!newName.trim() || newNameErrors.length > 0}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-sm"
+        >
+          <Plus size={16} />
+          Save Current as New Scenario
+        </button>
+      </div>
+      {newNameErrors.length > 0 && (
+        <p className="text-xs text-red-700">{newNameErrors[0]}</p>
+      )}
+
+      <div>
+        <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded bg-white hover:bg-gray-50 text-sm cursor-pointer">
+          <Upload size={16} />
+          Import Scenario JSON
+          <input type="file" accept=".json,application/json" onChange={importScenario} className="hidden" />
+        </label>
+        <p className="text-xs text-gray-500 mt-1">
+          Exported files contain the stages, segments, agents, settings and pricing catalog with a schema version, so they can be shared or kept in source control. Files from older versions of the calculator are upgraded on import.
+        </p>
+      </div>
+      {importMessage && (
+        <p className="text-xs text-green-700">{importMessage}</p>
+      )}
+      {importErrors.length > 0 && (
+        <div className="p-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs font-semibold text-red-800 mb-1">The file could not be imported:</p>
+          <ul className="text-xs text-red-700 list-disc pl-5">
+            {importErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {compared.length >= 2 && (
+        <ScenarioComparison scenarios={compared} pricing={pricing} currency={inputs.config.currency} />
+      )}
+    </div>
+  );
+};
+
+export default ScenarioManager;
@@ -0,0 +1,115 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Segment, validateSegments } from '../utils/calculations';
+
+interface SegmentEditorProps {
+  segments: Segment[];
+  onChange: (segments: Segment[]) => void;
+  onDelete: (segmentId: string) => void;
+}
+
+// Edits a working copy of the segments; only valid segments reach the projection and the saved scenario
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, onChange, onDelete }) => {
+  const [draft, setDraft] = useState<Segment[]>(segments);
+  const errors = validateSegments(draft);
+
+  const applyDraft = (newSegments: Segment[]) => {
+    setDraft(newSegments);
+    if (validateSegments(newSegments).length === 0) {
+      onChange(newSegments);
+    }
+  };
+
+  const updateSegment = (index: number, field: 'name' | 'share' | 'existingLicenses', value: string | number | undefined) => {
+    const newSegments = [...draft];
+    newSegments[index] = { ...newSegments[index], [field]: value };
+    applyDraft(newSegments);
+  };
+
+  const addSegment = () => {
+    let n = draft.length + 1;
+    while (draft.some(s => s.id === `segment-${n}`)) n++;
+    applyDraft([...draft, { id: `segment-${n}`, name: `Segment ${n}`, share: 0 }]);
+  };
+
+  const deleteSegment = (segmentId: string) => {
+    onDelete(segmentId);
+    applyDraft(draft.filter(s => s.id !== segmentId));
+  };
+
+  return (
+    <div className="mt-4 space-y-3 p-4 bg-white rounded-lg border border-gray-300">
+      <p className="text-sm text-gray-600 mb-3">
+        Model your organisation as audience segments (e.g. Finance, Field Sales, Plants). Each agent targets one or more segments, and its eligible users are the combined headcount of those segments. A segment's headcount at each stage is set in the stage editor; when left blank it defaults to the segment's share of the stage's users. Users who already hold M365 Copilot licenses are entered per segment: as they are rolled out, their agent usage is covered by the licenses you own in every pricing model, except autonomous actions and triggers.
+      </p>
+      {draft.map((segment, idx) => (
+        <div key={segment.id} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end p-3 bg-gray-50 rounded">
+          <div className="md:col-span-3">
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Segment Name
+            </label>
+            <input
+              type="text"
+              value={segment.name}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSegment(idx, 'name', e.target.value)}
+              className="w-full p-2 border rounded text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Default Share of Users %
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={Math.round(segment.share * 100)}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSegment(idx, 'share', (parseInt(e.target.value) || 0) / 100)}
+              className="w-full p-2 border rounded text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Existing M365 Copilot Licenses
+            </label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              placeholder="0"
+              value={segment.existingLicenses ?? ''}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => updateSegment(idx, 'existingLicenses', e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-full p-2 border rounded text-sm"
+            />
+          </div>
+          <div>
+            <button
+              onClick={() => deleteSegment(segment.id)}
+              disabled={draft.length === 1}
+              className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={addSegment}
+        className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+      >
+        <Plus size={16} />
+        Add Segment
+      </button>
+
+      {errors.length > 0 && (
+        <ul className="p-3 bg-red-50 rounded border border-red-200 text-xs text-red-700 list-disc pl-8">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,99 @@
+import React, { useState, useMemo, ChangeEvent } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Stage, Segment, Agent, Config, MonthlyData, PRICING_MODELS, formatCurrency } from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { CurrencySettings } from '../utils/currency';
+import { calculateSensitivity, rankSensitivity } from '../utils/sensitivity';
+
+interface SensitivityAnalysisProps {
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+}
+
+const MAX_BARS = 15;
+
+const formatChange = (value: number, currency?: CurrencySettings): string => `${value < 0 ? '-' : '+'}${formatCurrency(Math.abs(value), currency)}`;
+
+// Tornado chart ranking which inputs move a pricing model's projection total the most
+const SensitivityAnalysis: React.FC<SensitivityAnalysisProps> = ({ stages, segments, agents, config, pricing }) => {
+  const [changePercent, setChangePercent] = useState<number>(20);
+  const [modelKey, setModelKey] = useState<keyof MonthlyData>('paygCost');
+
+  const result = useMemo(
+    () => calculateSensitivity(stages, segments, agents, config, pricing, changePercent / 100),
+    [stages, segments, agents, config, pricing, changePercent]
+  );
+  const bars = useMemo(() => rankSensitivity(result, modelKey), [result, modelKey]);
+  const shownBars = bars.slice(0, MAX_BARS);
+  const baseline = result.baseline[PRICING_MODELS.findIndex(m => m.key === modelKey)];
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        Which assumption matters most? Each input — per-agent usage, Graph grounding, stage DAU and users, the autonomous action ratio and the M365 Copilot price —
+        is lowered and raised by the same percentage while everything else stays fixed, and inputs are ranked by how far they move the selected model's total over the projection horizon.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Change each input by</label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm">±</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              step={5}
+              value={changePercent}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setChangePercent(Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+              className="w-20 p-2 border rounded text-sm"
+            />
+            <span className="text-sm">%</span>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Pricing model</label>
+          <select
+            value={modelKey}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => setModelKey(e.target.value as keyof MonthlyData)}
+            className="p-2 border rounded text-sm bg-white"
+          >
+            {PRICING_MODELS.map(model => (
+              <option key={model.key} value={model.key}>{model.model}</option>
+            ))}
+          </select>
+        </div>
+        <span className="text-sm text-gray-700">Baseline projection total: <strong>{formatCurrency(baseline, config.currency)}</strong></span>
+      </div>
+
+      {shownBars.length === 0 ? (
+        <p className="text-sm text-gray-500">None of the inputs changes this model's projection total.</p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={Math.max(200, shownBars.length * 32 + 80)}>
+            <BarChart data={shownBars} layout="vertical" stackOffset="sign" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" tickFormatter={(value: number) => formatChange(value, config.currency)} />
+              <YAxis type="category" dataKey="label" width={220} tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value: number) => formatChange(value, config.currency)} />
+              <Legend verticalAlign="top" height={36} />
+              <ReferenceLine x={0} stroke="#374151" />
+              <Bar dataKey="low" stackId="change" fill="#3b82f6" name={`Input −${changePercent}%`} />
+              <Bar dataKey="high" stackId="change" fill="#ef4444" name={`Input +${changePercent}%`} />
+            </BarChart>
+          </ResponsiveContainer>
+          {bars.length > MAX_BARS && (
+            <p className="text-xs text-gray-500 mt-2">
+              Showing the {MAX_BARS} most influential of {bars.length} inputs that move this model.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityAnalysis;
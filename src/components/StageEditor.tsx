@@ -0,0 +1,225 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Stage, Segment, STAGE_PHASES, getStageSegmentUsers, validateStages } from '../utils/calculations';
+
+interface StageEditorProps {
+  stages: Stage[];
+  segments: Segment[];
+  onChange: (stages: Stage[]) => void;
+}
+
+// Edits a working copy of the rollout calendar; only valid calendars reach the projection
+const StageEditor: React.FC<StageEditorProps> = ({ stages, segments, onChange }) => {
+  const [draft, setDraft] = useState<Stage[]>(stages);
+  const errors = validateStages(draft, segments);
+
+  const applyDraft = (newStages: Stage[]) => {
+    setDraft(newStages);
+    if (validateStages(newStages, segments).length === 0) {
+      onChange(newStages);
+    }
+  };
+
+  const updateStage = <K extends keyof Stage>(index: number, field: K, value: Stage[K]) => {
+    const newStages = [...draft];
+    newStages[index] = { ...newStages[index], [field]: value };
+    applyDraft(newStages);
+  };
+
+  // A blank headcount falls back to the segment's default share of the stage's users
+  const updateSegmentUsers = (index: number, segmentId: string, value: string) => {
+    const segmentUsers = { ...draft[index].segmentUsers };
+    if (value === '') {
+      delete segmentUsers[segmentId];
+    } else {
+      segmentUsers[segmentId] = parseInt(value) || 0;
+    }
+    updateStage(index, 'segmentUsers', segmentUsers);
+  };
+
+  // Optional DAU range for the uncertainty analysis; clearing either bound removes it
+  const updateDauRange = (index: number, bound: 'min' | 'max', value: string) => {
+    const stage = draft[index];
+    if (value === '') {
+      updateStage(index, 'dauRange', undefined);
+      return;
+    }
+    updateStage(index, 'dauRange', {
+      min: stage.dauRange?.min ?? stage.dau,
+      max: stage.dauRange?.max ?? stage.dau,
+      [bound]: (parseInt(value) || 0) / 100
+    });
+  };
+
+  const addStage = () => {
+    const last = draft[draft.length - 1];
+    applyDraft([
+      ...draft,
+      {
+        name: 'New Stage',
+        users: last?.users || 0,
+        month: (last?.month || 0) + 3,
+        dau: last?.dau ?? 0.3,
+        phase: last?.phase || STAGE_PHASES[0],
+        segmentUsers: { ...(last?.segmentUsers || {}) }
+      }
+    ]);
+  };
+
+  const deleteStage = (index: number) => {
+    applyDraft(draft.filter((_, idx) => idx !== index));
+  };
+
+  return (
+    <div className="mt-4 space-y-3 p-4 bg-white rounded-lg border border-gray-300">
+      <p className="text-sm text-gray-600 mb-3">
+        Define your own rollout calendar: name each deployment stage, set the month it starts, its phase, the cumulative number of users, the DAU (Daily Active Users) percentage with an optional min/max range for the uncertainty analysis, and the headcount of each audience segment. Months must be strictly increasing.
+      </p>
+      {draft.map((stage, idx) => (
+        <div key={idx} className="p-3 bg-gray-50 rounded">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Stage Name
+              </label>
+              <input
+                type="text"
+                value={stage.name}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateStage(idx, 'name', e.target.value)}
+                className="w-full p-2 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Start Month
+              </label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={stage.month}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateStage(idx, 'month', parseInt(e.target.value) || 0)}
+                className="w-full p-2 border rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Phase
+              </label>
+              <select
+                value={stage.phase}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => updateStage(idx, 'phase', e.target.value)}
+                className="w-full p-2 border rounded text-sm bg-white"
+              >
+                {STAGE_PHASES.map(phase => (
+                  <option key={phase} value={phase}>{phase}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Users
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={stage.users}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => updateStage(idx, 'users', parseInt(e.target.value) || 0)}
+                className="w-full p-2 border rounded text-sm"
+              />
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  DAU %
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={Math.round(stage.dau * 100)}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => updateStage(idx, 'dau', (parseInt(e.target.value) || 0) / 100)}
+                  className="w-full p-2 border rounded text-sm"
+                />
+              </div>
+              <button
+                onClick={() => deleteStage(idx)}
+                disabled={draft.length === 1}
+                className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mt-3">
+            {(['min', 'max'] as const).map(bound => (
+              <div key={bound}>
+                <label className="block text-xs text-gray-600 mb-1">
+                  DAU {bound} % (range)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={stage.dauRange ? Math.round(stage.dauRange[bound] * 100) : ''}
+                  placeholder="fixed"
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => updateDauRange(idx, bound, e.target.value)}
+                  className="w-full p-2 border rounded text-sm"
+                />
+              </div>
+            ))}
+          </div>
+          {segments.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mt-3">
+              {segments.map(segment => (
+                <div key={segment.id}>
+                  <label className="block text-xs text-gray-600 mb-1 truncate">
+                    {segment.name} users
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={10}
+                    value={stage.segmentUsers[segment.id] ?? ''}
+                    placeholder={`${getStageSegmentUsers(stage, segment)} (${Math.round(segment.share * 100)}%)`}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateSegmentUsers(idx, segment.id, e.target.value)}
+                    className="w-full p-2 border rounded text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={addStage}
+        className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+      >
+        <Plus size={16} />
+        Add Stage
+      </button>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 rounded border border-red-200">
+          <p className="text-xs font-semibold text-red-800 mb-1">Fix these issues to update the projection:</p>
+          <ul className="text-xs text-red-700 list-disc pl-5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-3 p-3 bg-blue-50 rounded border border-blue-200">
+        <p className="text-xs text-blue-800">
+          💡 <strong>Tip:</strong> Higher DAU % means more users are actively using the system daily.
+          Typically, early adopters (HQ) have higher DAU than later groups (stores).
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default StageEditor;
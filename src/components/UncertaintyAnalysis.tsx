@@ -0,0 +1,232 @@
+import React, { useState, useMemo, ChangeEvent } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Dices } from 'lucide-react';
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  AGENT_RANGE_FIELDS,
+  PRICING_MODELS,
+  getHorizonLabel,
+  formatCurrency,
+  formatCostTick
+} from '../utils/calculations';
+import { PricingCatalog } from '../utils/pricing';
+import { getCurrencySymbol } from '../utils/currency';
+import { SimulationResult, DEFAULT_SIMULATION_ITERATIONS, applyRangeSpread, runMonteCarlo } from '../utils/simulation';
+
+interface UncertaintyAnalysisProps {
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+  monthlyData: MonthlyData[];
+  onRangesChange: (stages: Stage[], agents: Agent[]) => void;
+}
+
+const ITERATION_OPTIONS = [200, 500, 1000, 2000];
+
+// Monte Carlo bands around the point projection, sampled from the ranges set on agents and stages
+const UncertaintyAnalysis: React.FC<UncertaintyAnalysisProps> = ({
+  stages,
+  segments,
+  agents,
+  config,
+  pricing,
+  monthlyData,
+  onRangesChange
+}) => {
+  const [spreadPercent, setSpreadPercent] = useState<number>(20);
+  const [iterations, setIterations] = useState<number>(DEFAULT_SIMULATION_ITERATIONS);
+  const [modelKey, setModelKey] = useState<keyof MonthlyData>('paygCost');
+  const [run, setRun] = useState<{ result: SimulationResult; inputs: unknown[] } | null>(null);
+
+  const inputs = [stages, segments, agents, config, pricing];
+  const isStale = run !== null && run.inputs.some((input, idx) => input !== inputs[idx]);
+
+  const rangedCount = stages.filter(s => s.dauRange).length +
+    agents.reduce((sum, a) => sum + AGENT_RANGE_FIELDS.filter(field => a.ranges?.[field]).length, 0);
+  const estimateCount = stages.length + agents.length * AGENT_RANGE_FIELDS.length;
+
+  const applySpread = (spread: number) => {
+    const ranged = applyRangeSpread(stages, agents, spread);
+    onRangesChange(ranged.stages, ranged.agents);
+  };
+
+  const runSimulation = () => {
+    setRun({ result: runMonteCarlo(stages, segments, agents, config, pricing, iterations), inputs });
+  };
+
+  // P10-P90 band and median of the selected model next to the point estimate
+  const chartData = useMemo(
+    () => run?.result.months.map((month, idx) => ({
+      month: month.month,
+      band: [month.bands[modelKey].p10, month.bands[modelKey].p90],
+      p50: month.bands[modelKey].p50,
+      estimate: monthlyData[idx]?.[modelKey] as number
+    })) || [],
+    [run, modelKey, monthlyData]
+  );
+  const selectedModel = PRICING_MODELS.find(m => m.key === modelKey) || PRICING_MODELS[0];
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        Every agent and stage input is a point estimate. Give them ranges (min / most likely / max) — per agent in the agent form,
+        per stage in the deployment stage editor, or all at once below — and run a simulation to see the P10, P50 and P90 cost of each
+        pricing model and how often each model comes out cheapest over the projection horizon.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Spread around every estimate</label>
+          <div className="flex items-center gap-2">
+            <span className="text-sm">±</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              step={5}
+              value={spreadPercent}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setSpreadPercent(parseInt(e.target.value) || 0)}
+              className="w-20 p-2 border rounded text-sm"
+            />
+            <span className="text-sm">%</span>
+          </div>
+        </div>
+        <button
+          onClick={() => applySpread(spreadPercent / 100)}
+          disabled={spreadPercent <= 0}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 text-sm disabled:text-gray-400"
+        >
+          Apply to All Estimates
+        </button>
+        <button
+          onClick={() => applySpread(0)}
+          disabled={rangedCount === 0}
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white hover:bg-gray-50 text-sm disabled:text-gray-400"
+        >
+          Clear Ranges
+        </button>
+        <span className="text-xs text-gray-500">{rangedCount} of {estimateCount} estimates have a range</span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Iterations</label>
+          <select
+            value={iterations}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => setIterations(parseInt(e.target.value))}
+            className="p-2 border rounded text-sm bg-white"
+          >
+            {ITERATION_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={runSimulation}
+          disabled={rangedCount === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300"
+        >
+          <Dices size={18} />
+          Run Simulation
+        </button>
+        {isStale && (
+          <span className="text-xs text-amber-700">Inputs changed since the last run — run the simulation again to update the bands.</span>
+        )}
+      </div>
+
+      {run && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="p-3 text-left">Pricing Model</th>
+                  <th className="p-3 text-right">P10 ({getHorizonLabel(config)})</th>
+                  <th className="p-3 text-right">P50 ({getHorizonLabel(config)})</th>
+                  <th className="p-3 text-right">P90 ({getHorizonLabel(config)})</th>
+                  <th className="p-3 text-right">Probability Cheapest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.result.models.map(model => (
+                  <tr key={model.key} className="border-t">
+                    <td className="p-3 flex items-center gap-2">
+                      <div className="w-4 h-4 rounded" style={{ backgroundColor: model.color }}></div>
+                      {model.model}
+                    </td>
+                    <td className="p-3 text-right">{formatCurrency(model.total.p10, config.currency)}</td>
+                    <td className="p-3 text-right font-semibold">{formatCurrency(model.total.p50, config.currency)}</td>
+                    <td className="p-3 text-right">{formatCurrency(model.total.p90, config.currency)}</td>
+                    <td className="p-3 text-right font-semibold">{(model.probabilityCheapest * 100).toFixed(0)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {run.result.iterations} simulated projections. P10 and P90 mean 10% of runs cost less, respectively more, than the value shown.
+          </p>
+
+          <div className="flex items-center gap-3 mt-6 mb-2">
+            <label className="text-sm font-semibold text-gray-700">Monthly cost band for</label>
+            <select
+              value={modelKey}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => setModelKey(e.target.value as keyof MonthlyData)}
+              className="p-2 border rounded text-sm bg-white"
+            >
+              {PRICING_MODELS.map(model => (
+                <option key={model.key} value={model.key}>{model.model}</option>
+              ))}
+            </select>
+          </div>
+          <ResponsiveContainer width="100%" height={380}>
+            <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 60, bottom: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="month"
+                label={{ value: 'Month', position: 'insideBottom', offset: -10 }}
+              />
+              <YAxis
+                label={{ value: `Cost (${getCurrencySymbol(config.currency)})`, angle: -90, position: 'insideLeft', offset: 20 }}
+                tickFormatter={(value: number) => formatCostTick(value, config.currency)}
+              />
+              <Tooltip
+                formatter={(value: number | number[]) =>
+                  Array.isArray(value) ? `${formatCurrency(value[0], config.currency)} – ${formatCurrency(value[1], config.currency)}` : formatCurrency(value, config.currency)
+                }
+                labelFormatter={(month: number) => monthlyData[month - 1]?.label ?? `Month ${month}`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <Area
+                type="monotone"
+                dataKey="band"
+                stroke="none"
+                fill={selectedModel.color}
+                fillOpacity={0.2}
+                name="P10 – P90"
+              />
+              <Line type="monotone" dataKey="p50" stroke={selectedModel.color} strokeWidth={2} name="P50" dot={false} />
+              <Line
+                type="monotone"
+                dataKey="estimate"
+                stroke="#6b7280"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                name="Point Estimate"
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UncertaintyAnalysis;
@@ -0,0 +1,186 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  UsageBucket,
+  MonthlyData,
+  UNIFORM_USAGE_DISTRIBUTION,
+  createParetoDistribution,
+  validateUsageDistribution,
+  calculateBucketBreakeven,
+  formatNumber
+} from '../utils/calculations';
+import { PricingCatalog, getBreakevenCredits } from '../utils/pricing';
+
+interface UsageDistributionEditorProps {
+  distribution: UsageBucket[] | undefined;
+  finalMonth: MonthlyData;
+  pricing: PricingCatalog;
+  onChange: (distribution: UsageBucket[] | undefined) => void;
+}
+
+// Edits a working copy of the usage buckets; only valid distributions reach the projection
+const UsageDistributionEditor: React.FC<UsageDistributionEditorProps> = ({ distribution, finalMonth, pricing, onChange }) => {
+  const [draft, setDraft] = useState<UsageBucket[] | undefined>(distribution);
+  const [topUserPercent, setTopUserPercent] = useState<number>(20);
+  const [topUsagePercent, setTopUsagePercent] = useState<number>(80);
+  const errors = draft ? validateUsageDistribution(draft) : [];
+  const canGenerate = topUserPercent > 0 && topUserPercent < 100 && topUsagePercent > topUserPercent && topUsagePercent < 100;
+
+  const applyDraft = (buckets: UsageBucket[] | undefined) => {
+    setDraft(buckets);
+    if (!buckets || validateUsageDistribution(buckets).length === 0) {
+      onChange(buckets);
+    }
+  };
+
+  const updateBucket = <K extends keyof UsageBucket>(index: number, field: K, value: UsageBucket[K]) => {
+    if (!draft) return;
+    const buckets = [...draft];
+    buckets[index] = { ...buckets[index], [field]: value };
+    applyDraft(buckets);
+  };
+
+  const bucketBreakeven = calculateBucketBreakeven(draft || UNIFORM_USAGE_DISTRIBUTION, finalMonth, pricing);
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded border border-gray-200">
+      <label className="block text-sm font-semibold text-gray-700 mb-2">Usage Distribution (for hybrid models)</label>
+      <p className="text-xs text-gray-600 mb-3">
+        A minority of power users usually drives most consumption, and hybrid M365 licenses go to the heaviest users first.
+        Describe how usage is spread across users as buckets, or keep every user consuming the same.
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" checked={!draft} onChange={() => applyDraft(undefined)} />
+          Every user consumes the same
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="radio" checked={!!draft} onChange={() => applyDraft(draft || createParetoDistribution())} />
+          Usage buckets
+        </label>
+      </div>
+
+      {draft && (
+        <>
+          <div className="flex flex-wrap items-end gap-2 mb-3 text-sm">
+            <span>Pareto: top</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={topUserPercent}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setTopUserPercent(parseInt(e.target.value) || 0)}
+              className="w-16 p-1 border rounded"
+            />
+            <span>% of users drive</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={topUsagePercent}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setTopUsagePercent(parseInt(e.target.value) || 0)}
+              className="w-16 p-1 border rounded"
+            />
+            <span>% of usage</span>
+            <button
+              onClick={() => applyDraft(createParetoDistribution(topUserPercent / 100, topUsagePercent / 100))}
+              disabled={!canGenerate}
+              className="px-3 py-1 border border-gray-300 rounded bg-white hover:bg-gray-50 disabled:text-gray-400"
+            >
+              Generate Buckets
+            </button>
+          </div>
+
+          <div className="space-y-2 mb-2">
+            {draft.map((bucket, idx) => (
+              <div key={idx} className="grid grid-cols-7 gap-2 items-end">
+                <div className="col-span-3">
+                  {idx === 0 && <label className="block text-xs text-gray-600 mb-1">Bucket</label>}
+                  <input
+                    type="text"
+                    value={bucket.name}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateBucket(idx, 'name', e.target.value)}
+                    className="w-full p-2 border rounded text-sm"
+                  />
+                </div>
+                <div className="col-span-2">
+                  {idx === 0 && <label className="block text-xs text-gray-600 mb-1">Users %</label>}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={+(bucket.userShare * 100).toFixed(2)}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateBucket(idx, 'userShare', (parseFloat(e.target.value) || 0) / 100)}
+                    className="w-full p-2 border rounded text-sm"
+                  />
+                </div>
+                <div className="col-span-1">
+                  {idx === 0 && <label className="block text-xs text-gray-600 mb-1">Usage %</label>}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={+(bucket.usageShare * 100).toFixed(2)}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => updateBucket(idx, 'usageShare', (parseFloat(e.target.value) || 0) / 100)}
+                    className="w-full p-2 border rounded text-sm"
+                  />
+                </div>
+                <button
+                  onClick={() => applyDraft(draft.filter((_, i) => i !== idx))}
+                  disabled={draft.length === 1}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors disabled:text-gray-300 disabled:hover:bg-transparent"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => applyDraft([...draft, { name: `Bucket ${draft.length + 1}`, userShare: 0, usageShare: 0 }])}
+            className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 font-medium mb-3"
+          >
+            <Plus size={16} />
+            Add Bucket
+          </button>
+
+          {errors.length > 0 && (
+            <div className="p-3 mb-3 bg-red-50 rounded border border-red-200">
+              <p className="text-xs font-semibold text-red-800 mb-1">Fix these issues to update the projection:</p>
+              <ul className="text-xs text-red-700 list-disc pl-5">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      {errors.length === 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-300">
+              <th className="p-2 text-left">Bucket (month {finalMonth.month})</th>
+              <th className="p-2 text-right">Users</th>
+              <th className="p-2 text-right">Credits/User/Month</th>
+              <th className="p-2 text-left">vs {formatNumber(Math.round(getBreakevenCredits(pricing)))} credit breakeven</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bucketBreakeven.map((bucket, idx) => (
+              <tr key={idx} className={`border-b border-gray-100 ${bucket.aboveBreakeven ? 'bg-green-50' : ''}`}>
+                <td className="p-2">{bucket.name}</td>
+                <td className="p-2 text-right">{formatNumber(bucket.users)}</td>
+                <td className="p-2 text-right">{formatNumber(Math.round(bucket.creditsPerUser))}</td>
+                <td className="p-2">{bucket.aboveBreakeven ? 'M365 license is cheaper' : 'PAYG is cheaper'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default UsageDistributionEditor;
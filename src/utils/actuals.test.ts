@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { Stage, Segment, Agent, Config, calculateProjection } from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { parseCsv, parseActualsCsv, applyActualCredits, clearActualCredits, compareActuals } from './actuals';
+
+describe('Actual Consumption', () => {
+  const stages: Stage[] = [
+    { name: 'Pilot', users: 100, month: 1, dau: 0.5, phase: 'Pilot', segmentUsers: {} },
+    { name: 'Enterprise', users: 1000, month: 13, dau: 0.5, phase: 'Enterprise', segmentUsers: {} }
+  ];
+
+  const segments: Segment[] = [
+    { id: 'hq', name: 'HQ', share: 0.2 },
+    { id: 'field', name: 'Field', share: 0.8 }
+  ];
+
+  const hrAgent: Agent = {
+    id: 1,
+    name: 'HR Helper',
+    purpose: 'Benefits, PTO, policies',
+    conversationsPerDay: 1,
+    turns: 4,
+    generativeRatio: 0.5,
+    actions: 1,
+    tenantGraph: false,
+    eventCounts: {},
+    deployMonth: 1,
+    segments: ['hq', 'field'],
+    color: '#8b5cf6',
+    enabled: true
+  };
+  const itAgent: Agent = { ...hrAgent, id: 2, name: 'IT Support', color: '#3b82f6' };
+
+  const config: Config = { autonomousActionRatio: 0.15, hybridM365Users: 20, startDate: '2026-07' };
+  const pricing = DEFAULT_PRICING_CATALOG;
+
+  describe('parseCsv', () => {
+    it('should read quoted fields, escaped quotes and CRLF line breaks', () => {
+      expect(parseCsv('\uFEFFAgent,Credits\r\n"HR, Benefits","1,200"\r\n"Say ""hi""",3\r\n\r\n')).toEqual([
+        ['Agent', 'Credits'],
+        ['HR, Benefits', '1,200'],
+        ['Say "hi"', '3']
+      ]);
+    });
+  });
+
+  describe('parseActualsCsv', () => {
+    it('should sum daily rows into credits per agent and projection month', () => {
+      const csv = [
+        'Environment,Agent name,Date,Billed credits',
+        'Prod,HR Helper,2026-07-01,1000',
+        'Prod,HR Helper,2026-07-02,"1,500"',
+        'Prod,hr helper,8/3/2026,700',
+        'Prod,IT Support,2026-08-01T00:00:00Z,250',
+        'Prod,Sales Coach,2026-07-01,99'
+      ].join('\n');
+
+      const result = parseActualsCsv(csv, [hrAgent, itAgent], config);
+      expect(result.errors).toEqual([]);
+      expect(result.credits).toEqual({ 1: { 1: 2500, 2: 700 }, 2: { 2: 250 } });
+      expect(result.skippedAgents).toEqual(['Sales Coach']);
+    });
+
+    it('should accept projection month numbers without a start date', () => {
+      const result = parseActualsCsv('Bot,Month,Copilot credits\nHR Helper,3,120', [hrAgent], { ...config, startDate: undefined });
+      expect(result.credits).toEqual({ 1: { 3: 120 } });
+    });
+
+    it('should report missing columns and invalid rows', () => {
+      expect(parseActualsCsv('Agent,Credits\nHR Helper,5', [hrAgent], config).errors).toEqual([
+        'Could not find a date or month column (e.g. "Date")'
+      ]);
+
+      const result = parseActualsCsv(
+        'Agent,Date,Credits\nHR Helper,2026-06-30,5\nHR Helper,2026-07-01,-1\nHR Helper,yesterday,5',
+        [hrAgent],
+        config
+      );
+      expect(result.credits).toBeNull();
+      expect(result.errors).toEqual([
+        'Row 2: date "2026-06-30" is before the projection start',
+        'Row 3: credits "-1" must be a non-negative number',
+        'Row 4: date "yesterday" is not a recognised date'
+      ]);
+      expect(parseActualsCsv('Agent,Date,Credits\nHR Helper,2026-07-01,5', [hrAgent], { ...config, startDate: undefined }).errors).toEqual([
+        'Row 2: dated rows need a start month (set one under Projection Timeline)'
+      ]);
+    });
+  });
+
+  it('should merge imported months into the recorded actuals and clear them', () => {
+    const recorded = [{ ...hrAgent, actualCredits: { 1: 100, 2: 200 } }, itAgent];
+    const merged = applyActualCredits(recorded, { 1: { 2: 250, 3: 300 } });
+
+    expect(merged[0].actualCredits).toEqual({ 1: 100, 2: 250, 3: 300 });
+    expect(merged[1]).toBe(itAgent);
+    expect(clearActualCredits(merged)[0]).not.toHaveProperty('actualCredits');
+  });
+
+  describe('compareActuals', () => {
+    it('should report the variance and re-forecast the remaining months from the run-rate', () => {
+      const projected = calculateProjection(stages, segments, [hrAgent, itAgent], config, pricing);
+      const hrCost = (month: number) => projected.agentMonthlyCosts[month - 1].agentCosts[0].cost;
+
+      // HR Helper ran at twice its projected consumption for the first three months; IT Support has no actuals yet
+      const agents = [
+        { ...hrAgent, actualCredits: { 1: hrCost(1) * 200, 2: hrCost(2) * 200, 3: hrCost(3) * 200 } },
+        itAgent
+      ];
+      const { agentMonthlyCosts, monthlyData } = calculateProjection(stages, segments, agents, config, pricing);
+      const comparison = compareActuals(agents, agentMonthlyCosts, monthlyData, pricing);
+
+      const [hr, it] = comparison.agents;
+      expect(hr.observedMonths).toBe(3);
+      expect(hr.runRate).toBe(2);
+      expect(hr.actualToDate).toBe(2 * hr.projectedToDate);
+      expect(hr.months[2]).toEqual({ month: 3, projected: hrCost(3), actual: 2 * hrCost(3), reforecast: 2 * hrCost(3) });
+      expect(hr.months[20].reforecast).toBe(2 * hrCost(21));
+      expect(it.runRate).toBeNull();
+      expect(it.reforecastTotal).toBe(it.projectedTotal);
+
+      expect(comparison.lastActualMonth).toBe(3);
+      expect(comparison.months[3].actual).toBeNull();
+      expect(comparison.variance).toBe(hr.variance);
+      expect(comparison.reforecastTotal).toBe(hr.reforecastTotal + it.reforecastTotal);
+      expect(comparison.projectedTotal).toBe(hr.projectedTotal + it.projectedTotal);
+    });
+
+    it('should keep the projection when nothing was recorded', () => {
+      const { agentMonthlyCosts, monthlyData } = calculateProjection(stages, segments, [hrAgent], config, pricing);
+      const comparison = compareActuals([hrAgent], agentMonthlyCosts, monthlyData, pricing);
+
+      expect(comparison.lastActualMonth).toBeNull();
+      expect(comparison.reforecastTotal).toBe(comparison.projectedTotal);
+      expect(comparison.variance).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+// Actual consumption: import capacity reports, compare them with the projection and re-forecast the remaining months
+
+import { Agent, Config, AgentMonthlyCost, MonthlyData } from './calculations';
+import { PricingCatalog } from './pricing';
+
+// Imported credits per agent id and projection month
+export type ActualCreditsByAgent = Record<number, Record<number, number>>;
+
+export interface ActualsImport {
+  credits: ActualCreditsByAgent | null;
+  errors: string[];
+  skippedAgents: string[]; // names in the report that match no agent in the portfolio
+}
+
+export interface ActualsMonth {
+  month: number;
+  projected: number;
+  actual: number | null; // null when nothing was recorded for the month
+  reforecast: number; // actual cost where recorded, else the projection scaled by the run-rate
+}
+
+export interface AgentActuals {
+  agentId: number;
+  name: string;
+  color: string;
+  observedMonths: number;
+  projectedToDate: number; // projected cost of the months with actuals
+  actualToDate: number;
+  variance: number;
+  runRate: number | null; // actual / projected cost over the observed months; null when nothing was projected for them
+  projectedTotal: number;
+  reforecastTotal: number;
+  months: ActualsMonth[];
+}
+
+export interface ActualsComparison {
+  lastActualMonth: number | null;
+  months: ActualsMonth[]; // portfolio totals
+  agents: AgentActuals[];
+  projectedToDate: number;
+  actualToDate: number;
+  variance: number;
+  projectedTotal: number;
+  reforecastTotal: number;
+}
+
+// RFC 4180 CSV, the counterpart of toCsv; blank lines are dropped
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Report columns go by different names across admin center exports, so they are found by keyword
+export const findColumn = (headers: string[], patterns: RegExp[]): number => {
+  for (const pattern of patterns) {
+    const idx = headers.findIndex(header => pattern.test(header));
+    if (idx >= 0) return idx;
+  }
+  return -1;
+};
+
+const AGENT_COLUMN = [/\bagent\b/, /\bbot\b/, /^resource name$/, /^name$/];
+const DATE_COLUMN = [/\bdate\b/, /\bmonth\b/, /\bperiod\b/];
+const CREDITS_COLUMN = [/billed.*credit/, /credit/];
+
+// Projection month of a report date: 'YYYY-MM', 'YYYY-MM-DD' (with or without time), 'M/D/YYYY', or a projection month number
+const toProjectionMonth = (value: string, config: Config): number | string => {
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return parseInt(text);
+
+  const iso = /^(\d{4})-(\d{1,2})(?:-\d{1,2})?(?:[T ].*)?$/.exec(text);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: .*)?$/.exec(text);
+  if (!iso && !us) return `date "${text}" is not a recognised date`;
+  if (!config.startDate) return 'dated rows need a start month (set one under Projection Timeline)';
+
+  const year = iso ? Number(iso[1]) : Number(us![3]);
+  // Admin center exports use M/D/YYYY; fall back to D/M/YYYY when the first part can't be a month
+  const month = iso ? Number(iso[2]) : Number(us![1]) > 12 ? Number(us![2]) : Number(us![1]);
+  const [startYear, startMonth] = config.startDate.split('-').map(Number);
+  const projectionMonth = (year * 12 + month) - (startYear * 12 + startMonth) + 1;
+  return projectionMonth >= 1 ? projectionMonth : `date "${text}" is before the projection start`;
+};
+
+// Read a consumption report (one row per agent and day or month) into credits per agent and projection month.
+// Agents are matched by name; rows of agents outside the portfolio are skipped, not rejected.
+export const parseActualsCsv = (text: string, agents: Agent[], config: Config): ActualsImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) {
+    return { credits: null, errors: ['The file has no data rows'], skippedAgents: [] };
+  }
+
+  const headers = header.map(h => h.trim().toLowerCase());
+  const columns = {
+    agent: findColumn(headers, AGENT_COLUMN),
+    date: findColumn(headers, DATE_COLUMN),
+    credits: findColumn(headers, CREDITS_COLUMN)
+  };
+  const missing = [
+    columns.agent < 0 && 'an agent name column (e.g. "Agent name")',
+    columns.date < 0 && 'a date or month column (e.g. "Date")',
+    columns.credits < 0 && 'a credits column (e.g. "Billed credits")'
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { credits: null, errors: missing.map(column => `Could not find ${column}`), skippedAgents: [] };
+  }
+
+  const agentsByName = new Map(agents.map(agent => [agent.name.trim().toLowerCase(), agent]));
+  const credits: ActualCreditsByAgent = {};
+  const errors: string[] = [];
+  const skippedAgents = new Set<string>();
+
+  rows.forEach((row, idx) => {
+    const label = `Row ${idx + 2}`;
+    const name = (row[columns.agent] || '').trim();
+    const agent = agentsByName.get(name.toLowerCase());
+    if (!agent) {
+      skippedAgents.add(name || '(no name)');
+      return;
+    }
+
+    const month = toProjectionMonth(row[columns.date] || '', config);
+    const value = Number((row[columns.credits] || '').replace(/,/g, '').trim());
+    if (typeof month === 'string') {
+      errors.push(`${label}: ${month}`);
+    } else if (month < 1) {
+      errors.push(`${label}: month must be 1 or later`);
+    } else if (!(row[columns.credits] || '').trim() || isNaN(value) || value < 0) {
+      errors.push(`${label}: credits "${row[columns.credits] ?? ''}" must be a non-negative number`);
+    } else {
+      const agentCredits = credits[agent.id] = credits[agent.id] || {};
+      agentCredits[month] = (agentCredits[month] || 0) + value;
+    }
+  });
+
+  return errors.length > 0
+    ? { credits: null, errors, skippedAgents: [...skippedAgents] }
+    : { credits, errors, skippedAgents: [...skippedAgents] };
+};
+
+// Imported months replace the recorded ones; other recorded months are kept
+export const applyActualCredits = (agents: Agent[], credits: ActualCreditsByAgent): Agent[] =>
+  agents.map(agent => credits[agent.id]
+    ? { ...agent, actualCredits: { ...agent.actualCredits, ...credits[agent.id] } }
+    : agent);
+
+export const clearActualCredits = (agents: Agent[]): Agent[] =>
+  agents.map(({ actualCredits: _actualCredits, ...agent }) => agent);
+
+// Compare recorded PAYG costs with the projected agent costs. Each agent's remaining months are re-forecast
+// by scaling its projection by its run-rate over the observed months; agents without actuals keep their projection.
+export const compareActuals = (
+  agents: Agent[],
+  agentMonthlyCosts: AgentMonthlyCost[],
+  monthlyData: MonthlyData[],
+  pricing: PricingCatalog
+): ActualsComparison => {
+  const tracked = agents.filter(agent => agent.enabled || Object.keys(agent.actualCredits || {}).length > 0);
+
+  const agentActuals = tracked.map((agent): AgentActuals => {
+    const projected = monthlyData.map((_, idx) =>
+      agentMonthlyCosts[idx]?.agentCosts.find(ac => ac.agentId === agent.id)?.cost || 0
+    );
+    const actual = monthlyData.map(({ month }) => {
+      const credits = agent.actualCredits?.[month];
+      return credits === undefined ? null : Math.round(credits * pricing.paygRate);
+    });
+
+    const observed = actual.map((cost, idx) => cost === null ? null : idx).filter((idx): idx is number => idx !== null);
+    const projectedToDate = observed.reduce((sum, idx) => sum + projected[idx], 0);
+    const actualToDate = observed.reduce((sum, idx) => sum + (actual[idx] as number), 0);
+    const runRate = projectedToDate > 0 ? actualToDate / projectedToDate : null;
+
+    const months = monthlyData.map(({ month }, idx) => ({
+      month,
+      projected: projected[idx],
+      actual: actual[idx],
+      reforecast: actual[idx] ?? Math.round(projected[idx] * (runRate ?? 1))
+    }));
+
+    return {
+      agentId: agent.id,
+      name: agent.name,
+      color: agent.color,
+      observedMonths: observed.length,
+      projectedToDate,
+      actualToDate,
+      variance: actualToDate - projectedToDate,
+      runRate,
+      projectedTotal: projected.reduce((sum, cost) => sum + cost, 0),
+      reforecastTotal: months.reduce((sum, m) => sum + m.reforecast, 0),
+      months
+    };
+  });
+
+  const months = monthlyData.map(({ month }, idx): ActualsMonth => {
+    const recorded = agentActuals.filter(a => a.months[idx].actual !== null);
+    return {
+      month,
+      projected: agentActuals.reduce((sum, a) => sum + a.months[idx].projected, 0),
+      actual: recorded.length > 0 ? recorded.reduce((sum, a) => sum + (a.months[idx].actual as number), 0) : null,
+      reforecast: agentActuals.reduce((sum, a) => sum + a.months[idx].reforecast, 0)
+    };
+  });
+  const observedMonths = months.filter(m => m.actual !== null);
+  const projectedToDate = agentActuals.reduce((sum, a) => sum + a.projectedToDate, 0);
+  const actualToDate = agentActuals.reduce((sum, a) => sum + a.actualToDate, 0);
+
+  return {
+    lastActualMonth: observedMonths.length > 0 ? observedMonths[observedMonths.length - 1].month : null,
+    months,
+    agents: agentActuals,
+    projectedToDate,
+    actualToDate,
+    variance: actualToDate - projectedToDate,
+    projectedTotal: months.reduce((sum, m) => sum + m.projected, 0),
+    reforecastTotal: months.reduce((sum, m) => sum + m.reforecast, 0)
+  };
+};
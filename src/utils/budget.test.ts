@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  calculateProjectionMonths,
+  calculatePricingSummary
+} from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { calculateModelBudget, calculateBudgetStatus, suggestBudgetDelays } from './budget';
+
+describe('Budget Caps', () => {
+  // PAYG grows by $100 a month over two 12-month years
+  const monthlyData: MonthlyData[] = Array.from({ length: 24 }, (_, i) => ({
+    month: i + 1,
+    label: `Month ${i + 1}`,
+    year: `Year ${Math.floor(i / 12) + 1}`,
+    users: 100,
+    dau: 0.5,
+    dauPercent: 50,
+    activeUsers: 50,
+    segmentUsers: {},
+    conversations: 0,
+    credits: 0,
+    licensedUsers: 0,
+    licensedCredits: 0,
+    paygCost: (i + 1) * 100,
+    p3Cost: 500,
+    paygM365Cost: 600,
+    p3M365Cost: 700,
+    m365AllCost: 1000,
+    packs: 1,
+    packCost: 400
+  }));
+
+  describe('calculateModelBudget', () => {
+    it('should flag the first month over the monthly budget and the headroom per month', () => {
+      const budget = calculateModelBudget(monthlyData, 'paygCost', { autonomousActionRatio: 0, hybridM365Users: 0, monthlyBudget: 1500 });
+
+      expect(budget.firstBreach).toEqual({
+        month: 16,
+        basis: 'monthly',
+        cost: 1600,
+        budget: 1500,
+        message: 'PAYG Alone exceeds the monthly budget in Month 16'
+      });
+      expect(budget.breachedMonths).toBe(9);
+      expect(budget.months[0]).toMatchObject({ monthlyHeadroom: 1400, annualHeadroom: null });
+    });
+
+    it('should track each budget year against the annual budget', () => {
+      const budget = calculateModelBudget(monthlyData, 'paygCost', { autonomousActionRatio: 0, hybridM365Users: 0, annualBudget: 10000 });
+
+      // Year 1 costs 7,800 in total; year 2 passes 10,000 in its seventh month (1,300 + ... + 1,900 = 11,200)
+      expect(budget.firstBreach).toMatchObject({ month: 19, basis: 'annual', cost: 11200, budget: 10000 });
+      expect(budget.firstBreach?.message).toBe('PAYG Alone exceeds the Year 2 budget in Month 19');
+      expect(budget.months[11]).toMatchObject({ yearToDate: 7800, annualHeadroom: 2200 });
+      expect(budget.months[12]).toMatchObject({ yearToDate: 1300, annualHeadroom: 8700 });
+      expect(budget.breachedMonths).toBe(6);
+    });
+
+    it('should compare costs in the display currency with the budget', () => {
+      // At 0.5 units per USD with no tax, PAYG costs 50 per 100 USD, so a monthly budget of 750 is breached from month 16
+      const currency = { code: 'EUR' as const, fxRates: { USD: 1, EUR: 0.5, GBP: 0.8 }, fxAsOf: '2025-11-01', taxRate: 0 };
+      const budget = calculateModelBudget(monthlyData, 'paygCost', { autonomousActionRatio: 0, hybridM365Users: 0, monthlyBudget: 750, currency });
+
+      expect(budget.firstBreach).toMatchObject({ month: 16, cost: 800, budget: 750 });
+      expect(budget.months[0]).toMatchObject({ cost: 50, monthlyHeadroom: 700 });
+    });
+
+    it('should report every pricing model', () => {
+      const status = calculateBudgetStatus(monthlyData, { autonomousActionRatio: 0, hybridM365Users: 0, monthlyBudget: 800 });
+
+      expect(status.map(s => s.firstBreach?.month ?? null)).toEqual([9, null, null, null, 1, null]);
+    });
+  });
+
+  describe('suggestBudgetDelays', () => {
+    const stages: Stage[] = [
+      { name: 'Pilot', users: 100, month: 1, dau: 0.5, phase: 'Pilot', segmentUsers: {} },
+      { name: 'Wave 1', users: 500, month: 7, dau: 0.5, phase: 'Rollout', segmentUsers: {} },
+      { name: 'Enterprise', users: 1000, month: 19, dau: 0.5, phase: 'Enterprise', segmentUsers: {} }
+    ];
+    const segments: Segment[] = [{ id: 'all', name: 'All', share: 1 }];
+    const baseAgent: Agent = {
+      id: 1,
+      name: 'HR Helper',
+      purpose: 'Benefits, PTO, policies',
+      conversationsPerDay: 1,
+      turns: 4,
+      generativeRatio: 0.5,
+      actions: 1,
+      tenantGraph: false,
+      eventCounts: {},
+      deployMonth: 1,
+      segments: ['all'],
+      color: '#8b5cf6',
+      enabled: true
+    };
+    const agents: Agent[] = [baseAgent, { ...baseAgent, id: 2, name: 'IT Support', deployMonth: 4 }];
+    const pricing = DEFAULT_PRICING_CATALOG;
+    const baseConfig: Config = { autonomousActionRatio: 0.15, hybridM365Users: 0 };
+
+    const breaches = (delayedStages: Stage[], delayedAgents: Agent[], config: Config): boolean =>
+      calculateModelBudget(calculateProjectionMonths(delayedStages, segments, delayedAgents, config, pricing), 'paygCost', config).firstBreach !== null;
+
+    it('should suggest the smallest delays that keep a model within budget', () => {
+      // An annual budget 10% below the costliest budget year of PAYG
+      const years = calculatePricingSummary(calculateProjectionMonths(stages, segments, agents, baseConfig, pricing))[0].years;
+      const config = { ...baseConfig, annualBudget: Math.round(Math.max(...years) * 0.9) };
+      const suggestions = suggestBudgetDelays(stages, segments, agents, config, pricing, 'paygCost');
+
+      expect(breaches(stages, agents, config)).toBe(true);
+      expect(suggestions.length).toBeGreaterThan(0);
+      suggestions.forEach(({ kind, id, to }) => {
+        const delay = (month: number) => kind === 'agent'
+          ? [stages, agents.map(a => a.id === id ? { ...a, deployMonth: month } : a)] as const
+          : [stages.map((s, idx) => idx >= id ? { ...s, month: s.month + month - stages[id].month } : s), agents] as const;
+        expect(breaches(...delay(to), config)).toBe(false);
+        expect(breaches(...delay(to - 1), config)).toBe(true);
+      });
+      expect(suggestions.map(s => s.to - s.from)).toEqual([...suggestions.map(s => s.to - s.from)].sort((a, b) => a - b));
+    });
+
+    it('should suggest nothing without a budget or a breach', () => {
+      expect(suggestBudgetDelays(stages, segments, agents, baseConfig, pricing, 'paygCost')).toEqual([]);
+      expect(suggestBudgetDelays(stages, segments, agents, { ...baseConfig, monthlyBudget: 1e9 }, pricing, 'paygCost')).toEqual([]);
+    });
+  });
+});
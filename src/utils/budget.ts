@@ -0,0 +1,165 @@
+// Budget caps: the month each pricing model breaches a monthly or annual budget, and the delays that keep it under the cap
+
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  PRICING_MODELS,
+  calculateProjectionMonths,
+  getHorizonMonths,
+  getMonthLabel
+} from './calculations';
+import { PricingCatalog } from './pricing';
+import { convertCost } from './currency';
+
+export type BudgetBasis = 'monthly' | 'annual';
+
+export interface BudgetMonth {
+  month: number;
+  year: string;
+  cost: number; // in the display currency, as are the totals and headroom
+  yearToDate: number; // cost of the budget year up to and including this month
+  monthlyHeadroom: number | null; // monthly budget left; negative when breached, null without a monthly budget
+  annualHeadroom: number | null; // budget year's budget left after this month
+}
+
+export interface BudgetBreach {
+  month: number;
+  basis: BudgetBasis;
+  cost: number; // the month's cost, or the budget year's cost to date
+  budget: number;
+  message: string;
+}
+
+export interface ModelBudget {
+  model: string;
+  key: keyof MonthlyData;
+  color: string;
+  months: BudgetMonth[];
+  firstBreach: BudgetBreach | null;
+  breachedMonths: number; // months over the monthly cap or in which the budget year is over its cap
+}
+
+export interface DelaySuggestion {
+  kind: 'agent' | 'stage';
+  id: number; // agent id, or index of the stage
+  name: string;
+  from: number; // current deploy or start month
+  to: number;
+  message: string;
+}
+
+export const hasBudget = (config: Config): boolean =>
+  config.monthlyBudget !== undefined || config.annualBudget !== undefined;
+
+// Headroom and breaches of one pricing model; the annual cap applies to each budget year, partial years included.
+// Budgets are in the display currency, so costs and headroom are converted to it.
+export const calculateModelBudget = (monthlyData: MonthlyData[], key: keyof MonthlyData, config: Config): ModelBudget => {
+  const { model, color } = PRICING_MODELS.find(m => m.key === key)!;
+  const { monthlyBudget, annualBudget } = config;
+  const yearTotals: Record<string, number> = {};
+  let firstBreach: BudgetBreach | null = null;
+  let breachedMonths = 0;
+
+  const months = monthlyData.map((monthData): BudgetMonth => {
+    const cost = convertCost(monthData[key] as number, config.currency);
+    const yearToDate = yearTotals[monthData.year] = (yearTotals[monthData.year] || 0) + cost;
+    const overMonthly = monthlyBudget !== undefined && cost > monthlyBudget;
+    const overAnnual = annualBudget !== undefined && yearToDate > annualBudget;
+
+    if (overMonthly || overAnnual) {
+      breachedMonths++;
+      if (!firstBreach) {
+        firstBreach = overMonthly
+          ? {
+            month: monthData.month,
+            basis: 'monthly',
+            cost,
+            budget: monthlyBudget!,
+            message: `${model} exceeds the monthly budget in ${monthData.label}`
+          }
+          : {
+            month: monthData.month,
+            basis: 'annual',
+            cost: yearToDate,
+            budget: annualBudget!,
+            message: `${model} exceeds the ${monthData.year} budget in ${monthData.label}`
+          };
+      }
+    }
+
+    return {
+      month: monthData.month,
+      year: monthData.year,
+      cost,
+      yearToDate,
+      monthlyHeadroom: monthlyBudget === undefined ? null : monthlyBudget - cost,
+      annualHeadroom: annualBudget === undefined ? null : annualBudget - yearToDate
+    };
+  });
+
+  return { model, key, color, months, firstBreach, breachedMonths };
+};
+
+export const calculateBudgetStatus = (monthlyData: MonthlyData[], config: Config): ModelBudget[] =>
+  PRICING_MODELS.map(({ key }) => calculateModelBudget(monthlyData, key, config));
+
+// Single changes that keep a pricing model within budget over the whole projection: the smallest delay of each
+// enabled agent's deploy month, and of each stage after the first (with the stages after it, to keep their order).
+// Shortest delays first; inputs that can't avoid the breach within the horizon are left out.
+export const suggestBudgetDelays = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog,
+  key: keyof MonthlyData
+): DelaySuggestion[] => {
+  const withinBudget = (delayedStages: Stage[], delayedAgents: Agent[]): boolean =>
+    calculateModelBudget(calculateProjectionMonths(delayedStages, segments, delayedAgents, config, pricing), key, config).firstBreach === null;
+
+  if (!hasBudget(config) || withinBudget(stages, agents)) return [];
+
+  const horizon = getHorizonMonths(config);
+  const label = (month: number): string => getMonthLabel(month, config);
+  const suggestions: DelaySuggestion[] = [];
+
+  agents.filter(agent => agent.enabled && agent.deployMonth <= horizon).forEach(agent => {
+    for (let to = agent.deployMonth + 1; to <= horizon; to++) {
+      if (withinBudget(stages, agents.map(a => a.id === agent.id ? { ...a, deployMonth: to } : a))) {
+        suggestions.push({
+          kind: 'agent',
+          id: agent.id,
+          name: agent.name,
+          from: agent.deployMonth,
+          to,
+          message: `Deploy ${agent.name} in ${label(to)} instead of ${label(agent.deployMonth)}`
+        });
+        return;
+      }
+    }
+  });
+
+  stages.forEach((stage, index) => {
+    if (index === 0 || stage.month > horizon) return;
+    for (let delay = 1; stage.month + delay <= horizon; delay++) {
+      const delayedStages = stages.map((s, idx) => idx >= index ? { ...s, month: s.month + delay } : s);
+      if (withinBudget(delayedStages, agents)) {
+        suggestions.push({
+          kind: 'stage',
+          id: index,
+          name: stage.name,
+          from: stage.month,
+          to: stage.month + delay,
+          message: `Start the ${stage.name} stage in ${label(stage.month + delay)} instead of ${label(stage.month)}` +
+            `${index < stages.length - 1 ? ', moving the later stages by the same amount' : ''}`
+        });
+        return;
+      }
+    }
+  });
+
+  return suggestions.sort((a, b) => (a.to - a.from) - (b.to - b.from) || a.name.localeCompare(b.name));
+};
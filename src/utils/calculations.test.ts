@@ -2,14 +2,50 @@ import { describe, it, expect } from 'vitest';
 import {
   validateNumber,
   formatCurrency,
+  formatAmount,
   formatNumber,
   calculateMonthlyData,
   calculateScenarioComparison,
   PAYG_RATE,
   M365_COPILOT_COST,
   BREAKEVEN_CREDITS,
-  CalculationParams
+  CalculationParams,
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  calculateAgentEventCounts,
+  calculateAgentCredits,
+  interpolateValue,
+  validateSegments,
+  validateStages,
+  validateAgents,
+  validateConfig,
+  getStageSegmentUsers,
+  calculateEligibleUsers,
+  UNIFORM_USAGE_DISTRIBUTION,
+  createParetoDistribution,
+  getTopUsageShare,
+  validateUsageDistribution,
+  calculateBucketBreakeven,
+  calculateProjection,
+  calculateMonthlySegmentUsage,
+  calculatePricingSummary,
+  findCheapestModel,
+  calculateLicensingBreakpoint,
+  calculateAgentMonthlyCosts,
+  calculateAgentYearSummary,
+  getHorizonLabel,
+  getMonthLabel,
+  getYearLabel,
+  getYearLabels,
+  calculatePackPlan,
+  calculateP3CommitmentPlan,
+  getP3CommitmentDiscount,
+  recommendP3Commitment,
+  calculateSeatPlan
 } from './calculations';
+import { AUTONOMOUS_TRIGGER_EVENT_ID, DEFAULT_PRICING_CATALOG, getEventCredits } from './pricing';
 
 describe('Validation Functions', () => {
   describe('validateNumber', () => {
@@ -41,6 +77,14 @@ describe('Format Functions', () => {
     it('should handle small values', () => {
       expect(formatCurrency(0)).toBe('$0');
       expect(formatCurrency(1)).toBe('$1');
+      expect(formatCurrency(0.0085)).toBe('$0.0085');
+    });
+
+    it('should convert to the display currency', () => {
+      const gbp = { code: 'GBP' as const, fxRates: { USD: 1, EUR: 0.9, GBP: 0.8 }, fxAsOf: '2025-11-01', taxRate: 0.2 };
+      expect(formatCurrency(1000, gbp)).toBe('£960');
+      expect(formatCurrency(1000.6, gbp)).toBe('£961');
+      expect(formatAmount(960, gbp)).toBe('£960');
     });
   });
 
@@ -349,3 +393,699 @@ describe('Business Logic Validation', () => {
     expect(scenarios[0].savings).toBeLessThan(0); // M365 would be cheaper
   });
 });
+
+
+describe('Agent Portfolio Projection', () => {
+  const stages: Stage[] = [
+    { name: 'Pilot', users: 100, month: 1, dau: 0.5, phase: 'Pilot', segmentUsers: {} },
+    { name: 'Enterprise', users: 1000, month: 13, dau: 0.5, phase: 'Enterprise', segmentUsers: {} }
+  ];
+
+  const segments: Segment[] = [
+    { id: 'hq', name: 'HQ', share: 0.2 },
+    { id: 'field', name: 'Field', share: 0.8 }
+  ];
+
+  const baseAgent: Agent = {
+    id: 1,
+    name: 'HR Helper',
+    purpose: 'Benefits, PTO, policies',
+    conversationsPerDay: 1,
+    turns: 4,
+    generativeRatio: 0.5,
+    actions: 1,
+    tenantGraph: false,
+    eventCounts: {},
+    deployMonth: 1,
+    segments: ['hq', 'field'],
+    color: '#8b5cf6',
+    enabled: true
+  };
+
+  const pricing = DEFAULT_PRICING_CATALOG;
+
+  const config: Config = {
+    autonomousActionRatio: 0.15,
+    hybridM365Users: 20
+  };
+
+  describe('calculateAgentEventCounts', () => {
+    it('should derive core events from the conversation shape', () => {
+      expect(calculateAgentEventCounts({ ...baseAgent, tenantGraph: true })).toEqual({
+        classicAnswer: 2,
+        generativeAnswer: 2,
+        agentAction: 1,
+        tenantGraphGrounding: 2
+      });
+    });
+
+    it('should add and override with explicit event counts', () => {
+      const counts = calculateAgentEventCounts({ ...baseAgent, eventCounts: { agentFlowAction: 10, agentAction: 3 } });
+      expect(counts.agentFlowAction).toBe(10);
+      expect(counts.agentAction).toBe(3);
+    });
+  });
+
+  describe('calculateAgentCredits', () => {
+    it('should weight classic, generative and action events', () => {
+      // Classic: 4 * 0.5 * 1 = 2, Generative: 4 * 0.5 * 2 = 4, Actions: 1 * 5 = 5
+      expect(calculateAgentCredits(baseAgent, pricing)).toBe(11);
+    });
+
+    it('should bill Tenant Graph grounding per generative answer', () => {
+      // 11 + 2 grounded messages * 10 credits
+      expect(calculateAgentCredits({ ...baseAgent, tenantGraph: true }, pricing)).toBe(31);
+    });
+
+    it('should bill other event types from the rules table', () => {
+      // 11 + 10 flow actions * 0.13 + 0.5 premium AI tool calls * 10
+      const agent = { ...baseAgent, eventCounts: { agentFlowAction: 10, aiToolPremium: 0.5 } };
+      expect(calculateAgentCredits(agent, pricing)).toBeCloseTo(17.3);
+    });
+
+    it('should ignore events missing from the rules table', () => {
+      expect(calculateAgentCredits({ ...baseAgent, eventCounts: { retiredEvent: 5 } }, pricing)).toBe(11);
+    });
+  });
+
+  describe('interpolateValue', () => {
+    it('should interpolate linearly between surrounding stages', () => {
+      const before = stages.filter(s => s.month <= 7);
+      const after = stages.filter(s => s.month > 7);
+      expect(interpolateValue(7, before, after, s => s.users)).toBe(550);
+    });
+
+    it('should hold the last stage value after the final stage', () => {
+      expect(interpolateValue(30, stages, [], s => s.users)).toBe(1000);
+    });
+  });
+
+  describe('validateStages', () => {
+    it('should accept a valid rollout calendar', () => {
+      expect(validateStages(stages)).toEqual([]);
+    });
+
+    it('should require at least one stage', () => {
+      expect(validateStages([])).toEqual(['At least one deployment stage is required']);
+    });
+
+    it('should require strictly increasing months', () => {
+      const errors = validateStages([stages[0], { ...stages[1], month: 1 }]);
+      expect(errors).toEqual(['Enterprise: start month must be after month 1']);
+    });
+
+    it('should reject negative users, out-of-range DAU and missing names', () => {
+      const errors = validateStages([
+        { ...stages[0], users: -10, dau: 1.2 },
+        { ...stages[1], name: ' ', month: 0 }
+      ]);
+      expect(errors).toEqual([
+        'Pilot: users cannot be negative',
+        'Pilot: DAU must be between 0% and 100%',
+        'Stage 2: name is required',
+        'Stage 2: start month must be a whole number of at least 1'
+      ]);
+    });
+  });
+
+  describe('validateSegments', () => {
+    it('should accept segments sharing at most 100% of users', () => {
+      expect(validateSegments(segments)).toEqual([]);
+    });
+
+    it('should reject missing names, duplicate ids and out-of-range shares', () => {
+      const errors = validateSegments([
+        { id: 'hq', name: '', share: 0.5 },
+        { id: 'hq', name: 'Stores', share: 1.5 }
+      ]);
+      expect(errors).toEqual([
+        'Segment 1: name is required',
+        'Stores: id "hq" is already used',
+        'Stores: share must be between 0% and 100%',
+        'Segment shares add up to 200%, more than 100% of users'
+      ]);
+    });
+  });
+
+  describe('getStageSegmentUsers', () => {
+    it('should default to the segment share of the stage users', () => {
+      expect(getStageSegmentUsers(stages[1], segments[0])).toBe(200);
+    });
+
+    it('should prefer an explicit stage headcount', () => {
+      expect(getStageSegmentUsers({ ...stages[1], segmentUsers: { hq: 50 } }, segments[0])).toBe(50);
+    });
+  });
+
+  describe('validateStages with segments', () => {
+    it('should reject segment headcounts above the stage users', () => {
+      const errors = validateStages([{ ...stages[0], segmentUsers: { hq: 90 } }, stages[1]], segments);
+      expect(errors).toEqual(["Pilot: segment headcounts (170) exceed the stage's 100 users"]);
+    });
+
+    it('should reject negative segment headcounts', () => {
+      const errors = validateStages([{ ...stages[0], segmentUsers: { field: -1 } }, stages[1]], segments);
+      expect(errors).toEqual(['Pilot: segment headcounts cannot be negative']);
+    });
+
+    it('should require a DAU range to include the stage DAU', () => {
+      expect(validateStages([{ ...stages[0], dauRange: { min: 0.3, max: 0.7 } }, stages[1]], segments)).toEqual([]);
+      expect(validateStages([{ ...stages[0], dauRange: { min: 0.6, max: 0.7 } }, stages[1]], segments)).toEqual([
+        'Pilot: DAU range must include the stage DAU and stay between 0% and 100%'
+      ]);
+    });
+  });
+
+  describe('validateAgents', () => {
+    it('should accept a valid portfolio', () => {
+      expect(validateAgents([baseAgent], segments)).toEqual([]);
+    });
+
+    it('should report duplicate ids, invalid numbers and unknown segments', () => {
+      const errors = validateAgents([
+        baseAgent,
+        { ...baseAgent, name: 'Copy', conversationsPerDay: -1, deployMonth: 0.5, segments: ['retired'] }
+      ], segments);
+      expect(errors).toEqual([
+        'Copy: id 1 is already used',
+        'Copy: conversationsPerDay must be a non-negative number',
+        'Copy: deployMonth must be a whole number of at least 1',
+        'Copy: unknown segment "retired"'
+      ]);
+    });
+
+    it('should require uncertainty ranges to include their estimates', () => {
+      const errors = validateAgents([{
+        ...baseAgent,
+        ranges: {
+          conversationsPerDay: { min: 0.5, max: 2 },
+          turns: { min: 5, max: 8 },
+          generativeRatio: { min: 0.2, max: 1.2 }
+        }
+      }], segments);
+      expect(errors).toEqual([
+        'HR Helper: turns range must be non-negative and include the estimate',
+        'HR Helper: generativeRatio range must include the estimate and stay between 0 and 1'
+      ]);
+    });
+
+    it('should require actual credits per projection month', () => {
+      expect(validateAgents([{ ...baseAgent, actualCredits: { 1: 1200, 2: 0 } }], segments)).toEqual([]);
+      expect(validateAgents([{ ...baseAgent, actualCredits: { 0: 100, 2: -5 } }], segments)).toEqual([
+        'HR Helper: actualCredits must map months (1 or later) to non-negative credits'
+      ]);
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should bound the autonomous ratio and licensed users', () => {
+      expect(validateConfig(config)).toEqual([]);
+      expect(validateConfig({ autonomousActionRatio: 1.5, hybridM365Users: 2.5 })).toEqual([
+        'autonomousActionRatio must be between 0 and 1',
+        'hybridM365Users must be a non-negative whole number'
+      ]);
+    });
+  });
+
+  describe('usage distribution', () => {
+    const skewed = [
+      { name: 'Light', userShare: 0.8, usageShare: 0.2 },
+      { name: 'Power', userShare: 0.2, usageShare: 0.8 }
+    ];
+
+    it('should give the heaviest users first to the top of the distribution', () => {
+      expect(getTopUsageShare(UNIFORM_USAGE_DISTRIBUTION, 0.3)).toBeCloseTo(0.3);
+      expect(getTopUsageShare(skewed, 0.1)).toBeCloseTo(0.4);
+      expect(getTopUsageShare(skewed, 0.6)).toBeCloseTo(0.9);
+      expect(getTopUsageShare(skewed, 1)).toBeCloseTo(1);
+    });
+
+    it('should build Pareto buckets that follow the 80/20 rule', () => {
+      const buckets = createParetoDistribution(0.2, 0.8, 5);
+      expect(buckets.map(b => b.name)).toEqual(['Top 20%', '20–40%', '40–60%', '60–80%', '80–100%']);
+      expect(buckets[0].usageShare).toBeCloseTo(0.8);
+      expect(validateUsageDistribution(buckets)).toEqual([]);
+    });
+
+    it('should require shares that add up to 100%', () => {
+      expect(validateConfig({ ...config, usageDistribution: skewed })).toEqual([]);
+      expect(validateConfig({ ...config, usageDistribution: [{ name: '', userShare: 0, usageShare: 0.5 }] })).toEqual([
+        'Usage bucket 1: name is required',
+        'Usage bucket 1: user share must be above 0% and at most 100%',
+        'Bucket user shares add up to 0%, not 100%',
+        'Bucket usage shares add up to 50%, not 100%'
+      ]);
+    });
+
+    it('should evaluate the license breakeven per bucket', () => {
+      const buckets = calculateBucketBreakeven(skewed, { users: 1000, credits: 1000000 }, pricing);
+      expect(buckets).toEqual([
+        { name: 'Power', userShare: 0.2, usageShare: 0.8, users: 200, creditsPerUser: 4000, aboveBreakeven: true },
+        { name: 'Light', userShare: 0.8, usageShare: 0.2, users: 800, creditsPerUser: 250, aboveBreakeven: false }
+      ]);
+    });
+
+    it('should cover more credits with the same hybrid licenses when usage is skewed', () => {
+      const uniform = calculateProjection(stages, segments, [baseAgent], config, pricing).monthlyData;
+      const heavy = calculateProjection(stages, segments, [baseAgent], { ...config, usageDistribution: skewed }, pricing).monthlyData;
+
+      expect(heavy[20].paygCost).toBe(uniform[20].paygCost);
+      expect(heavy[20].paygM365Cost).toBeLessThan(uniform[20].paygM365Cost);
+    });
+  });
+
+  describe('calculateEligibleUsers', () => {
+    it('should sum the headcount of the targeted segments', () => {
+      expect(calculateEligibleUsers(['hq'], { hq: 150, field: 850 }, 1000)).toBe(150);
+      expect(calculateEligibleUsers(['hq', 'field'], { hq: 150, field: 850 }, 1000)).toBe(1000);
+    });
+
+    it('should ignore unknown segments and cap at the total users', () => {
+      expect(calculateEligibleUsers(['retired'], { hq: 150 }, 1000)).toBe(0);
+      expect(calculateEligibleUsers(['hq', 'field'], { hq: 600, field: 600 }, 1000)).toBe(1000);
+    });
+  });
+
+  describe('calculateProjection', () => {
+    it('should generate 36 months labelled by year', () => {
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      expect(monthlyData).toHaveLength(36);
+      expect(monthlyData[11].year).toBe('Year 1');
+      expect(monthlyData[12].year).toBe('Year 2');
+      expect(monthlyData[35].year).toBe('Year 3');
+    });
+
+    it('should calculate month 1 costs for all five models', () => {
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const month1 = monthlyData[0];
+
+      // 100 users * 50% DAU = 50 active users * 1 conv/day * 22 days = 1,100 conversations
+      expect(month1.activeUsers).toBe(50);
+      expect(month1.conversations).toBe(1100);
+      // 1,100 conversations * 11 credits = 12,100 credits
+      expect(month1.credits).toBe(12100);
+      expect(month1.paygCost).toBe(121);
+      expect(month1.p3Cost).toBe(103); // 121 * 0.85 = 102.85
+      // 20 licensed users: 600 + (9,680 PAYG credits + 165 autonomous credits) * $0.01
+      expect(month1.paygM365Cost).toBe(698);
+      expect(month1.m365AllCost).toBe(3000);
+    });
+
+    it('should interpolate segment headcounts and limit agents to their segments', () => {
+      const hqAgent = { ...baseAgent, segments: ['hq'] };
+      const { monthlyData } = calculateProjection(stages, segments, [hqAgent], config, pricing);
+
+      // HQ grows from 20 to 200 users over 12 months: 110 at month 7
+      expect(monthlyData[6].segmentUsers).toEqual({ hq: 110, field: 440 });
+      // 20 HQ users * 50% DAU * 22 days = 220 conversations in month 1
+      expect(monthlyData[0].conversations).toBe(220);
+    });
+
+    it('should apply catalog rates, credit weights and P3 tiers', () => {
+      const eaPricing = {
+        ...pricing,
+        paygRate: 0.008,
+        m365CopilotPrice: 25,
+        billingEvents: pricing.billingEvents.map(rule => rule.id === 'agentAction' ? { ...rule, credits: 3 } : rule),
+        p3DiscountTiers: [
+          { minAnnualCredits: 0, discount: 0.1 },
+          { minAnnualCredits: 1000000, discount: 0.2 }
+        ]
+      };
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], config, eaPricing);
+
+      // 1,100 conversations * (2 + 4 + 3) credits = 9,900 credits * $0.008 = $79.20
+      expect(monthlyData[0].credits).toBe(9900);
+      expect(monthlyData[0].paygCost).toBe(79);
+      expect(monthlyData[0].m365AllCost).toBe(2500);
+
+      // Year 1 volume stays below 1M credits (10% tier), later years exceed it (20% tier)
+      const year1Credits = monthlyData.slice(0, 12).reduce((acc, m) => acc + m.credits, 0);
+      expect(year1Credits).toBeLessThan(1000000);
+      expect(monthlyData[0].p3Cost).toBe(Math.round(9900 * 0.008 * 0.9));
+      expect(monthlyData[35].p3Cost).toBe(Math.round(monthlyData[35].credits * 0.008 * 0.8));
+    });
+
+    it('should bill autonomous triggers for M365 licensed users', () => {
+      const autonomousAgent = { ...baseAgent, eventCounts: { autonomousTrigger: 1 } };
+      const base = calculateProjection(stages, segments, [baseAgent], config, pricing).monthlyData[0];
+      const autonomous = calculateProjection(stages, segments, [autonomousAgent], config, pricing).monthlyData[0];
+
+      // 1,100 triggers * 5 credits = 5,500 credits, all billed: 80% via PAYG users, 20% via licensed users
+      expect(autonomous.credits - base.credits).toBe(5500);
+      expect(autonomous.paygM365Cost - base.paygM365Cost).toBe(55);
+    });
+
+    it('should exclude disabled and not-yet-deployed agents', () => {
+      const agents = [
+        { ...baseAgent, enabled: false },
+        { ...baseAgent, id: 2, deployMonth: 2 }
+      ];
+      const { monthlyData, agentMonthlyCosts } = calculateProjection(stages, segments, agents, config, pricing);
+      expect(monthlyData[0].credits).toBe(0);
+      expect(monthlyData[1].credits).toBeGreaterThan(0);
+      expect(agentMonthlyCosts[0].agentCosts).toHaveLength(0);
+      expect(agentMonthlyCosts[1].agentCosts.map(ac => ac.agentId)).toEqual([2]);
+    });
+
+    it('should reconcile per-agent PAYG costs with the PAYG model', () => {
+      const agents = [baseAgent, { ...baseAgent, id: 2, tenantGraph: true, segments: ['hq'] }];
+      const { monthlyData, agentMonthlyCosts, agentYearSummary } = calculateProjection(stages, segments, agents, config, pricing);
+
+      agentMonthlyCosts.forEach((month, idx) => {
+        expect(Math.abs(month.totalCost - monthlyData[idx].paygCost)).toBeLessThanOrEqual(1);
+      });
+      expect(agentYearSummary).toHaveLength(2);
+      expect(agentYearSummary[0].years).toHaveLength(3);
+      expect(agentYearSummary[0].total).toBe(agentYearSummary[0].years.reduce((acc, cost) => acc + cost, 0));
+    });
+  });
+
+  describe('calculateMonthlySegmentUsage', () => {
+    it('should attribute each agent\'s credits to its segments by headcount', () => {
+      const hqAgent: Agent = { ...baseAgent, id: 2, segments: ['hq'], tenantGraph: true };
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent, hqAgent], config, pricing);
+      const usage = calculateMonthlySegmentUsage(stages, segments, [baseAgent, hqAgent], pricing);
+
+      expect(usage).toHaveLength(36);
+      expect(usage[12].segments.hq.users).toBe(200);
+      expect(usage[12].segments.field.users).toBe(800);
+      usage.forEach(({ segments: segmentUsage }, idx) => {
+        expect(Math.round(segmentUsage.hq.credits + segmentUsage.field.credits)).toBe(monthlyData[idx].credits);
+      });
+      // Only the HQ agent uses Graph grounding, so HQ users consume more per head
+      expect(usage[12].segments.hq.credits / 200).toBeGreaterThan(usage[12].segments.field.credits / 800);
+    });
+  });
+
+  describe('calculatePricingSummary', () => {
+    it('should sum each model by year and pick the cheapest', () => {
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const summary = calculatePricingSummary(monthlyData);
+
+      expect(summary.map(s => s.model)).toEqual([
+        'PAYG Alone',
+        'P3 Pre-Purchase',
+        'PAYG + M365 Licenses',
+        'P3 + M365 Licenses',
+        'M365 Copilot for All',
+        'Capacity Packs'
+      ]);
+      const payg = summary[0];
+      expect(payg.years).toHaveLength(3);
+      expect(payg.years[0]).toBe(monthlyData.slice(0, 12).reduce((acc, m) => acc + m.paygCost, 0));
+      expect(payg.total).toBe(payg.years[0] + payg.years[1] + payg.years[2]);
+      expect(findCheapestModel(summary).model).toBe('Capacity Packs');
+    });
+  });
+
+  describe('capacity packs', () => {
+    const months = (credits: number[], years: string[] = credits.map(() => 'Year 1')) =>
+      credits.map((c, idx) => ({ month: idx + 1, year: years[idx], credits: c }));
+
+    it('should buy the cheapest whole number of packs each month', () => {
+      // 25,000 credits for $200 a pack against $0.01 per PAYG credit
+      const plan = calculatePackPlan(months([10000, 30000, 45000, 48000]), config, pricing);
+
+      expect(plan.map(p => p.packs)).toEqual([0, 1, 1, 2]);
+      expect(plan.map(p => p.cost)).toEqual([100, 250, 400, 400]);
+      expect(plan[1]).toMatchObject({ usedCredits: 25000, overageCredits: 5000, expiredCredits: 0 });
+      expect(plan[3]).toMatchObject({ usedCredits: 48000, overageCredits: 0, expiredCredits: 2000 });
+    });
+
+    it('should pool annual packs over each budget year and expire what is left at its end', () => {
+      const plan = calculatePackPlan(
+        months([30000, 0, 60000, 24000], ['Year 1', 'Year 1', 'Year 1', 'Year 2']),
+        { ...config, packPeriod: 'annual' },
+        pricing
+      );
+
+      // Year 1: one pack for three months gives 75,000 credits against 90,000 used
+      expect(plan.map(p => p.packs)).toEqual([1, 1, 1, 1]);
+      expect(plan.map(p => p.overageCredits)).toEqual([0, 0, 15000, 0]);
+      expect(plan.map(p => p.cost)).toEqual([200, 200, 350, 200]);
+      expect(plan.map(p => p.expiredCredits)).toEqual([0, 0, 0, 1000]);
+    });
+
+    it('should add capacity packs as a pricing model', () => {
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const plan = calculatePackPlan(monthlyData, config, pricing);
+
+      expect(monthlyData.map(m => m.packs)).toEqual(plan.map(p => p.packs));
+      expect(monthlyData.map(m => m.packCost)).toEqual(plan.map(p => Math.round(p.cost)));
+      monthlyData.forEach(m => expect(m.packCost).toBeLessThanOrEqual(m.paygCost + 1));
+      expect(validateConfig({ ...config, packPeriod: 'weekly' as 'monthly' })).toEqual(['packPeriod must be "monthly" or "annual"']);
+    });
+  });
+
+  describe('P3 commitments', () => {
+    const credits = [50000, 50000, 50000, 50000, 50000];
+
+    it('should pay each term upfront and forfeit what is left unused at its end', () => {
+      // 120,000 credits per two-month term at $0.0085; the last term runs past the projection and is bought for one month
+      const plan = calculateP3CommitmentPlan(credits, { credits: 120000, termMonths: 2 }, pricing);
+
+      expect(plan.map(m => m.term)).toEqual([1, 1, 2, 2, 3]);
+      expect(plan.map(m => m.committedCredits)).toEqual([120000, 0, 120000, 0, 60000]);
+      expect(plan.map(m => m.forfeitedCredits)).toEqual([0, 20000, 0, 20000, 10000]);
+      expect(plan.map(m => Math.round(m.cost))).toEqual([1020, 0, 1020, 0, 510]);
+    });
+
+    it('should bill consumption beyond the commitment at PAYG', () => {
+      const plan = calculateP3CommitmentPlan(credits, { credits: 80000, termMonths: 2 }, pricing);
+
+      expect(plan[1]).toMatchObject({ usedCredits: 30000, overageCredits: 20000, forfeitedCredits: 0 });
+      expect(Math.round(plan[1].cost)).toBe(200);
+    });
+
+    it('should pick the discount tier by the annualised commitment', () => {
+      const tiered = { ...pricing, p3DiscountTiers: [{ minAnnualCredits: 0, discount: 0 }, { minAnnualCredits: 1200000, discount: 0.2 }] };
+
+      expect(getP3CommitmentDiscount({ credits: 100000, termMonths: 1 }, tiered)).toBe(0.2);
+      expect(getP3CommitmentDiscount({ credits: 200000, termMonths: 3 }, tiered)).toBe(0);
+      // Committing past consumption pays off when it reaches the next tier
+      expect(recommendP3Commitment(Array(12).fill(90000), 12, tiered)).toEqual({ credits: 1200000, termMonths: 12 });
+    });
+
+    it('should recommend the commitment that matches consumption per term', () => {
+      expect(recommendP3Commitment(credits, 2, pricing)).toEqual({ credits: 100000, termMonths: 2 });
+    });
+
+    it('should use the commitment for both P3 models of the projection', () => {
+      const p3Commitment = { credits: 500000, termMonths: 12 };
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], { ...config, p3Commitment }, pricing);
+      const plan = calculateP3CommitmentPlan(monthlyData.map(m => m.credits), p3Commitment, pricing);
+
+      expect(monthlyData.map(m => m.p3Cost)).toEqual(plan.map(m => Math.round(m.cost)));
+      expect(monthlyData[0].p3M365Cost).toBeGreaterThanOrEqual(Math.round(500000 * pricing.paygRate * 0.85));
+      expect(validateConfig({ ...config, p3Commitment: { credits: -1, termMonths: 0 } })).toEqual([
+        'p3Commitment.credits must be a non-negative number',
+        'p3Commitment.termMonths must be a whole number between 1 and 60'
+      ]);
+    });
+  });
+
+  describe('M365 seat procurement', () => {
+    it('should keep seats until the term renews', () => {
+      const plan = calculateSeatPlan([300, 100, 100, 100, 100, 100], { leadTimeMonths: 0, termMonths: 3, trueUpIntervalMonths: 1 });
+
+      expect(plan.map(m => m.seats)).toEqual([300, 300, 300, 100, 100, 100]);
+      expect(plan.map(m => m.addedSeats)).toEqual([300, 0, 0, 100, 0, 0]);
+      expect(plan.map(m => m.renewal)).toEqual([true, false, false, true, false, false]);
+    });
+
+    it('should buy seats ahead of rollout and cover the users until the next true-up', () => {
+      expect(calculateSeatPlan([0, 0, 0, 100], { leadTimeMonths: 2, termMonths: 12, trueUpIntervalMonths: 1 }).map(m => m.seats))
+        .toEqual([0, 100, 100, 100]);
+
+      const required = [100, 100, 300, 300, 300, 500, 500, 200, 200, 200, 200, 200];
+      expect(calculateSeatPlan(required, { leadTimeMonths: 0, termMonths: 6, trueUpIntervalMonths: 3 }).map(m => m.seats))
+        .toEqual([300, 300, 300, 500, 500, 500, 500, 500, 500, 500, 500, 500]);
+    });
+
+    it('should cost the M365 models on the procured seats', () => {
+      const m365Procurement = { leadTimeMonths: 1, termMonths: 12, trueUpIntervalMonths: 12 };
+      const procured = { ...config, hybridM365Users: 200, m365Procurement };
+      const { monthlyData } = calculateProjection(stages, segments, [baseAgent], procured, pricing);
+      const monthly = calculateProjection(stages, segments, [baseAgent], { ...procured, m365Procurement: undefined }, pricing).monthlyData;
+      const seats = calculateSeatPlan(monthlyData.map(m => m.users), m365Procurement);
+
+      expect(monthlyData.map(m => m.m365AllCost)).toEqual(seats.map(m => m.seats * pricing.m365CopilotPrice));
+      monthlyData.forEach((m, idx) => {
+        expect(m.m365AllCost).toBeGreaterThanOrEqual(monthly[idx].m365AllCost);
+        expect(m.paygM365Cost).toBeGreaterThanOrEqual(monthly[idx].paygM365Cost);
+      });
+      expect(validateConfig({ ...config, m365Procurement: { leadTimeMonths: -1, termMonths: 12, trueUpIntervalMonths: 13 } })).toEqual([
+        'm365Procurement.leadTimeMonths must be a whole number between 0 and 12',
+        'm365Procurement.trueUpIntervalMonths must be a whole number between 1 and termMonths'
+      ]);
+    });
+  });
+
+  describe('existing M365 Copilot licenses', () => {
+    // All 20 HQ users of the pilot already hold a license
+    const licensedSegments = segments.map(s => s.id === 'hq' ? { ...s, existingLicenses: 20 } : s);
+    const owned = calculateProjection(stages, licensedSegments, [baseAgent], config, pricing).monthlyData;
+    const { monthlyData } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+
+    it('should bill every model only the usage existing licenses do not cover', () => {
+      expect(owned[0]).toMatchObject({ users: 100, licensedUsers: 20, m365AllCost: 80 * pricing.m365CopilotPrice });
+      // Holders still pay for autonomous actions: 15% of their one action per conversation
+      const holderCredits = monthlyData[0].credits * 0.2 * 0.15 * getEventCredits(pricing, 'agentAction') / calculateAgentCredits(baseAgent, pricing);
+      expect(owned[0].licensedCredits).toBeCloseTo(monthlyData[0].credits * 0.2 - holderCredits, -1);
+      expect(owned[0].credits + owned[0].licensedCredits).toBeCloseTo(monthlyData[0].credits, -1);
+      owned.forEach((m, idx) => {
+        expect(m.paygCost).toBeLessThan(monthlyData[idx].paygCost);
+        expect(m.p3Cost).toBeLessThanOrEqual(monthlyData[idx].p3Cost);
+      });
+    });
+
+    it('should give hybrid licenses to users without one', () => {
+      // The same 20 hybrid seats are bought, now covering field users on top of the licensed HQ users
+      expect(owned[0].paygM365Cost).toBeLessThan(monthlyData[0].paygM365Cost);
+      expect(owned[0].paygM365Cost).toBeGreaterThanOrEqual(20 * pricing.m365CopilotPrice);
+    });
+
+    it('should cost each agent without the usage existing licenses cover', () => {
+      const hqAgent = { ...baseAgent, id: 2, name: 'HQ Desk', segments: ['hq'], eventCounts: { [AUTONOMOUS_TRIGGER_EVENT_ID]: 1 } };
+      const projection = calculateProjection(stages, licensedSegments, [baseAgent, hqAgent], config, pricing);
+
+      projection.agentMonthlyCosts.forEach(({ totalCost }, idx) => {
+        expect(totalCost).toBeCloseTo(projection.monthlyData[idx].paygCost, 0);
+      });
+      // Only the HQ agent's autonomous triggers and actions are billed for the licensed HQ users
+      expect(projection.agentMonthlyCosts[0].agentCosts[1].cost).toBeLessThan(
+        calculateProjection(stages, segments, [baseAgent, hqAgent], config, pricing).agentMonthlyCosts[0].agentCosts[1].cost
+      );
+    });
+
+    it('should cap existing licenses at the rolled-out headcount of the segment', () => {
+      const [month] = calculateProjection(stages, segments.map(s => ({ ...s, existingLicenses: 5000 })), [baseAgent], config, pricing).monthlyData;
+      // No one is left to license; only the holders' autonomous actions are billed
+      expect(month).toMatchObject({ licensedUsers: 100, m365AllCost: 0, paygM365Cost: month.paygCost });
+      expect(month.paygCost).toBeGreaterThan(0);
+      expect(validateSegments([{ id: 'hq', name: 'HQ', share: 1, existingLicenses: -1 }])).toEqual([
+        'HQ: existing licenses must be a non-negative whole number'
+      ]);
+    });
+  });
+
+  describe('projection horizon and budget years', () => {
+    it('should project the configured number of months', () => {
+      const { monthlyData, agentMonthlyCosts } = calculateProjection(stages, segments, [baseAgent], { ...config, horizonMonths: 60 }, pricing);
+      expect(monthlyData).toHaveLength(60);
+      expect(agentMonthlyCosts).toHaveLength(60);
+      expect(getYearLabels(monthlyData)).toEqual(['Year 1', 'Year 2', 'Year 3', 'Year 4', 'Year 5']);
+      expect(getHorizonLabel({ ...config, horizonMonths: 60 })).toBe('5-Year');
+      expect(getHorizonLabel({ ...config, horizonMonths: 18 })).toBe('18-Month');
+    });
+
+    it('should label months from the start date and group them into calendar years', () => {
+      const dated = { ...config, startDate: '2026-10' };
+      expect(getMonthLabel(1, dated)).toBe('Oct 2026');
+      expect(getMonthLabel(4, dated)).toBe('Jan 2027');
+      expect(getYearLabel(3, dated)).toBe('2026');
+      expect(getYearLabel(4, dated)).toBe('2027');
+
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [baseAgent], dated, pricing);
+      expect(getYearLabels(monthlyData)).toEqual(['2026', '2027', '2028', '2029']);
+      expect(pricingSummary[0].years[0]).toBe(monthlyData.slice(0, 3).reduce((acc, m) => acc + m.paygCost, 0));
+    });
+
+    it('should group months into fiscal years named after the year they end in', () => {
+      const fiscal = { ...config, startDate: '2026-01', fiscalYearStartMonth: 7 };
+      expect(getYearLabel(6, fiscal)).toBe('FY2026');
+      expect(getYearLabel(7, fiscal)).toBe('FY2027');
+      expect(getYearLabel(18, fiscal)).toBe('FY2027');
+
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [baseAgent], fiscal, pricing);
+      expect(getYearLabels(monthlyData)).toEqual(['FY2026', 'FY2027', 'FY2028', 'FY2029']);
+      pricingSummary.forEach(summary => {
+        expect(summary.years.reduce((acc, cost) => acc + cost, 0)).toBe(summary.total);
+      });
+    });
+
+    it('should reject horizons, start dates and fiscal years out of range', () => {
+      expect(validateConfig({ ...config, horizonMonths: 72 })).toEqual(['horizonMonths must be a whole number between 12 and 60']);
+      expect(validateConfig({ ...config, startDate: '2026-13' })).toEqual(['startDate must be a month in YYYY-MM format']);
+      expect(validateConfig({ ...config, fiscalYearStartMonth: 0 })).toEqual(['fiscalYearStartMonth must be a whole number between 1 and 12']);
+      expect(validateConfig({ ...config, horizonMonths: 24, startDate: '2026-07', fiscalYearStartMonth: 7 })).toEqual([]);
+    });
+
+    it('should reject negative budgets', () => {
+      expect(validateConfig({ ...config, monthlyBudget: -1, annualBudget: NaN })).toEqual([
+        'monthlyBudget must be a non-negative number',
+        'annualBudget must be a non-negative number'
+      ]);
+      expect(validateConfig({ ...config, monthlyBudget: 0, annualBudget: 250000 })).toEqual([]);
+    });
+  });
+
+  describe('calculateLicensingBreakpoint', () => {
+    it('should report no agents enabled', () => {
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [], config, pricing);
+      const breakpoint = calculateLicensingBreakpoint([], segments, monthlyData, pricingSummary, config, pricing);
+      expect(breakpoint.hasBreakpoint).toBe(false);
+      expect(breakpoint.message).toBe('No agents enabled');
+    });
+
+    it('should find headroom before M365 for All becomes cheaper', () => {
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const breakpoint = calculateLicensingBreakpoint([baseAgent], segments, monthlyData, pricingSummary, config, pricing);
+      expect(breakpoint.hasBreakpoint).toBe(true);
+      expect(breakpoint.additionalAgents).toBeGreaterThan(0);
+      expect(breakpoint.breakpointPaygTotal).toBeGreaterThanOrEqual(breakpoint.currentM365Total);
+    });
+
+    it('should flag when M365 for All is already cheaper', () => {
+      const heavyAgent = { ...baseAgent, conversationsPerDay: 20, tenantGraph: true };
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [heavyAgent], config, pricing);
+      const breakpoint = calculateLicensingBreakpoint([heavyAgent], segments, monthlyData, pricingSummary, config, pricing);
+      expect(breakpoint.additionalAgents).toBe(0);
+      expect(breakpoint.currentPaygTotal).toBeGreaterThanOrEqual(breakpoint.currentM365Total);
+    });
+
+    it('should match the projection when the additional agents are added', () => {
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const breakpoint = calculateLicensingBreakpoint([baseAgent], segments, monthlyData, pricingSummary, config, pricing);
+
+      const withClones = (count: number) => {
+        const clones = Array.from({ length: count }, (_, i) => ({ ...baseAgent, id: 100 + i }));
+        const summary = calculateProjection(stages, segments, [baseAgent, ...clones], config, pricing).pricingSummary;
+        return {
+          payg: summary.find(p => p.model === 'PAYG Alone')!.total,
+          m365: summary.find(p => p.model === 'M365 Copilot for All')!.total
+        };
+      };
+
+      const atBreakpoint = withClones(breakpoint.additionalAgents);
+      const beforeBreakpoint = withClones(breakpoint.additionalAgents - 1);
+      expect(atBreakpoint.payg).toBeGreaterThanOrEqual(atBreakpoint.m365);
+      expect(beforeBreakpoint.payg).toBeLessThan(beforeBreakpoint.m365);
+      expect(breakpoint.costPerAdditionalAgent).toBe(
+        calculateAgentYearSummary([baseAgent], calculateAgentMonthlyCosts([baseAgent], segments, monthlyData, config, pricing))[0].total
+      );
+    });
+
+    it('should answer for a chosen template agent', () => {
+      const lateAgent = { ...baseAgent, id: 2, name: 'Field Expenses', deployMonth: 25, segments: ['field'], enabled: false };
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const average = calculateLicensingBreakpoint([baseAgent, lateAgent], segments, monthlyData, pricingSummary, config, pricing);
+      const late = calculateLicensingBreakpoint([baseAgent, lateAgent], segments, monthlyData, pricingSummary, config, pricing, lateAgent);
+
+      expect(average.templateName).toBe('your average agent');
+      expect(late.templateName).toBe('Field Expenses');
+      expect(late.costPerAdditionalAgent).toBeLessThan(average.costPerAdditionalAgent);
+      expect(late.additionalAgents).toBeGreaterThan(average.additionalAgents);
+      expect(late.message).toContain(`${late.additionalAgents} more agents like Field Expenses`);
+    });
+
+    it('should report no breakpoint when the template adds no cost', () => {
+      const { monthlyData, pricingSummary } = calculateProjection(stages, segments, [baseAgent], config, pricing);
+      const idle = { ...baseAgent, id: 2, name: 'Idle', conversationsPerDay: 0 };
+      const breakpoint = calculateLicensingBreakpoint([baseAgent], segments, monthlyData, pricingSummary, config, pricing, idle);
+      expect(breakpoint.hasBreakpoint).toBe(false);
+      expect(breakpoint.costPerAdditionalAgent).toBe(0);
+    });
+  });
+});
@@ -1,6 +1,16 @@
 // Calculation utilities for Copilot Studio Cost Calculator
 
-export interface MonthlyData {
+import {
+  PricingCatalog,
+  DEFAULT_PRICING_CATALOG,
+  AUTONOMOUS_TRIGGER_EVENT_ID,
+  getEventCredits,
+  getP3Discount,
+  getBreakevenCredits
+} from './pricing';
+import { CurrencySettings, convertCost, getCurrencySymbol, validateCurrencySettings } from './currency';
+
+export interface LegacyMonthlyData {
   month: number;
   year: string;
   adoption: number;
@@ -35,12 +45,203 @@ export interface CalculationParams {
   steadyStateAdoption: number;
 }
 
-// Constants
-export const PAYG_RATE = 0.01;
-export const PACK_COST = 200;
-export const PACK_CREDITS = 25000;
-export const M365_COPILOT_COST = 30;
+// Agent portfolio projection types
+
+// Uncertainty around a point estimate: the estimate is the most likely value within [min, max]
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+export type AgentRangeField = 'conversationsPerDay' | 'turns' | 'generativeRatio' | 'actions';
+
+export const AGENT_RANGE_FIELDS: AgentRangeField[] = ['conversationsPerDay', 'turns', 'generativeRatio', 'actions'];
+
+export interface Stage {
+  name: string;
+  users: number;
+  month: number;
+  dau: number;
+  phase: string;
+  segmentUsers: Record<string, number>;
+  dauRange?: ValueRange;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  share: number;
+  existingLicenses?: number; // users of the segment already holding M365 Copilot licenses; absent: none
+}
+
+// A slice of users and the share of consumption they drive
+export interface UsageBucket {
+  name: string;
+  userShare: number;
+  usageShare: number;
+}
+
+// Capacity packs are bought for a month at a time, or as a fixed count for a whole budget year
+export type PackPeriod = 'monthly' | 'annual';
+
+// Upfront P3 pre-purchase of `credits` for each term of `termMonths`, renewed from month 1 until the end of the projection
+export interface P3Commitment {
+  credits: number;
+  termMonths: number;
+}
+
+// M365 Copilot seats are bought ahead of rollout for fixed terms: they can be added in true-up months and only
+// reduced when the term renews
+export interface M365Procurement {
+  leadTimeMonths: number; // seats are bought this many months before the users who need them arrive
+  termMonths: number; // every term starts at month 1, so terms renew in months 1, 1 + termMonths, ...
+  trueUpIntervalMonths: number; // seats can be added at the start of a term and every this many months into it
+}
+
+export interface Config {
+  autonomousActionRatio: number;
+  hybridM365Users: number;
+  usageDistribution?: UsageBucket[]; // absent: every user consumes the same
+  horizonMonths?: number; // absent: PROJECTION_MONTHS
+  startDate?: string; // 'YYYY-MM' of month 1; absent: years are counted from month 1 ("Year 1")
+  fiscalYearStartMonth?: number; // first calendar month (1-12) of a budget year, with a start date; absent: calendar years
+  packPeriod?: PackPeriod; // how long capacity pack credits last before unused ones expire; absent: 'monthly'
+  p3Commitment?: P3Commitment; // absent: the P3 discount applies to whatever is consumed, as if the commitment matched it exactly
+  m365Procurement?: M365Procurement; // absent: M365 Copilot seats follow the users month by month
+  monthlyBudget?: number; // cap on any one month's cost, in the display currency; absent: no monthly cap
+  annualBudget?: number; // cap on each budget year's cost, partial years included; absent: no annual cap
+  currency?: CurrencySettings; // display currency, which budgets are in too; absent: USD without tax
+}
+
+export interface Agent {
+  id: number;
+  name: string;
+  purpose: string;
+  conversationsPerDay: number;
+  turns: number;
+  generativeRatio: number;
+  actions: number;
+  tenantGraph: boolean;
+  eventCounts: Record<string, number>;
+  deployMonth: number;
+  segments: string[];
+  color: string;
+  enabled: boolean;
+  ranges?: Partial<Record<AgentRangeField, ValueRange>>;
+  actualCredits?: Record<number, number>; // credits consumed per projection month, from imported consumption reports
+}
+
+export interface MonthlyData {
+  month: number;
+  label: string; // 'Jul 2026' with a start date, else 'Month 7'
+  year: string; // budget year the month falls in: 'FY2027', '2026' or 'Year 1'
+  users: number;
+  dau: number;
+  dauPercent: number;
+  activeUsers: number;
+  segmentUsers: Record<string, number>;
+  conversations: number;
+  credits: number; // billed credits: consumption less what existing M365 Copilot licenses cover
+  licensedUsers: number; // users holding existing M365 Copilot licenses
+  licensedCredits: number; // credits covered by existing M365 Copilot licenses, billed to no model
+  paygCost: number;
+  p3Cost: number;
+  paygM365Cost: number;
+  p3M365Cost: number;
+  m365AllCost: number;
+  packs: number; // capacity packs held in the month
+  packCost: number;
+}
+
+// Capacity packs of a month: the cheapest whole number of packs for its period, with unused credits expiring at period end
+export interface PackMonth {
+  month: number;
+  packs: number;
+  usedCredits: number; // credits drawn from packs
+  overageCredits: number; // credits beyond the packs, billed at PAYG
+  expiredCredits: number; // unused pack credits lost at the end of the period (in its last month)
+  cost: number;
+}
+
+// P3 commitment of a month: credits drawn from the term's pre-purchase, PAYG overage once it is used up
+export interface P3CommitmentMonth {
+  month: number;
+  term: number; // 1 for the first term
+  committedCredits: number; // credits bought upfront, in the first month of a term
+  usedCredits: number;
+  overageCredits: number; // billed at PAYG
+  forfeitedCredits: number; // left unused at the end of the term (in its last month)
+  cost: number; // upfront payment in the first month of a term, plus overage
+}
+
+// M365 Copilot seats paid for in a month under the procurement rules, against the seats the users need
+export interface SeatMonth {
+  month: number;
+  requiredSeats: number;
+  seats: number; // seats paid for
+  addedSeats: number; // seats bought this month, all of them at a renewal
+  renewal: boolean; // first month of a term, the only month seats can be reduced
+}
+
+export interface PricingSummary {
+  model: string;
+  years: number[]; // cost per budget year, in getYearLabels order
+  total: number;
+  color: string;
+}
+
+export interface AgentCost {
+  agentId: number;
+  agentName: string;
+  cost: number;
+  color: string;
+}
+
+export interface AgentMonthlyCost {
+  month: number;
+  year: string;
+  agentCosts: AgentCost[];
+  totalCost: number;
+}
+
+export interface AgentYearSummary {
+  agent: Agent;
+  years: number[]; // cost per budget year, in getYearLabels order
+  total: number;
+}
+
+export interface LicensingBreakpoint {
+  currentAgentCount: number;
+  currentPaygTotal: number;
+  currentM365Total: number;
+  breakpointAgentCount: number;
+  breakpointPaygTotal: number;
+  additionalAgents: number;
+  hasBreakpoint: boolean;
+  templateName: string; // profile of the additional agents: a chosen agent or the portfolio average
+  costPerAdditionalAgent: number; // PAYG cost of one more such agent over the projection
+  creditsPerConv?: number;
+  message: string;
+}
+
+export interface Projection {
+  monthlyData: MonthlyData[];
+  pricingSummary: PricingSummary[];
+  agentMonthlyCosts: AgentMonthlyCost[];
+  agentYearSummary: AgentYearSummary[];
+}
+
+// Constants (list prices from the default pricing catalog)
+export const PAYG_RATE = DEFAULT_PRICING_CATALOG.paygRate;
+export const PACK_COST = DEFAULT_PRICING_CATALOG.packPrice;
+export const PACK_CREDITS = DEFAULT_PRICING_CATALOG.packCredits;
+export const M365_COPILOT_COST = DEFAULT_PRICING_CATALOG.m365CopilotPrice;
 export const BREAKEVEN_CREDITS = M365_COPILOT_COST / PAYG_RATE;
+export const WORKING_DAYS_PER_MONTH = 22;
+export const PROJECTION_MONTHS = 36;
+export const MIN_PROJECTION_MONTHS = 12;
+export const MAX_PROJECTION_MONTHS = 60;
+export const STAGE_PHASES = ['Pilot', 'Expansion', 'Management', 'Stores', 'Enterprise'];
 
 // Validation helper
 export const validateNumber = (value: number, min: number, max: number): number => {
@@ -48,16 +249,21 @@ export const validateNumber = (value: number, min: number, max: number): number
   return Math.min(Math.max(num, min), max);
 };
 
-// Format helpers
-export const formatCurrency = (value: number): string => `$${value.toLocaleString()}`;
+// Format helpers. formatAmount formats an amount already in the display currency: whole units from 100, cents below
+// and up to four decimals for per-credit rates. formatCurrency converts a USD cost to the display currency first.
+export const formatAmount = (value: number, currency?: CurrencySettings): string =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 1 ? 4 : Math.abs(value) < 100 ? 2 : 0 })}`;
+export const formatCurrency = (value: number, currency?: CurrencySettings): string => formatAmount(convertCost(value, currency), currency);
 export const formatNumber = (value: number): string => value.toLocaleString();
+// Cost axis ticks in the display currency, without the symbol the axis label carries
+export const formatCostTick = (value: number, currency?: CurrencySettings): string => formatNumber(Math.round(convertCost(value, currency)));
 
 // Calculate monthly projection data
-export const calculateMonthlyData = (params: CalculationParams): MonthlyData[] => {
+export const calculateMonthlyData = (params: CalculationParams, pricing: PricingCatalog = DEFAULT_PRICING_CATALOG): LegacyMonthlyData[] => {
   const { userCount, complexityRatio, simpleCreditsPerUser, complexCreditsPerUser, year1GrowthRate, adoptionCeiling } = params;
   const [simplePercent, complexPercent] = complexityRatio.split('/').map((n: string) => parseInt(n) / 100);
 
-  const data: MonthlyData[] = [];
+  const data: LegacyMonthlyData[] = [];
   let currentAdoption = 10;
 
   for (let month = 1; month <= 24; month++) {
@@ -71,10 +277,10 @@ export const calculateMonthlyData = (params: CalculationParams): MonthlyData[] =
     const totalCredits = activeUsers * creditsPerUserMonth;
 
     // Calculate costs
-    const paygCost = totalCredits * PAYG_RATE;
-    const packsNeeded = Math.ceil(totalCredits / PACK_CREDITS);
-    const packCost = packsNeeded * PACK_COST;
-    const m365Cost = userCount * M365_COPILOT_COST;
+    const paygCost = totalCredits * pricing.paygRate;
+    const packsNeeded = Math.ceil(totalCredits / pricing.packCredits);
+    const packCost = packsNeeded * pricing.packPrice;
+    const m365Cost = userCount * pricing.m365CopilotPrice;
 
     data.push({
       month,
@@ -99,7 +305,8 @@ export const calculateScenarioComparison = (
   complexityScenarios: string[],
   simpleCreditsPerUser: number,
   complexCreditsPerUser: number,
-  steadyStateAdoption: number
+  steadyStateAdoption: number,
+  pricing: PricingCatalog = DEFAULT_PRICING_CATALOG
 ): ScenarioData[] => {
   const results: ScenarioData[] = [];
 
@@ -114,8 +321,8 @@ export const calculateScenarioComparison = (
         const totalCreditsMonth = activeUsers * creditsPerUserMonth;
         const totalCreditsYear = totalCreditsMonth * 12;
 
-        const paygYearlyCost = totalCreditsYear * PAYG_RATE;
-        const m365YearlyCost = users * M365_COPILOT_COST * 12;
+        const paygYearlyCost = totalCreditsYear * pricing.paygRate;
+        const m365YearlyCost = users * pricing.m365CopilotPrice * 12;
 
         results.push({
           users,
@@ -123,7 +330,7 @@ export const calculateScenarioComparison = (
           ratio,
           activeUsers,
           creditsPerUserMonth: Math.round(creditsPerUserMonth),
-          monthlyPayg: Math.round(totalCreditsMonth * PAYG_RATE),
+          monthlyPayg: Math.round(totalCreditsMonth * pricing.paygRate),
           yearlyPayg: Math.round(paygYearlyCost),
           yearlyM365: m365YearlyCost,
           savings: Math.round(m365YearlyCost - paygYearlyCost),
@@ -135,3 +342,994 @@ export const calculateScenarioComparison = (
 
   return results;
 };
+
+// Expected billable events per conversation: core events follow the conversation shape,
+// other event types (agent flows, AI tools, autonomous triggers) come from the agent's explicit counts
+export const calculateAgentEventCounts = (agent: Agent): Record<string, number> => {
+  const generativeAnswers = agent.turns * agent.generativeRatio;
+  return {
+    classicAnswer: agent.turns * (1 - agent.generativeRatio),
+    generativeAnswer: generativeAnswers,
+    agentAction: agent.actions,
+    tenantGraphGrounding: agent.tenantGraph ? generativeAnswers : 0,
+    ...agent.eventCounts
+  };
+};
+
+// Validate audience segments; an empty list means they can be projected
+export const validateSegments = (segments: Segment[]): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  segments.forEach((segment, idx) => {
+    const hasName = typeof segment.name === 'string' && segment.name.trim() !== '';
+    const label = hasName ? segment.name : `Segment ${idx + 1}`;
+    if (!hasName) {
+      errors.push(`Segment ${idx + 1}: name is required`);
+    }
+    if (ids.has(segment.id)) {
+      errors.push(`${label}: id "${segment.id}" is already used`);
+    }
+    ids.add(segment.id);
+    if (typeof segment.id !== 'string' || segment.id === '') {
+      errors.push(`${label}: id must be a non-empty string`);
+    }
+    if (typeof segment.share !== 'number' || isNaN(segment.share) || segment.share < 0 || segment.share > 1) {
+      errors.push(`${label}: share must be between 0% and 100%`);
+    }
+    if (segment.existingLicenses !== undefined && (!Number.isInteger(segment.existingLicenses) || segment.existingLicenses < 0)) {
+      errors.push(`${label}: existing licenses must be a non-negative whole number`);
+    }
+  });
+
+  const totalShare = segments.reduce((sum, segment) => sum + segment.share, 0);
+  if (totalShare > 1 + 1e-9) {
+    errors.push(`Segment shares add up to ${Math.round(totalShare * 100)}%, more than 100% of users`);
+  }
+
+  return errors;
+};
+
+const isNonNegative = (value: unknown): boolean =>
+  typeof value === 'number' && !isNaN(value) && value >= 0;
+
+// An optional range must stay within [0, upper] and include its point estimate
+const isValidRange = (range: ValueRange | undefined, estimate: number, upper = Infinity): boolean =>
+  range === undefined || (
+    typeof range === 'object' && range !== null &&
+    isNonNegative(range.min) && isNonNegative(range.max) &&
+    range.min <= estimate && estimate <= range.max && range.max <= upper
+  );
+
+// Validate the uncertainty ranges of an agent's usage estimates
+export const validateAgentRanges = (agent: Agent, label = agent.name): string[] => {
+  if (agent.ranges === undefined) return [];
+  if (typeof agent.ranges !== 'object' || agent.ranges === null) {
+    return [`${label}: ranges must map usage fields to min/max ranges`];
+  }
+
+  return AGENT_RANGE_FIELDS
+    .filter(field => isNonNegative(agent[field]) && !isValidRange(agent.ranges?.[field], agent[field], field === 'generativeRatio' ? 1 : Infinity))
+    .map(field => field === 'generativeRatio'
+      ? `${label}: generativeRatio range must include the estimate and stay between 0 and 1`
+      : `${label}: ${field} range must be non-negative and include the estimate`);
+};
+
+// Validate a rollout calendar; an empty list means the stages can be projected
+export const validateStages = (stages: Stage[], segments: Segment[] = []): string[] => {
+  if (stages.length === 0) {
+    return ['At least one deployment stage is required'];
+  }
+
+  const errors: string[] = [];
+  stages.forEach((stage, idx) => {
+    const hasName = typeof stage.name === 'string' && stage.name.trim() !== '';
+    const label = hasName ? stage.name : `Stage ${idx + 1}`;
+    const previous = stages[idx - 1];
+
+    if (!hasName) {
+      errors.push(`Stage ${idx + 1}: name is required`);
+    }
+    if (!Number.isInteger(stage.month) || stage.month < 1) {
+      errors.push(`${label}: start month must be a whole number of at least 1`);
+    } else if (previous && stage.month <= previous.month) {
+      errors.push(`${label}: start month must be after month ${previous.month}`);
+    }
+    if (typeof stage.users !== 'number' || isNaN(stage.users) || stage.users < 0) {
+      errors.push(`${label}: users cannot be negative`);
+    }
+    if (typeof stage.dau !== 'number' || isNaN(stage.dau) || stage.dau < 0 || stage.dau > 1) {
+      errors.push(`${label}: DAU must be between 0% and 100%`);
+    } else if (!isValidRange(stage.dauRange, stage.dau, 1)) {
+      errors.push(`${label}: DAU range must include the stage DAU and stay between 0% and 100%`);
+    }
+    if (!stage.segmentUsers || typeof stage.segmentUsers !== 'object') {
+      errors.push(`${label}: segmentUsers must map segment ids to headcounts`);
+      return;
+    }
+
+    const segmentTotal = segments.reduce((sum, segment) => sum + getStageSegmentUsers(stage, segment), 0);
+    if (segments.some(segment => (stage.segmentUsers[segment.id] ?? 0) < 0)) {
+      errors.push(`${label}: segment headcounts cannot be negative`);
+    } else if (stage.users >= 0 && segmentTotal > stage.users) {
+      errors.push(`${label}: segment headcounts (${segmentTotal}) exceed the stage's ${stage.users} users`);
+    }
+  });
+
+  return errors;
+};
+
+// Validate an agent portfolio against the segments it may target
+export const validateAgents = (agents: Agent[], segments: Segment[] = []): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<number>();
+  const segmentIds = new Set(segments.map(s => s.id));
+
+  agents.forEach((agent, idx) => {
+    const label = typeof agent.name === 'string' && agent.name.trim() ? agent.name : `Agent ${idx + 1}`;
+
+    if (!Number.isInteger(agent.id)) {
+      errors.push(`${label}: id must be a whole number`);
+    } else if (ids.has(agent.id)) {
+      errors.push(`${label}: id ${agent.id} is already used`);
+    }
+    ids.add(agent.id);
+    if (typeof agent.name !== 'string' || !agent.name.trim()) {
+      errors.push(`${label}: name is required`);
+    }
+    (['conversationsPerDay', 'turns', 'actions'] as const).forEach(key => {
+      if (!isNonNegative(agent[key])) {
+        errors.push(`${label}: ${key} must be a non-negative number`);
+      }
+    });
+    if (!isNonNegative(agent.generativeRatio) || agent.generativeRatio > 1) {
+      errors.push(`${label}: generativeRatio must be between 0 and 1`);
+    }
+    errors.push(...validateAgentRanges(agent, label));
+    if (!Number.isInteger(agent.deployMonth) || agent.deployMonth < 1) {
+      errors.push(`${label}: deployMonth must be a whole number of at least 1`);
+    }
+    if (typeof agent.tenantGraph !== 'boolean' || typeof agent.enabled !== 'boolean') {
+      errors.push(`${label}: tenantGraph and enabled must be true or false`);
+    }
+    if (!agent.eventCounts || typeof agent.eventCounts !== 'object' || !Object.values(agent.eventCounts).every(isNonNegative)) {
+      errors.push(`${label}: eventCounts must map event ids to non-negative numbers`);
+    }
+    if (agent.actualCredits !== undefined && (
+      !agent.actualCredits ||
+      typeof agent.actualCredits !== 'object' ||
+      !Object.entries(agent.actualCredits).every(([month, credits]) => Number(month) >= 1 && Number.isInteger(Number(month)) && isNonNegative(credits))
+    )) {
+      errors.push(`${label}: actualCredits must map months (1 or later) to non-negative credits`);
+    }
+    if (!Array.isArray(agent.segments)) {
+      errors.push(`${label}: segments must be a list of segment ids`);
+    } else {
+      agent.segments.filter(id => !segmentIds.has(id)).forEach(id => {
+        errors.push(`${label}: unknown segment "${id}"`);
+      });
+    }
+  });
+
+  return errors;
+};
+
+// Validate usage buckets; both the user shares and the usage shares must add up to 100%
+export const validateUsageDistribution = (buckets: UsageBucket[]): string[] => {
+  if (!Array.isArray(buckets) || buckets.length === 0) {
+    return ['usageDistribution must be a non-empty list of user buckets'];
+  }
+
+  const errors: string[] = [];
+  buckets.forEach((bucket, idx) => {
+    const hasName = typeof bucket.name === 'string' && bucket.name.trim() !== '';
+    const label = hasName ? bucket.name : `Usage bucket ${idx + 1}`;
+    if (!hasName) {
+      errors.push(`Usage bucket ${idx + 1}: name is required`);
+    }
+    if (!isNonNegative(bucket.userShare) || bucket.userShare === 0 || bucket.userShare > 1) {
+      errors.push(`${label}: user share must be above 0% and at most 100%`);
+    }
+    if (!isNonNegative(bucket.usageShare) || bucket.usageShare > 1) {
+      errors.push(`${label}: usage share must be between 0% and 100%`);
+    }
+  });
+
+  (['userShare', 'usageShare'] as const).forEach(key => {
+    const total = buckets.reduce((sum, bucket) => sum + (bucket[key] || 0), 0);
+    if (Math.abs(total - 1) > 1e-6) {
+      errors.push(`Bucket ${key === 'userShare' ? 'user' : 'usage'} shares add up to ${Math.round(total * 100)}%, not 100%`);
+    }
+  });
+
+  return errors;
+};
+
+export const validateConfig = (config: Config): string[] => {
+  const errors: string[] = [];
+  if (!isNonNegative(config.autonomousActionRatio) || config.autonomousActionRatio > 1) {
+    errors.push('autonomousActionRatio must be between 0 and 1');
+  }
+  if (!Number.isInteger(config.hybridM365Users) || config.hybridM365Users < 0) {
+    errors.push('hybridM365Users must be a non-negative whole number');
+  }
+  if (config.usageDistribution !== undefined) {
+    errors.push(...validateUsageDistribution(config.usageDistribution));
+  }
+  if (config.horizonMonths !== undefined && (
+    !Number.isInteger(config.horizonMonths) ||
+    config.horizonMonths < MIN_PROJECTION_MONTHS ||
+    config.horizonMonths > MAX_PROJECTION_MONTHS
+  )) {
+    errors.push(`horizonMonths must be a whole number between ${MIN_PROJECTION_MONTHS} and ${MAX_PROJECTION_MONTHS}`);
+  }
+  if (config.startDate !== undefined && (typeof config.startDate !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(config.startDate))) {
+    errors.push('startDate must be a month in YYYY-MM format');
+  }
+  if (config.fiscalYearStartMonth !== undefined && (
+    !Number.isInteger(config.fiscalYearStartMonth) ||
+    config.fiscalYearStartMonth < 1 ||
+    config.fiscalYearStartMonth > 12
+  )) {
+    errors.push('fiscalYearStartMonth must be a whole number between 1 and 12');
+  }
+  if (config.packPeriod !== undefined && config.packPeriod !== 'monthly' && config.packPeriod !== 'annual') {
+    errors.push('packPeriod must be "monthly" or "annual"');
+  }
+  if (config.p3Commitment !== undefined) {
+    if (!isNonNegative(config.p3Commitment?.credits)) {
+      errors.push('p3Commitment.credits must be a non-negative number');
+    }
+    if (!Number.isInteger(config.p3Commitment?.termMonths) || config.p3Commitment.termMonths < 1 || config.p3Commitment.termMonths > MAX_PROJECTION_MONTHS) {
+      errors.push(`p3Commitment.termMonths must be a whole number between 1 and ${MAX_PROJECTION_MONTHS}`);
+    }
+  }
+  if (config.m365Procurement !== undefined) {
+    const { leadTimeMonths, termMonths, trueUpIntervalMonths } = config.m365Procurement || {};
+    if (!Number.isInteger(leadTimeMonths) || leadTimeMonths < 0 || leadTimeMonths > 12) {
+      errors.push('m365Procurement.leadTimeMonths must be a whole number between 0 and 12');
+    }
+    if (!Number.isInteger(termMonths) || termMonths < 1 || termMonths > MAX_PROJECTION_MONTHS) {
+      errors.push(`m365Procurement.termMonths must be a whole number between 1 and ${MAX_PROJECTION_MONTHS}`);
+    }
+    if (!Number.isInteger(trueUpIntervalMonths) || trueUpIntervalMonths < 1 || trueUpIntervalMonths > termMonths) {
+      errors.push('m365Procurement.trueUpIntervalMonths must be a whole number between 1 and termMonths');
+    }
+  }
+  if (config.currency !== undefined) {
+    errors.push(...validateCurrencySettings(config.currency));
+  }
+  if (config.monthlyBudget !== undefined && !isNonNegative(config.monthlyBudget)) {
+    errors.push('monthlyBudget must be a non-negative number');
+  }
+  if (config.annualBudget !== undefined && !isNonNegative(config.annualBudget)) {
+    errors.push('annualBudget must be a non-negative number');
+  }
+  return errors;
+};
+
+export const UNIFORM_USAGE_DISTRIBUTION: UsageBucket[] = [{ name: 'All users', userShare: 1, usageShare: 1 }];
+
+// Equal-headcount buckets on the Lorenz curve of a Pareto distribution in which
+// the top `topUserShare` of users drive `topUsageShare` of consumption (0.2 and 0.8 for the 80/20 rule)
+export const createParetoDistribution = (topUserShare = 0.2, topUsageShare = 0.8, bucketCount = 5): UsageBucket[] => {
+  const exponent = Math.log(topUsageShare) / Math.log(topUserShare);
+  const topShare = (userShare: number): number => Math.pow(userShare, exponent);
+
+  return Array.from({ length: bucketCount }, (_, idx) => {
+    const from = idx / bucketCount;
+    const to = (idx + 1) / bucketCount;
+    return {
+      name: idx === 0 ? `Top ${Math.round(to * 100)}%` : `${Math.round(from * 100)}–${Math.round(to * 100)}%`,
+      userShare: to - from,
+      usageShare: topShare(to) - topShare(from)
+    };
+  });
+};
+
+// Buckets from the heaviest users per head to the lightest
+const sortByIntensity = (buckets: UsageBucket[]): UsageBucket[] =>
+  [...buckets].sort((a, b) => b.usageShare / b.userShare - a.usageShare / a.userShare);
+
+// Share of consumption driven by the heaviest `userShare` of users
+export const getTopUsageShare = (buckets: UsageBucket[], userShare: number): number => {
+  let remaining = userShare;
+  let usage = 0;
+  sortByIntensity(buckets).forEach(bucket => {
+    const taken = Math.min(remaining, bucket.userShare);
+    if (taken <= 0) return;
+    usage += bucket.usageShare * (taken / bucket.userShare);
+    remaining -= taken;
+  });
+  return Math.min(1, usage);
+};
+
+export interface BucketBreakeven {
+  name: string;
+  userShare: number;
+  usageShare: number;
+  users: number;
+  creditsPerUser: number;
+  aboveBreakeven: boolean; // a license costs less than these users' PAYG credits
+}
+
+// Monthly credits per user of each bucket, heaviest first, against the license breakeven
+export const calculateBucketBreakeven = (
+  buckets: UsageBucket[],
+  monthData: Pick<MonthlyData, 'users' | 'credits'>,
+  pricing: PricingCatalog
+): BucketBreakeven[] =>
+  sortByIntensity(buckets).map(({ name, userShare, usageShare }) => {
+    const users = Math.round(monthData.users * userShare);
+    const creditsPerUser = users > 0 ? monthData.credits * usageShare / users : 0;
+    return { name, userShare, usageShare, users, creditsPerUser, aboveBreakeven: creditsPerUser > getBreakevenCredits(pricing) };
+  });
+
+// Credits consumed by a single conversation with the agent
+export const calculateAgentCredits = (agent: Agent, pricing: PricingCatalog): number =>
+  Object.entries(calculateAgentEventCounts(agent))
+    .reduce((sum, [eventId, count]) => sum + count * getEventCredits(pricing, eventId), 0);
+
+// Credits per conversation from autonomous triggers, which M365 Copilot licenses do not cover
+const calculateAgentAutonomousCredits = (agent: Agent, pricing: PricingCatalog): number =>
+  (agent.eventCounts[AUTONOMOUS_TRIGGER_EVENT_ID] || 0) * getEventCredits(pricing, AUTONOMOUS_TRIGGER_EVENT_ID);
+
+// Linear interpolation between the stages surrounding a month
+export const interpolateValue = (month: number, stagesBefore: Stage[], stagesAfter: Stage[], getValue: (stage: Stage) => number): number => {
+  const beforeStage = stagesBefore[stagesBefore.length - 1];
+  const afterStage = stagesAfter[0];
+
+  if (!beforeStage) return getValue(afterStage);
+  if (!afterStage) return getValue(beforeStage);
+
+  const monthRange = afterStage.month - beforeStage.month;
+  const monthProgress = month - beforeStage.month;
+  const ratio = monthProgress / monthRange;
+
+  const beforeValue = getValue(beforeStage);
+  const afterValue = getValue(afterStage);
+
+  return beforeValue + (afterValue - beforeValue) * ratio;
+};
+
+// Headcount of a segment at a stage: its explicit headcount, else its share of the stage's users
+export const getStageSegmentUsers = (stage: Stage, segment: Segment): number =>
+  stage.segmentUsers[segment.id] ?? Math.round(stage.users * segment.share);
+
+// Users with access to an agent: the combined headcount of the segments it targets
+export const calculateEligibleUsers = (agentSegments: string[], segmentUsers: Record<string, number>, users: number): number =>
+  Math.min(users, agentSegments.reduce((sum, segmentId) => sum + (segmentUsers[segmentId] || 0), 0));
+
+export const getHorizonMonths = (config: Config): number => config.horizonMonths ?? PROJECTION_MONTHS;
+
+// '3-Year' for whole years, else '30-Month'
+export const getHorizonLabel = (config: Config): string => {
+  const months = getHorizonMonths(config);
+  return months % 12 === 0 ? `${months / 12}-Year` : `${months}-Month`;
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Calendar year and month (1-12) of a projection month, counted from the 'YYYY-MM' start date
+const getCalendarMonth = (startDate: string, month: number): { year: number; month: number } => {
+  const [startYear, startMonth] = startDate.split('-').map(Number);
+  const index = startYear * 12 + (startMonth - 1) + (month - 1);
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+export const getMonthLabel = (month: number, config: Config): string => {
+  if (!config.startDate) return `Month ${month}`;
+  const calendar = getCalendarMonth(config.startDate, month);
+  return `${MONTH_NAMES[calendar.month - 1]} ${calendar.year}`;
+};
+
+// Budget year of a projection month. Fiscal years are named after the calendar year they end in (July 2026–June 2027 is FY2027).
+export const getYearLabel = (month: number, config: Config): string => {
+  if (!config.startDate) return `Year ${Math.ceil(month / 12)}`;
+
+  const calendar = getCalendarMonth(config.startDate, month);
+  const fiscalYearStart = config.fiscalYearStartMonth ?? 1;
+  if (fiscalYearStart === 1) return `${calendar.year}`;
+  return `FY${calendar.month >= fiscalYearStart ? calendar.year + 1 : calendar.year}`;
+};
+
+export const getBudgetYearDescription = (config: Config): string => {
+  const fiscalYearStart = config.fiscalYearStartMonth ?? 1;
+  if (!config.startDate) return 'years counted from month 1';
+  if (fiscalYearStart === 1) return 'calendar years';
+  return `fiscal years ${MONTH_NAMES[fiscalYearStart - 1]}–${MONTH_NAMES[fiscalYearStart - 2]}`;
+};
+
+// Budget years covered by a projection, in order; partial years at either end included
+export const getYearLabels = (months: { year: string }[]): string[] =>
+  months.reduce<string[]>((labels, { year }) => labels.includes(year) ? labels : [...labels, year], []);
+
+// Usage of one audience segment in a month
+export interface SegmentUsage {
+  users: number;
+  credits: number;
+  actions: number;
+  autonomousCredits: number;
+}
+
+// Segment usage is that of users without an existing M365 Copilot license; `licensed` is that of all users with one
+export interface MonthSegmentUsage {
+  month: number;
+  users: number;
+  segments: Record<string, SegmentUsage>;
+  licensed: SegmentUsage;
+}
+
+// Credits and actions are those of users without an existing license, as in MonthSegmentUsage
+interface MonthUsage {
+  month: number;
+  users: number;
+  dau: number;
+  activeUsers: number;
+  segmentUsers: Record<string, number>;
+  segmentUsage: Record<string, SegmentUsage>;
+  conversations: number;
+  credits: number;
+  actions: number;
+  autonomousCredits: number;
+  licensed: SegmentUsage;
+}
+
+// Interpolate the rollout and aggregate conversations, credits and actions across enabled agents
+const calculateMonthUsage = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  pricing: PricingCatalog,
+  month: number
+): MonthUsage => {
+  // Find stages before and after this month
+  const stagesBefore = stages.filter(s => s.month <= month);
+  const stagesAfter = stages.filter(s => s.month > month);
+
+  // Interpolate users and DAU
+  const users = Math.round(interpolateValue(month, stagesBefore, stagesAfter, s => s.users));
+  const dau = interpolateValue(month, stagesBefore, stagesAfter, s => s.dau);
+
+  // Interpolate each segment's headcount the same way
+  const segmentUsers: Record<string, number> = {};
+  segments.forEach(segment => {
+    segmentUsers[segment.id] = Math.round(
+      interpolateValue(month, stagesBefore, stagesAfter, s => getStageSegmentUsers(s, segment))
+    );
+  });
+
+  let conversations = 0;
+  let credits = 0;
+  let actions = 0; // For M365 hybrid model autonomous actions
+  let autonomousCredits = 0;
+
+  const segmentUsage: Record<string, SegmentUsage> = {};
+  segments.forEach(segment => {
+    segmentUsage[segment.id] = { users: segmentUsers[segment.id], credits: 0, actions: 0, autonomousCredits: 0 };
+  });
+
+  agents.forEach(agent => {
+    // Only include enabled agents that have been deployed
+    if (!agent.enabled || month < agent.deployMonth) {
+      return;
+    }
+
+    const eligibleUsers = calculateEligibleUsers(agent.segments, segmentUsers, users);
+    const agentActiveUsers = Math.round(eligibleUsers * dau);
+    const agentConversations = agentActiveUsers * agent.conversationsPerDay * WORKING_DAYS_PER_MONTH;
+
+    const agentCredits = agentConversations * calculateAgentCredits(agent, pricing);
+    const agentAutonomousCredits = agentConversations * calculateAgentAutonomousCredits(agent, pricing);
+
+    conversations += agentConversations;
+    credits += agentCredits;
+    actions += agentConversations * agent.actions;
+    autonomousCredits += agentAutonomousCredits;
+
+    // Attribute the agent's usage to its segments in proportion to their headcount
+    const targetedUsers = agent.segments.reduce((sum, segmentId) => sum + (segmentUsers[segmentId] || 0), 0);
+    agent.segments.forEach(segmentId => {
+      const usage = segmentUsage[segmentId];
+      if (!usage || targetedUsers === 0) return;
+      const share = usage.users / targetedUsers;
+      usage.credits += agentCredits * share;
+      usage.actions += agentConversations * agent.actions * share;
+      usage.autonomousCredits += agentAutonomousCredits * share;
+    });
+  });
+
+  // Existing license holders are part of their segment's headcount and use its agents like everyone else in it
+  const licensed: SegmentUsage = { users: 0, credits: 0, actions: 0, autonomousCredits: 0 };
+  segments.forEach(segment => {
+    const usage = segmentUsage[segment.id];
+    const holders = Math.min(segment.existingLicenses || 0, usage.users);
+    if (holders === 0) return;
+    const share = holders / usage.users;
+    licensed.users += holders;
+    licensed.credits += usage.credits * share;
+    licensed.actions += usage.actions * share;
+    licensed.autonomousCredits += usage.autonomousCredits * share;
+    segmentUsage[segment.id] = {
+      users: usage.users - holders,
+      credits: usage.credits * (1 - share),
+      actions: usage.actions * (1 - share),
+      autonomousCredits: usage.autonomousCredits * (1 - share)
+    };
+  });
+
+  return {
+    month,
+    users,
+    dau,
+    activeUsers: Math.round(users * dau),
+    segmentUsers,
+    segmentUsage,
+    conversations,
+    credits: credits - licensed.credits,
+    actions: actions - licensed.actions,
+    autonomousCredits: autonomousCredits - licensed.autonomousCredits,
+    licensed
+  };
+};
+
+// Usage of each audience segment per month, for analyses that treat segments differently
+export const calculateMonthlySegmentUsage = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  pricing: PricingCatalog,
+  months: number = PROJECTION_MONTHS
+): MonthSegmentUsage[] =>
+  Array.from({ length: months }, (_, idx) => {
+    const { month, users, segmentUsage, licensed } = calculateMonthUsage(stages, segments, agents, pricing, idx + 1);
+    return { month, users, segments: segmentUsage, licensed };
+  });
+
+// Cheapest whole number of packs held for `months` months to cover `credits`, with PAYG for the rest;
+// only the counts around an exact fit can be cheapest, as the cost is linear between them. Ties go to fewer packs.
+const cheapestPackCount = (credits: number, months: number, pricing: PricingCatalog): number => {
+  const periodCredits = pricing.packCredits * months;
+  const cost = (packs: number): number =>
+    packs * pricing.packPrice * months + Math.max(0, credits - packs * periodCredits) * pricing.paygRate;
+
+  return [Math.floor(credits / periodCredits), Math.ceil(credits / periodCredits)]
+    .reduce((best, packs) => cost(packs) < cost(best) ? packs : best, 0);
+};
+
+// Capacity packs per month for the credit curve. Monthly packs are sized to each month; annual packs are one count
+// for each budget year (partial years included) whose credits are pooled over the year and expire at its end.
+export const calculatePackPlan = (
+  months: { month: number; year: string; credits: number }[],
+  config: Config,
+  pricing: PricingCatalog
+): PackMonth[] => {
+  const periods = (config.packPeriod ?? 'monthly') === 'annual'
+    ? getYearLabels(months).map(year => months.filter(m => m.year === year))
+    : months.map(m => [m]);
+
+  return periods.flatMap(period => {
+    const packs = cheapestPackCount(period.reduce((sum, m) => sum + m.credits, 0), period.length, pricing);
+    let remaining = packs * pricing.packCredits * period.length;
+
+    return period.map(({ month, credits }, idx): PackMonth => {
+      const usedCredits = Math.min(credits, remaining);
+      remaining -= usedCredits;
+      const overageCredits = credits - usedCredits;
+      return {
+        month,
+        packs,
+        usedCredits,
+        overageCredits,
+        expiredCredits: idx === period.length - 1 ? remaining : 0,
+        cost: packs * pricing.packPrice + overageCredits * pricing.paygRate
+      };
+    });
+  });
+};
+
+// P3 discount tiers are by annual volume, so a commitment is placed by its credits per 12 months of term
+export const getP3CommitmentDiscount = (commitment: P3Commitment, pricing: PricingCatalog): number =>
+  getP3Discount(pricing, commitment.credits * 12 / commitment.termMonths);
+
+// Draw each month's credits from the commitment of its term; a term running past the projection is bought pro rata
+export const calculateP3CommitmentPlan = (
+  monthlyCredits: number[],
+  commitment: P3Commitment,
+  pricing: PricingCatalog
+): P3CommitmentMonth[] => {
+  const { termMonths } = commitment;
+  const rate = pricing.paygRate * (1 - getP3CommitmentDiscount(commitment, pricing));
+  let remaining = 0;
+
+  return monthlyCredits.map((credits, idx): P3CommitmentMonth => {
+    const termStart = idx % termMonths === 0;
+    const termEnd = (idx + 1) % termMonths === 0 || idx === monthlyCredits.length - 1;
+    const committedCredits = termStart ? commitment.credits * Math.min(termMonths, monthlyCredits.length - idx) / termMonths : 0;
+    if (termStart) remaining = committedCredits;
+
+    const usedCredits = Math.min(credits, remaining);
+    remaining -= usedCredits;
+    const overageCredits = credits - usedCredits;
+    return {
+      month: idx + 1,
+      term: Math.floor(idx / termMonths) + 1,
+      committedCredits,
+      usedCredits,
+      overageCredits,
+      forfeitedCredits: termEnd ? remaining : 0,
+      cost: committedCredits * rate + overageCredits * pricing.paygRate
+    };
+  });
+};
+
+// Commitment per term with the lowest total cost for a credit curve. Between each term's consumption and the tier
+// thresholds the cost is linear in the commitment, so only those sizes need comparing; ties go to the smaller commitment.
+export const recommendP3Commitment = (monthlyCredits: number[], termMonths: number, pricing: PricingCatalog): P3Commitment => {
+  const termConsumption = Array.from({ length: Math.ceil(monthlyCredits.length / termMonths) }, (_, term) => {
+    const months = monthlyCredits.slice(term * termMonths, (term + 1) * termMonths);
+    return months.reduce((sum, credits) => sum + credits, 0) * termMonths / months.length;
+  });
+  const candidates = [
+    0,
+    ...termConsumption.map(credits => Math.ceil(credits)),
+    ...pricing.p3DiscountTiers.map(tier => Math.ceil(tier.minAnnualCredits * termMonths / 12))
+  ];
+  const totalCost = (credits: number): number =>
+    calculateP3CommitmentPlan(monthlyCredits, { credits, termMonths }, pricing).reduce((sum, m) => sum + m.cost, 0);
+
+  const costs = new Map(candidates.map(credits => [credits, totalCost(credits)]));
+  const credits = [...costs.keys()].sort((a, b) => a - b).reduce((best, c) => costs.get(c)! < costs.get(best)! ? c : best);
+  return { credits, termMonths };
+};
+
+// Seats paid for each month to cover `requiredSeats`. Seats bought in a purchase month (a renewal or true-up) must last
+// until those bought in the next one are available, `leadTimeMonths` later; only a renewal can bring the count down.
+export const calculateSeatPlan = (requiredSeats: number[], procurement: M365Procurement): SeatMonth[] => {
+  const { leadTimeMonths, termMonths, trueUpIntervalMonths } = procurement;
+  const isPurchaseMonth = (idx: number): boolean => idx % termMonths % trueUpIntervalMonths === 0;
+  let seats = 0;
+
+  return requiredSeats.map((required, idx): SeatMonth => {
+    const renewal = idx % termMonths === 0;
+    const previous = renewal ? 0 : seats;
+    if (isPurchaseMonth(idx)) {
+      let next = idx + 1;
+      while (next < requiredSeats.length && !isPurchaseMonth(next)) next++;
+      const needed = Math.ceil(Math.max(0, ...requiredSeats.slice(idx, next + leadTimeMonths)));
+      seats = Math.max(previous, needed);
+    }
+    return { month: idx + 1, requiredSeats: required, seats, addedSeats: Math.max(0, seats - previous), renewal };
+  });
+};
+
+// Credits of licensed users that M365 Copilot does not cover: autonomous actions and triggers
+const calculateAutonomousCredits = (
+  { actions, autonomousCredits }: Pick<SegmentUsage, 'actions' | 'autonomousCredits'>,
+  config: Config,
+  pricing: PricingCatalog
+): number => actions * config.autonomousActionRatio * getEventCredits(pricing, 'agentAction') + autonomousCredits;
+
+// Credits billed to the hybrid models: licensed users only pay for autonomous actions and triggers. Hybrid licenses
+// go to users without an existing one; the autonomous credits of existing holders are added in calculateProjectionMonths.
+const calculateHybridUsage = (
+  { users, licensed, credits, actions, autonomousCredits }: MonthUsage,
+  config: Config,
+  pricing: PricingCatalog
+): { m365Users: number; billedCredits: number } => {
+  const unlicensedUsers = users - licensed.users;
+  const m365Users = Math.min(config.hybridM365Users, unlicensedUsers);
+
+  // Licenses go to the heaviest users first, so they cover the top of the usage distribution
+  const licensedUsage = unlicensedUsers > 0
+    ? getTopUsageShare(config.usageDistribution || UNIFORM_USAGE_DISTRIBUTION, m365Users / unlicensedUsers)
+    : 0;
+  const paygCredits = credits * (1 - licensedUsage);
+  const m365AutonomousCredits = calculateAutonomousCredits({ actions, autonomousCredits }, config, pricing) * licensedUsage;
+
+  return { m365Users, billedCredits: m365AutonomousCredits + paygCredits };
+};
+
+// Calculate monthly projections over the configured horizon (aggregated from all agents)
+export const calculateProjectionMonths = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog
+): MonthlyData[] => {
+  const usage: MonthUsage[] = [];
+  for (let month = 1; month <= getHorizonMonths(config); month++) {
+    usage.push(calculateMonthUsage(stages, segments, agents, pricing, month));
+  }
+
+  // Existing licenses are owned whichever model is chosen, so every model is billed only what they do not cover
+  const holderCredits = usage.map(u => calculateAutonomousCredits(u.licensed, config, pricing));
+  const billedCredits = usage.map((u, idx) => u.credits + holderCredits[idx]);
+
+  // P3 plans are sized per budget year, so the discount tier follows each year's credit volume
+  const yearCredits = new Map<string, number>();
+  usage.forEach((u, idx) => {
+    const year = getYearLabel(u.month, config);
+    yearCredits.set(year, (yearCredits.get(year) || 0) + billedCredits[idx]);
+  });
+
+  // Packs and P3 commitments are sized to the reported (whole) credits, so their plans can be rebuilt from MonthlyData
+  const packPlan = calculatePackPlan(
+    usage.map((u, idx) => ({ month: u.month, year: getYearLabel(u.month, config), credits: Math.round(billedCredits[idx]) })),
+    config,
+    pricing
+  );
+  const hybridUsage = usage.map((u, idx) => {
+    const hybrid = calculateHybridUsage(u, config, pricing);
+    return { ...hybrid, billedCredits: hybrid.billedCredits + holderCredits[idx] };
+  });
+  const commitment = config.p3Commitment;
+  const p3Plan = commitment && calculateP3CommitmentPlan(billedCredits.map(Math.round), commitment, pricing);
+  const p3HybridPlan = commitment && calculateP3CommitmentPlan(hybridUsage.map(h => Math.round(h.billedCredits)), commitment, pricing);
+  const procurement = config.m365Procurement;
+  const allSeatPlan = procurement && calculateSeatPlan(usage.map(u => u.users - u.licensed.users), procurement);
+  const hybridSeatPlan = procurement && calculateSeatPlan(hybridUsage.map(h => h.m365Users), procurement);
+
+  return usage.map(({ month, users, dau, activeUsers, segmentUsers, conversations, licensed }, idx) => {
+    const year = getYearLabel(month, config);
+    const credits = billedCredits[idx];
+    const p3Rate = pricing.paygRate * (1 - getP3Discount(pricing, yearCredits.get(year) || 0));
+
+    // Model 1: PAYG Alone
+    const paygCost = credits * pricing.paygRate;
+
+    // Model 2: P3 Pre-Purchase, on the commitment when one is set
+    const p3Cost = p3Plan ? p3Plan[idx].cost : credits * p3Rate;
+
+    // Model 3 & 4: PAYG/P3 + M365 Licenses (hybrid); unused procured seats cover no credits
+    const { m365Users, billedCredits: hybridCredits } = hybridUsage[idx];
+    const licenseCost = (hybridSeatPlan ? hybridSeatPlan[idx].seats : m365Users) * pricing.m365CopilotPrice;
+
+    const paygM365Cost = licenseCost + (hybridCredits * pricing.paygRate);
+    const p3M365Cost = licenseCost + (p3HybridPlan ? p3HybridPlan[idx].cost : hybridCredits * p3Rate);
+
+    // Model 5: M365 Copilot for All, for the users without a license, on the seats procured when procurement rules are set
+    const m365AllCost = (allSeatPlan ? allSeatPlan[idx].seats : users - licensed.users) * pricing.m365CopilotPrice;
+
+    // Model 6: Capacity Packs, with PAYG overage
+    const { packs, cost: packCost } = packPlan[idx];
+
+    return {
+      month,
+      label: getMonthLabel(month, config),
+      year,
+      users,
+      dau,
+      dauPercent: dau * 100,
+      activeUsers,
+      segmentUsers,
+      conversations: Math.round(conversations),
+      credits: Math.round(credits),
+      licensedUsers: licensed.users,
+      licensedCredits: Math.round(licensed.credits - holderCredits[idx]),
+      paygCost: Math.round(paygCost),
+      p3Cost: Math.round(p3Cost),
+      paygM365Cost: Math.round(paygM365Cost),
+      p3M365Cost: Math.round(p3M365Cost),
+      m365AllCost: Math.round(m365AllCost),
+      packs,
+      packCost: Math.round(packCost)
+    };
+  });
+};
+
+// Pricing models shown in the summary, keyed by their MonthlyData cost field
+export const PRICING_MODELS: { model: string; key: keyof MonthlyData; color: string }[] = [
+  { model: 'PAYG Alone', key: 'paygCost', color: '#3b82f6' },
+  { model: 'P3 Pre-Purchase', key: 'p3Cost', color: '#8b5cf6' },
+  { model: 'PAYG + M365 Licenses', key: 'paygM365Cost', color: '#10b981' },
+  { model: 'P3 + M365 Licenses', key: 'p3M365Cost', color: '#f59e0b' },
+  { model: 'M365 Copilot for All', key: 'm365AllCost', color: '#ef4444' },
+  { model: 'Capacity Packs', key: 'packCost', color: '#14b8a6' }
+];
+
+// Sum a cost per budget year, in getYearLabels order
+const sumByYear = <T extends { year: string }>(months: T[], cost: (month: T) => number): number[] => {
+  const labels = getYearLabels(months);
+  const years = labels.map(() => 0);
+  months.forEach(m => {
+    years[labels.indexOf(m.year)] += cost(m);
+  });
+  return years;
+};
+
+// Calculate the cost per budget year and over the horizon per pricing model
+export const calculatePricingSummary = (monthlyData: MonthlyData[]): PricingSummary[] =>
+  PRICING_MODELS.map(({ model, key, color }) => {
+    const years = sumByYear(monthlyData, m => m[key] as number);
+    return { model, years, total: years.reduce((sum, cost) => sum + cost, 0), color };
+  });
+
+export const findCheapestModel = (pricingSummary: PricingSummary[]): PricingSummary =>
+  pricingSummary.reduce((min, curr) => curr.total < min.total ? curr : min);
+
+// PAYG cost of one agent in one month, ignoring whether it is enabled. As in calculateMonthUsage, the share of its
+// usage from existing license holders in its segments is only billed for autonomous actions and triggers.
+const calculateAgentMonthCost = (
+  agent: Agent,
+  segments: Segment[],
+  monthData: MonthlyData,
+  config: Config,
+  pricing: PricingCatalog
+): number => {
+  if (monthData.month < agent.deployMonth) return 0;
+
+  const { segmentUsers } = monthData;
+  const eligibleUsers = calculateEligibleUsers(agent.segments, segmentUsers, monthData.users);
+  const activeUsers = Math.round(eligibleUsers * monthData.dau);
+  const monthlyConversations = activeUsers * agent.conversationsPerDay * WORKING_DAYS_PER_MONTH;
+  const credits = monthlyConversations * calculateAgentCredits(agent, pricing);
+
+  const targetedUsers = agent.segments.reduce((sum, segmentId) => sum + (segmentUsers[segmentId] || 0), 0);
+  const holders = segments
+    .filter(segment => agent.segments.includes(segment.id))
+    .reduce((sum, segment) => sum + Math.min(segment.existingLicenses || 0, segmentUsers[segment.id] || 0), 0);
+  const holderShare = targetedUsers > 0 ? holders / targetedUsers : 0;
+  const holderCredits = calculateAutonomousCredits({
+    actions: monthlyConversations * agent.actions,
+    autonomousCredits: monthlyConversations * calculateAgentAutonomousCredits(agent, pricing)
+  }, config, pricing);
+
+  return (credits * (1 - holderShare) + holderCredits * holderShare) * pricing.paygRate;
+};
+
+// Calculate PAYG cost per agent for each month
+export const calculateAgentMonthlyCosts = (
+  agents: Agent[],
+  segments: Segment[],
+  monthlyData: MonthlyData[],
+  config: Config,
+  pricing: PricingCatalog
+): AgentMonthlyCost[] => {
+  return monthlyData.map(monthData => {
+    const { month, year } = monthData;
+    const agentCosts: AgentCost[] = [];
+    let totalCost = 0;
+
+    agents.forEach(agent => {
+      // Only include enabled agents that have been deployed
+      if (!agent.enabled || month < agent.deployMonth) {
+        return;
+      }
+
+      const monthlyCost = calculateAgentMonthCost(agent, segments, monthData, config, pricing);
+
+      agentCosts.push({
+        agentId: agent.id,
+        agentName: agent.name,
+        cost: Math.round(monthlyCost),
+        color: agent.color
+      });
+
+      totalCost += monthlyCost;
+    });
+
+    return {
+      month,
+      year,
+      agentCosts,
+      totalCost: Math.round(totalCost)
+    };
+  });
+};
+
+// PAYG cost over the projection of one more agent with the same profile (usage, segments, deploy month) as `agent`
+export const calculateAdditionalAgentCost = (
+  agent: Agent,
+  segments: Segment[],
+  monthlyData: MonthlyData[],
+  config: Config,
+  pricing: PricingCatalog
+): number =>
+  monthlyData.reduce((sum, monthData) => sum + Math.round(calculateAgentMonthCost(agent, segments, monthData, config, pricing)), 0);
+
+// Calculate the cost per budget year and over the horizon per enabled agent
+export const calculateAgentYearSummary = (agents: Agent[], agentMonthlyCosts: AgentMonthlyCost[]): AgentYearSummary[] =>
+  agents.filter(agent => agent.enabled).map(agent => {
+    const years = sumByYear(agentMonthlyCosts, ({ agentCosts }) => agentCosts.find(ac => ac.agentId === agent.id)?.cost || 0);
+    return { agent, years, total: years.reduce((sum, cost) => sum + cost, 0) };
+  });
+
+// Run the full projection for a stage plan, audience segments, agent portfolio, configuration and pricing catalog
+export const calculateProjection = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog
+): Projection => {
+  const monthlyData = calculateProjectionMonths(stages, segments, agents, config, pricing);
+  const agentMonthlyCosts = calculateAgentMonthlyCosts(agents, segments, monthlyData, config, pricing);
+
+  return {
+    monthlyData,
+    pricingSummary: calculatePricingSummary(monthlyData),
+    agentMonthlyCosts,
+    agentYearSummary: calculateAgentYearSummary(agents, agentMonthlyCosts)
+  };
+};
+
+// How many more agents like `template` (default: the average enabled agent) fit before M365 Copilot for All
+// becomes cheaper than PAYG. Each added agent adds the same PAYG cost, so the count follows directly from the gap.
+export const calculateLicensingBreakpoint = (
+  agents: Agent[],
+  segments: Segment[],
+  monthlyData: MonthlyData[],
+  pricingSummary: PricingSummary[],
+  config: Config,
+  pricing: PricingCatalog,
+  template?: Agent
+): LicensingBreakpoint => {
+  const enabledAgents = agents.filter(a => a.enabled);
+  const profiles = template ? [template] : enabledAgents;
+  const templateName = template ? template.name : 'your average agent';
+
+  if (profiles.length === 0) {
+    return {
+      currentAgentCount: 0,
+      currentPaygTotal: 0,
+      currentM365Total: 0,
+      breakpointAgentCount: 0,
+      breakpointPaygTotal: 0,
+      additionalAgents: 0,
+      hasBreakpoint: false,
+      templateName,
+      costPerAdditionalAgent: 0,
+      message: 'No agents enabled'
+    };
+  }
+
+  // Compare PAYG to pure M365 licensing (M365 Copilot for All), not hybrid models
+  const currentPaygTotal = pricingSummary.find(p => p.model === 'PAYG Alone')?.total || 0;
+  const currentM365Total = pricingSummary.find(p => p.model === 'M365 Copilot for All')?.total || 0;
+
+  const costPerAdditionalAgent = profiles.reduce((sum, a) => sum + calculateAdditionalAgentCost(a, segments, monthlyData, config, pricing), 0) / profiles.length;
+  const creditsPerConv = Math.round(profiles.reduce((sum, a) => sum + calculateAgentCredits(a, pricing), 0) / profiles.length * 10) / 10;
+  const current = {
+    currentAgentCount: enabledAgents.length,
+    currentPaygTotal,
+    currentM365Total,
+    templateName,
+    costPerAdditionalAgent: Math.round(costPerAdditionalAgent),
+    creditsPerConv
+  };
+
+  // If M365 is already cheaper, return current state
+  if (currentPaygTotal >= currentM365Total) {
+    return {
+      ...current,
+      breakpointAgentCount: enabledAgents.length,
+      breakpointPaygTotal: currentPaygTotal,
+      additionalAgents: 0,
+      hasBreakpoint: true,
+      message: `M365 Copilot for All is already more economical at current scale`
+    };
+  }
+
+  if (costPerAdditionalAgent <= 0) {
+    return {
+      ...current,
+      breakpointAgentCount: enabledAgents.length,
+      breakpointPaygTotal: 0,
+      additionalAgents: 0,
+      hasBreakpoint: false,
+      message: `Agents like ${templateName} add no PAYG cost with your onboarding plan, so PAYG stays more economical however many you add`
+    };
+  }
+
+  const additionalAgents = Math.ceil((currentM365Total - currentPaygTotal) / costPerAdditionalAgent);
+  return {
+    ...current,
+    breakpointAgentCount: enabledAgents.length + additionalAgents,
+    breakpointPaygTotal: Math.round(currentPaygTotal + additionalAgents * costPerAdditionalAgent),
+    additionalAgents,
+    hasBreakpoint: true,
+    message: `With your current onboarding plan, you have headroom for ${additionalAgents} more agent${additionalAgents > 1 ? 's' : ''} like ${templateName} before M365 Copilot for All becomes more economical`
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Agent, calculateAgentCredits } from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { parseAnalyticsCsv, calibrateAgent, compareCalibration } from './calibration';
+
+describe('Agent Calibration', () => {
+  const agent: Agent = {
+    id: 1,
+    name: 'HR Helper',
+    purpose: 'Benefits, PTO, policies',
+    conversationsPerDay: 1,
+    turns: 4,
+    generativeRatio: 0.5,
+    actions: 1,
+    tenantGraph: false,
+    eventCounts: { aiToolBasic: 2 },
+    deployMonth: 1,
+    segments: ['hq'],
+    color: '#8b5cf6',
+    enabled: true
+  };
+  const pricing = DEFAULT_PRICING_CATALOG;
+
+  // Two users over two days: ana has two sessions on the first day
+  const analytics = [
+    'Session ID,User ID,Start time,Turn count,Generative answers,Actions,Agent flow actions',
+    's1,ana,2026-07-01T09:00:00Z,6,3,1,2',
+    's2,ana,2026-07-01T14:00:00Z,4,4,0,0',
+    's3,ben,2026-07-01T10:00:00Z,5,1,2,1',
+    's4,ana,2026-07-02T09:00:00Z,5,2,1,1'
+  ].join('\n');
+
+  describe('parseAnalyticsCsv', () => {
+    it('should average the sessions into a conversation profile', () => {
+      const { profile, errors } = parseAnalyticsCsv(analytics);
+
+      expect(errors).toEqual([]);
+      expect(profile).toEqual({
+        sessions: 4,
+        turns: 5,
+        generativeRatio: 0.5,
+        actions: 1,
+        flowActions: 1,
+        conversationsPerDay: 4 / 3
+      });
+    });
+
+    it('should leave out what the export does not record', () => {
+      const { profile } = parseAnalyticsCsv('Session,Turns,Generative answers\na,3,3\nb,5,1');
+
+      expect(profile).toEqual({ sessions: 2, turns: 4, generativeRatio: 0.5, actions: 0, flowActions: null, conversationsPerDay: null });
+    });
+
+    it('should report a missing turn column and invalid sessions', () => {
+      expect(parseAnalyticsCsv('Session,Actions\na,1').errors).toEqual(['Could not find a turn count column (e.g. "Turns")']);
+      expect(parseAnalyticsCsv('Session,Turns,Generative answers,Actions\na,0,0,0\nb,2,3,0\nc,2,1,-1').errors).toEqual([
+        'Row 2: turns "0" must be a positive number',
+        'Row 3: generative answers "3" must be between 0 and the turn count',
+        'Row 4: action and flow counts must be non-negative numbers'
+      ]);
+    });
+  });
+
+  it('should replace the estimates with the observed profile', () => {
+    const { profile } = parseAnalyticsCsv(analytics);
+    const calibrated = calibrateAgent(agent, profile!);
+
+    expect(calibrated).toMatchObject({ conversationsPerDay: 1.3, turns: 5, generativeRatio: 0.5, actions: 1 });
+    expect(calibrated.eventCounts).toEqual({ aiToolBasic: 2, agentFlowAction: 1 });
+    expect(calibrateAgent(agent, { ...profile!, conversationsPerDay: null }).conversationsPerDay).toBe(1);
+  });
+
+  it('should compare the entered and observed values and their credits per conversation', () => {
+    const { profile } = parseAnalyticsCsv(analytics);
+    const comparison = compareCalibration(agent, profile!, pricing);
+
+    expect(comparison.rows.find(row => row.field === 'turns')).toMatchObject({ current: 4, calibrated: 5 });
+    expect(comparison.rows.find(row => row.field === 'agentFlowAction')).toMatchObject({ current: 0, calibrated: 1 });
+    expect(comparison.currentCredits).toBe(calculateAgentCredits(agent, pricing));
+    // 2.5 classic + 2.5 generative × 2 + 1 action × 5 + 1 flow action × 0.13 + 2 basic AI tools × 0.1
+    expect(comparison.calibratedCredits).toBeCloseTo(2.5 + 5 + 5 + 0.13 + 0.2);
+  });
+});
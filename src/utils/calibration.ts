@@ -0,0 +1,170 @@
+// Calibration: derive an agent's conversation profile from a Copilot Studio analytics export of pilot sessions
+
+import { Agent, calculateAgentCredits } from './calculations';
+import { PricingCatalog } from './pricing';
+import { parseCsv, findColumn } from './actuals';
+
+export interface CalibrationProfile {
+  sessions: number;
+  turns: number; // mean turns per session
+  generativeRatio: number; // share of turns answered generatively
+  actions: number; // mean agent actions per session
+  flowActions: number | null; // mean agent flow actions per session; null when the export has no flow column
+  conversationsPerDay: number | null; // sessions per user on the days they used the agent; null without user and date columns
+}
+
+export interface CalibrationImport {
+  profile: CalibrationProfile | null;
+  errors: string[];
+}
+
+export type CalibrationField = 'conversationsPerDay' | 'turns' | 'generativeRatio' | 'actions' | 'agentFlowAction';
+
+export interface CalibrationRow {
+  field: CalibrationField;
+  label: string;
+  current: number;
+  calibrated: number;
+}
+
+export interface CalibrationComparison {
+  calibrated: Agent;
+  rows: CalibrationRow[];
+  currentCredits: number;
+  calibratedCredits: number;
+}
+
+const TURNS_COLUMN = [/^turns?$/, /turn count/, /\bturns?\b/];
+const GENERATIVE_COLUMN = [/generative/];
+const FLOW_COLUMN = [/\bflows?\b/];
+const ACTIONS_COLUMN = [/\bactions?\b/, /\btools?\b/, /\bplugins?\b/];
+const USER_COLUMN = [/^user$/, /\buser (id|name)\b/, /\buser\b/];
+const DATE_COLUMN = [/\bdate\b/, /\bstart(ed)? time\b/, /\btimestamp\b/];
+
+// Values are rounded to the precision the agent form edits them in
+const roundTo = (value: number, decimals: number): number => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Read an analytics export with one row per session (turn count, generative answers, action and flow invocations)
+// into the average conversation of the agent. Without a generative or action column those counts are taken as zero.
+export const parseAnalyticsCsv = (text: string): CalibrationImport => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) {
+    return { profile: null, errors: ['The file has no data rows'] };
+  }
+
+  const headers = header.map(h => h.trim().toLowerCase());
+  const flow = findColumn(headers, FLOW_COLUMN);
+  // "Agent flow actions" would otherwise also be read as the agent action column
+  const columns = {
+    turns: findColumn(headers, TURNS_COLUMN),
+    generative: findColumn(headers, GENERATIVE_COLUMN),
+    actions: findColumn(headers.map((h, idx) => idx === flow ? '' : h), ACTIONS_COLUMN),
+    flow,
+    user: findColumn(headers, USER_COLUMN),
+    date: findColumn(headers, DATE_COLUMN)
+  };
+  if (columns.turns < 0) {
+    return { profile: null, errors: ['Could not find a turn count column (e.g. "Turns")'] };
+  }
+
+  const errors: string[] = [];
+  const totals = { turns: 0, generative: 0, actions: 0, flow: 0 };
+  const userDays = new Set<string>();
+
+  const count = (row: string[], column: number): number =>
+    column < 0 ? 0 : Number((row[column] || '0').replace(/,/g, '').trim() || '0');
+
+  rows.forEach((row, idx) => {
+    const label = `Row ${idx + 2}`;
+    const turns = count(row, columns.turns);
+    const generative = count(row, columns.generative);
+    const actions = count(row, columns.actions);
+    const flowActions = count(row, columns.flow);
+
+    if (isNaN(turns) || turns <= 0) {
+      errors.push(`${label}: turns "${row[columns.turns] ?? ''}" must be a positive number`);
+      return;
+    }
+    if (isNaN(generative) || generative < 0 || generative > turns) {
+      errors.push(`${label}: generative answers "${row[columns.generative]}" must be between 0 and the turn count`);
+      return;
+    }
+    if (isNaN(actions) || actions < 0 || isNaN(flowActions) || flowActions < 0) {
+      errors.push(`${label}: action and flow counts must be non-negative numbers`);
+      return;
+    }
+
+    totals.turns += turns;
+    totals.generative += generative;
+    totals.actions += actions;
+    totals.flow += flowActions;
+    if (columns.user >= 0 && columns.date >= 0) {
+      // The day of a date or timestamp, whatever its format
+      const day = (row[columns.date] || '').trim().split(/[T ]/)[0];
+      userDays.add(`${(row[columns.user] || '').trim().toLowerCase()}|${day}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { profile: null, errors };
+  }
+
+  const sessions = rows.length;
+  return {
+    profile: {
+      sessions,
+      turns: totals.turns / sessions,
+      generativeRatio: totals.generative / totals.turns,
+      actions: totals.actions / sessions,
+      flowActions: columns.flow < 0 ? null : totals.flow / sessions,
+      conversationsPerDay: userDays.size > 0 ? sessions / userDays.size : null
+    },
+    errors
+  };
+};
+
+// The agent with its profile replaced by the observed one; values the export can't tell keep their estimates
+export const calibrateAgent = (agent: Agent, profile: CalibrationProfile): Agent => {
+  const eventCounts = { ...agent.eventCounts };
+  if (profile.flowActions !== null) {
+    const flowActions = roundTo(profile.flowActions, 1);
+    if (flowActions > 0) {
+      eventCounts.agentFlowAction = flowActions;
+    } else {
+      delete eventCounts.agentFlowAction;
+    }
+  }
+
+  return {
+    ...agent,
+    conversationsPerDay: profile.conversationsPerDay === null ? agent.conversationsPerDay : roundTo(profile.conversationsPerDay, 1),
+    turns: roundTo(profile.turns, 1),
+    generativeRatio: roundTo(profile.generativeRatio, 2),
+    actions: roundTo(profile.actions, 1),
+    eventCounts
+  };
+};
+
+// Hand-entered values against the calibrated ones, with the credits per conversation each gives
+export const compareCalibration = (agent: Agent, profile: CalibrationProfile, pricing: PricingCatalog): CalibrationComparison => {
+  const calibrated = calibrateAgent(agent, profile);
+  const rows: CalibrationRow[] = [
+    { field: 'conversationsPerDay', label: 'Conversations/Day per User', current: agent.conversationsPerDay, calibrated: calibrated.conversationsPerDay },
+    { field: 'turns', label: 'Turns per Conversation', current: agent.turns, calibrated: calibrated.turns },
+    { field: 'generativeRatio', label: 'Generative AI Ratio', current: agent.generativeRatio, calibrated: calibrated.generativeRatio },
+    { field: 'actions', label: 'Actions per Conversation', current: agent.actions, calibrated: calibrated.actions },
+    {
+      field: 'agentFlowAction',
+      label: 'Agent Flow Actions per Conversation',
+      current: agent.eventCounts.agentFlowAction || 0,
+      calibrated: calibrated.eventCounts.agentFlowAction || 0
+    }
+  ];
+
+  return {
+    calibrated,
+    rows,
+    currentCredits: calculateAgentCredits(agent, pricing),
+    calibratedCredits: calculateAgentCredits(calibrated, pricing)
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CurrencySettings,
+  DEFAULT_CURRENCY_SETTINGS,
+  convertCost,
+  getCurrencySymbol,
+  describeCurrency,
+  validateCurrencySettings
+} from './currency';
+
+describe('Display Currency', () => {
+  const eurWithVat: CurrencySettings = { ...DEFAULT_CURRENCY_SETTINGS, code: 'EUR', fxRates: { USD: 1, EUR: 0.9, GBP: 0.8 }, taxRate: 0.2 };
+
+  describe('convertCost', () => {
+    it('should convert USD at the rate of the display currency and add tax', () => {
+      expect(convertCost(1000, eurWithVat)).toBeCloseTo(1080);
+      expect(convertCost(1000, { ...eurWithVat, code: 'GBP', taxRate: 0 })).toBeCloseTo(800);
+    });
+
+    it('should leave USD as is without settings', () => {
+      expect(convertCost(1234.5)).toBe(1234.5);
+      expect(convertCost(1000, DEFAULT_CURRENCY_SETTINGS)).toBe(1000);
+    });
+  });
+
+  describe('getCurrencySymbol and describeCurrency', () => {
+    it('should name the currency, rate, date and tax', () => {
+      expect(getCurrencySymbol(eurWithVat)).toBe('€');
+      expect(getCurrencySymbol()).toBe('$');
+      expect(describeCurrency(eurWithVat)).toBe('EUR at 0.9 per USD (rates as of 2025-11-01), including 20% tax');
+      expect(describeCurrency()).toBe('USD, excluding tax');
+    });
+  });
+
+  describe('validateCurrencySettings', () => {
+    it('should accept the defaults', () => {
+      expect(validateCurrencySettings(DEFAULT_CURRENCY_SETTINGS)).toEqual([]);
+    });
+
+    it('should reject unknown currencies, missing rates, bad dates and tax rates', () => {
+      expect(validateCurrencySettings({ code: 'JPY', fxRates: { USD: 1, EUR: 0 }, fxAsOf: '2025-13-01', taxRate: 1.2 })).toEqual([
+        'currency.code must be one of USD, EUR, GBP',
+        'currency.fxRates.EUR must be a positive number',
+        'currency.fxRates.GBP must be a positive number',
+        'currency.fxAsOf must be a date in YYYY-MM-DD format',
+        'currency.taxRate must be between 0 and 1'
+      ]);
+      expect(validateCurrencySettings(null)).toEqual(['currency must be an object']);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// Display currency for Copilot Studio Cost Calculator: costs are computed in USD, the currency of the pricing catalog
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP';
+
+export const CURRENCY_CODES: CurrencyCode[] = ['USD', 'EUR', 'GBP'];
+
+const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = { USD: '$', EUR: '€', GBP: '£' };
+
+export interface CurrencySettings {
+  code: CurrencyCode;
+  fxRates: Record<CurrencyCode, number>; // units of each currency per USD
+  fxAsOf: string; // 'YYYY-MM-DD' the rates were taken on
+  taxRate: number; // VAT or sales tax added to every cost; 0 for none
+}
+
+// Indicative rates (Nov 2025); edit them to the rates your finance team uses
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  code: 'USD',
+  fxRates: { USD: 1, EUR: 0.87, GBP: 0.76 },
+  fxAsOf: '2025-11-01',
+  taxRate: 0
+};
+
+export const getCurrencySymbol = (currency?: CurrencySettings): string => CURRENCY_SYMBOLS[currency?.code ?? 'USD'];
+
+// A USD cost in the display currency, tax included; without settings, USD as is
+export const convertCost = (usd: number, currency?: CurrencySettings): number =>
+  currency ? usd * currency.fxRates[currency.code] * (1 + currency.taxRate) : usd;
+
+// Returns a list of human-readable problems; an empty list means the settings are valid
+export const validateCurrencySettings = (value: unknown): string[] => {
+  if (!value || typeof value !== 'object') {
+    return ['currency must be an object'];
+  }
+  const currency = value as Partial<CurrencySettings>;
+  const errors: string[] = [];
+
+  if (!CURRENCY_CODES.includes(currency.code as CurrencyCode)) {
+    errors.push(`currency.code must be one of ${CURRENCY_CODES.join(', ')}`);
+  }
+  CURRENCY_CODES.forEach(code => {
+    const rate = currency.fxRates?.[code];
+    if (typeof rate !== 'number' || isNaN(rate) || rate <= 0) {
+      errors.push(`currency.fxRates.${code} must be a positive number`);
+    }
+  });
+  if (typeof currency.fxAsOf !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(currency.fxAsOf)) {
+    errors.push('currency.fxAsOf must be a date in YYYY-MM-DD format');
+  }
+  if (typeof currency.taxRate !== 'number' || isNaN(currency.taxRate) || currency.taxRate < 0 || currency.taxRate > 1) {
+    errors.push('currency.taxRate must be between 0 and 1');
+  }
+
+  return errors;
+};
+
+// 'EUR at 0.87 per USD (rates as of 2025-11-01), including 20% tax'
+export const describeCurrency = (currency?: CurrencySettings): string => {
+  const { code, fxRates, fxAsOf, taxRate } = currency ?? DEFAULT_CURRENCY_SETTINGS;
+  const rate = code === 'USD' ? code : `${code} at ${fxRates[code]} per USD (rates as of ${fxAsOf})`;
+  return `${rate}, ${taxRate > 0 ? `including ${Math.round(taxRate * 1000) / 10}% tax` : 'excluding tax'}`;
+};
@@ -0,0 +1,14 @@
+// Browser download helpers for exported files
+
+// File-system friendly name, e.g. "Aggressive rollout" -> "aggressive-rollout.json"
+export const toFileName = (name: string, extension: string): string =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export'}.${extension}`;
+
+export const downloadFile = (fileName: string, content: BlobPart, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { calculateProjection } from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { DEFAULT_SCENARIO_INPUTS } from './scenarios';
+import {
+  toCsv,
+  buildMonthlySheet,
+  buildAgentMonthlySheet,
+  buildAgentSummarySheet,
+  buildAssumptionsSheet,
+  buildProjectionSheets
+} from './export';
+
+describe('Projection Export', () => {
+  const { stages, segments, agents, config } = DEFAULT_SCENARIO_INPUTS;
+  const pricing = DEFAULT_PRICING_CATALOG;
+  const projection = calculateProjection(stages, segments, agents, config, pricing);
+
+  describe('toCsv', () => {
+    it('should quote fields with commas, quotes and line breaks', () => {
+      expect(toCsv([['Agent', 'Cost'], ['HR, Benefits', 12], ['Say "hi"', 'a\nb']])).toBe(
+        'Agent,Cost\r\n"HR, Benefits",12\r\n"Say ""hi""","a\nb"'
+      );
+    });
+  });
+
+  describe('buildMonthlySheet', () => {
+    it('should list every month with usage and the cost of every model', () => {
+      const sheet = buildMonthlySheet(projection);
+      expect(sheet.rows[0]).toEqual([
+        'Month', 'Date', 'Year', 'Users', 'DAU %', 'Active Users', 'Conversations', 'Credits', 'Licensed Users', 'Credits Covered by Licenses',
+        'PAYG Alone', 'P3 Pre-Purchase', 'PAYG + M365 Licenses', 'P3 + M365 Licenses', 'M365 Copilot for All', 'Capacity Packs'
+      ]);
+      expect(sheet.rows).toHaveLength(projection.monthlyData.length + 1);
+      const month1 = projection.monthlyData[0];
+      expect(sheet.rows[1]).toEqual([
+        1, 'Month 1', 'Year 1', month1.users, month1.dauPercent, month1.activeUsers, month1.conversations, month1.credits,
+        month1.licensedUsers, month1.licensedCredits, month1.paygCost, month1.p3Cost, month1.paygM365Cost, month1.p3M365Cost, month1.m365AllCost, month1.packCost
+      ]);
+    });
+  });
+
+  describe('display currency', () => {
+    it('should export costs converted to the display currency, tax included', () => {
+      const currency = { code: 'EUR' as const, fxRates: { USD: 1, EUR: 0.9, GBP: 0.8 }, fxAsOf: '2025-11-01', taxRate: 0.2 };
+      const month1 = projection.monthlyData[projection.monthlyData.length - 1];
+      const row = buildMonthlySheet(projection, currency).rows[projection.monthlyData.length];
+
+      expect(row[7]).toBe(month1.credits);
+      expect(row[10]).toBe(Math.round(month1.paygCost * 0.9 * 1.2));
+      expect(buildAgentSummarySheet(projection, currency).rows[1][1]).toBe(Math.round(projection.agentYearSummary[0].years[0] * 1.08));
+
+      const assumptions = buildAssumptionsSheet(stages, segments, agents, { ...config, currency }, pricing);
+      expect(assumptions.rows).toContainEqual(['Currency', 'EUR']);
+      expect(assumptions.rows).toContainEqual(['FX Rate (per USD)', 0.9]);
+      expect(assumptions.rows).toContainEqual(['Tax Rate', 0.2]);
+    });
+  });
+
+  describe('buildAgentMonthlySheet', () => {
+    it('should show zero for agents not yet deployed and a total per month', () => {
+      const sheet = buildAgentMonthlySheet(projection, agents);
+      expect(sheet.rows[0]).toEqual(['Month', ...agents.map(a => a.name), 'Total']);
+      const documentSearchColumn = agents.findIndex(a => a.name === 'Document Search') + 1;
+      expect(sheet.rows[1][documentSearchColumn]).toBe(0);
+      expect(sheet.rows[1][agents.length + 1]).toBe(projection.agentMonthlyCosts[0].totalCost);
+    });
+  });
+
+  describe('buildAgentSummarySheet', () => {
+    it('should list yearly and total cost per agent', () => {
+      const sheet = buildAgentSummarySheet(projection);
+      const summary = projection.agentYearSummary[0];
+      expect(sheet.rows[0]).toEqual(['Agent', 'Year 1', 'Year 2', 'Year 3', 'Total']);
+      expect(sheet.rows[1]).toEqual([summary.agent.name, ...summary.years, summary.total]);
+    });
+  });
+
+  describe('buildAssumptionsSheet', () => {
+    it('should record the pricing catalog, settings, stages and agents', () => {
+      const rows = buildAssumptionsSheet(stages, segments, agents, config, pricing).rows;
+      expect(rows).toContainEqual(['PAYG Rate ($/credit)', 0.01]);
+      expect(rows).toContainEqual(['Hybrid M365 Users', 200]);
+      expect(rows).toContainEqual(['Pilot (HQ)', 1, 'Pilot', 130, 0.45, 130, 0, 0]);
+      expect(rows.find(row => row[0] === 'Document Search')?.[9]).toBe('HQ; Management');
+    });
+
+    it('should record the credit weights and the events of each agent, enough to rebuild its credits per conversation', () => {
+      const flowAgent = { ...agents[0], name: 'Flow Runner', eventCounts: { agentFlowAction: 2, autonomousTrigger: 0.5 } };
+      const rows = buildAssumptionsSheet(stages, segments, [flowAgent], config, pricing).rows;
+      expect(rows).toContainEqual(['Billable Event', 'Event Id', 'Credits per Event']);
+      expect(rows).toContainEqual(['Autonomous trigger', 'autonomousTrigger', 5]);
+
+      const header = rows[rows.findIndex(row => row[0] === 'Agent Events per Conversation') + 1];
+      const events = rows[rows.length - 1];
+      expect(header.slice(1)).toEqual(pricing.billingEvents.map(rule => rule.label));
+      expect(events).toEqual(['Flow Runner', 2, 2, 0.5, 0, 2, 0, 0, 0, 0.5]);
+
+      const credits = pricing.billingEvents.reduce((sum, rule, idx) => sum + rule.credits * (events[idx + 1] as number), 0);
+      expect(credits).toBeCloseTo(rows.find(row => row[0] === 'Flow Runner')?.[8] as number);
+    });
+
+    it('should record the existing M365 Copilot licenses of each segment', () => {
+      const licensed = segments.map(s => s.id === 'hq' ? { ...s, existingLicenses: 250 } : s);
+      const rows = buildAssumptionsSheet(stages, licensed, agents, config, pricing).rows;
+      expect(rows).toContainEqual(['Segment', 'Default Share', 'Existing M365 Copilot Licenses']);
+      expect(rows).toContainEqual(['HQ', 0.03, 250]);
+      expect(rows).toContainEqual(['Stores', 0.8, 0]);
+    });
+  });
+
+  it('should build the four workbook sheets in order', () => {
+    expect(buildProjectionSheets(projection, stages, segments, agents, config, pricing).map(s => s.name)).toEqual([
+      'Monthly Projection', 'Agent Monthly Costs', 'Agent Year Summary', 'Assumptions'
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+// Tabular exports of the projection for spreadsheets
+
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  Projection,
+  PRICING_MODELS,
+  WORKING_DAYS_PER_MONTH,
+  UNIFORM_USAGE_DISTRIBUTION,
+  getHorizonMonths,
+  getYearLabels,
+  calculateAgentEventCounts,
+  calculateAgentCredits
+} from './calculations';
+import { PricingCatalog } from './pricing';
+import { CurrencySettings, DEFAULT_CURRENCY_SETTINGS, convertCost } from './currency';
+import { CellValue, Sheet } from './xlsx';
+
+// RFC 4180 CSV: quote fields containing separators, quotes or line breaks
+export const toCsv = (rows: CellValue[][]): string =>
+  rows.map(row => row.map(value => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n');
+
+// Costs are exported in the display currency, rounded to whole units like the USD ones
+const exportCost = (usd: number, currency?: CurrencySettings): number => Math.round(convertCost(usd, currency));
+
+export const buildMonthlySheet = (projection: Projection, currency?: CurrencySettings): Sheet => ({
+  name: 'Monthly Projection',
+  rows: [
+    ['Month', 'Date', 'Year', 'Users', 'DAU %', 'Active Users', 'Conversations', 'Credits', 'Licensed Users', 'Credits Covered by Licenses', ...PRICING_MODELS.map(m => m.model)],
+    ...projection.monthlyData.map(month => [
+      month.month,
+      month.label,
+      month.year,
+      month.users,
+      month.dauPercent,
+      month.activeUsers,
+      month.conversations,
+      month.credits,
+      month.licensedUsers,
+      month.licensedCredits,
+      ...PRICING_MODELS.map(m => exportCost(month[m.key] as number, currency))
+    ])
+  ]
+});
+
+// PAYG cost of every agent per month; agents not yet deployed or disabled show 0
+export const buildAgentMonthlySheet = (projection: Projection, agents: Agent[], currency?: CurrencySettings): Sheet => ({
+  name: 'Agent Monthly Costs',
+  rows: [
+    ['Month', ...agents.map(a => a.name), 'Total'],
+    ...projection.agentMonthlyCosts.map(month => [
+      month.month,
+      ...agents.map(agent => exportCost(month.agentCosts.find(ac => ac.agentId === agent.id)?.cost ?? 0, currency)),
+      exportCost(month.totalCost, currency)
+    ])
+  ]
+});
+
+export const buildAgentSummarySheet = (projection: Projection, currency?: CurrencySettings): Sheet => ({
+  name: 'Agent Year Summary',
+  rows: [
+    ['Agent', ...getYearLabels(projection.monthlyData), 'Total'],
+    ...projection.agentYearSummary.map(summary => [
+      summary.agent.name,
+      ...summary.years.map(cost => exportCost(cost, currency)),
+      exportCost(summary.total, currency)
+    ])
+  ]
+});
+
+// Every input behind the projection, so the numbers can be reproduced outside the calculator
+export const buildAssumptionsSheet = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog
+): Sheet => ({
+  name: 'Assumptions',
+  rows: [
+    ['Pricing Catalog'],
+    ['Version', pricing.version],
+    ['Source', pricing.source],
+    ['Effective Date', pricing.effectiveDate],
+    ['PAYG Rate ($/credit)', pricing.paygRate],
+    ['M365 Copilot Price ($/user/month)', pricing.m365CopilotPrice],
+    ['Capacity Pack Credits', pricing.packCredits],
+    ['Capacity Pack Price ($/month)', pricing.packPrice],
+    ...pricing.p3DiscountTiers.map(tier => [`P3 Discount from ${tier.minAnnualCredits} credits/year`, tier.discount]),
+    [],
+    ['Credit Weights'],
+    ['Billable Event', 'Event Id', 'Credits per Event'],
+    ...pricing.billingEvents.map(rule => [rule.label, rule.id, rule.credits]),
+    [],
+    ['Settings'],
+    ['Working Days per Month', WORKING_DAYS_PER_MONTH],
+    ['Horizon (months)', getHorizonMonths(config)],
+    ['Start Date', config.startDate || 'Not set'],
+    ['Fiscal Year Start Month', config.fiscalYearStartMonth ?? 1],
+    ['Capacity Pack Period', config.packPeriod ?? 'monthly'],
+    ['P3 Commitment (credits per term)', config.p3Commitment?.credits ?? 'Not set'],
+    ['P3 Commitment Term (months)', config.p3Commitment?.termMonths ?? 'Not set'],
+    ['M365 Seat Purchase Lead Time (months)', config.m365Procurement?.leadTimeMonths ?? 'Not set'],
+    ['M365 Seat Term (months)', config.m365Procurement?.termMonths ?? 'Not set'],
+    ['M365 Seat True-Up Interval (months)', config.m365Procurement?.trueUpIntervalMonths ?? 'Not set'],
+    ['Currency', (config.currency ?? DEFAULT_CURRENCY_SETTINGS).code],
+    ['FX Rate (per USD)', config.currency ? config.currency.fxRates[config.currency.code] : 1],
+    ['FX Rates As Of', config.currency?.fxAsOf ?? 'Not set'],
+    ['Tax Rate', config.currency?.taxRate ?? 0],
+    ['Monthly Budget', config.monthlyBudget ?? 'Not set'],
+    ['Annual Budget', config.annualBudget ?? 'Not set'],
+    ['Autonomous Action Ratio', config.autonomousActionRatio],
+    ['Hybrid M365 Users', config.hybridM365Users],
+    [],
+    ['Usage Distribution'],
+    ['Bucket', 'User Share', 'Usage Share'],
+    ...(config.usageDistribution || UNIFORM_USAGE_DISTRIBUTION).map(bucket => [bucket.name, bucket.userShare, bucket.usageShare]),
+    [],
+    ['Segments'],
+    ['Segment', 'Default Share', 'Existing M365 Copilot Licenses'],
+    ...segments.map(segment => [segment.name, segment.share, segment.existingLicenses ?? 0]),
+    [],
+    ['Deployment Stages'],
+    ['Stage', 'Start Month', 'Phase', 'Users', 'DAU', ...segments.map(s => `${s.name} Users`)],
+    ...stages.map(stage => [
+      stage.name,
+      stage.month,
+      stage.phase,
+      stage.users,
+      stage.dau,
+      ...segments.map(s => stage.segmentUsers[s.id] ?? '')
+    ]),
+    [],
+    ['Agents'],
+    ['Agent', 'Enabled', 'Deploy Month', 'Conversations/Day', 'Turns', 'Generative Ratio', 'Actions', 'Tenant Graph', 'Credits/Conversation', 'Segments'],
+    ...agents.map(agent => [
+      agent.name,
+      agent.enabled ? 'Yes' : 'No',
+      agent.deployMonth,
+      agent.conversationsPerDay,
+      agent.turns,
+      agent.generativeRatio,
+      agent.actions,
+      agent.tenantGraph ? 'Yes' : 'No',
+      calculateAgentCredits(agent, pricing),
+      agent.segments.map(id => segments.find(s => s.id === id)?.name ?? id).join('; ')
+    ]),
+    [],
+    // Credits/Conversation is the sum of each event count times its credit weight
+    ['Agent Events per Conversation'],
+    ['Agent', ...pricing.billingEvents.map(rule => rule.label)],
+    ...agents.map(agent => {
+      const counts = calculateAgentEventCounts(agent);
+      return [agent.name, ...pricing.billingEvents.map(rule => counts[rule.id] ?? 0)];
+    })
+  ]
+});
+
+export const buildProjectionSheets = (
+  projection: Projection,
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog
+): Sheet[] => [
+  buildMonthlySheet(projection, config.currency),
+  buildAgentMonthlySheet(projection, agents, config.currency),
+  buildAgentSummarySheet(projection, config.currency),
+  buildAssumptionsSheet(stages, segments, agents, config, pricing)
+];
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { Stage, Segment, Agent, Config, calculateProjection } from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { optimizeHybridLicenses } from './optimizer';
+
+describe('Hybrid License Optimizer', () => {
+  const stages: Stage[] = [
+    { name: 'Pilot', users: 100, month: 1, dau: 0.5, phase: 'Pilot', segmentUsers: {} },
+    { name: 'Enterprise', users: 1000, month: 13, dau: 0.5, phase: 'Enterprise', segmentUsers: {} }
+  ];
+
+  const segments: Segment[] = [
+    { id: 'hq', name: 'HQ', share: 0.2 },
+    { id: 'field', name: 'Field', share: 0.8 }
+  ];
+
+  const lightAgent: Agent = {
+    id: 1,
+    name: 'HR Helper',
+    purpose: 'Benefits, PTO, policies',
+    conversationsPerDay: 1,
+    turns: 4,
+    generativeRatio: 0.5,
+    actions: 1,
+    tenantGraph: false,
+    eventCounts: {},
+    deployMonth: 1,
+    segments: ['hq', 'field'],
+    color: '#8b5cf6',
+    enabled: true
+  };
+
+  // 120 credits per conversation, 220 conversations per HQ user a month: well above a seat's price
+  const heavyAgent: Agent = {
+    ...lightAgent,
+    id: 2,
+    name: 'Research Assistant',
+    conversationsPerDay: 20,
+    turns: 10,
+    generativeRatio: 1,
+    actions: 0,
+    tenantGraph: true,
+    segments: ['hq']
+  };
+
+  const config: Config = { autonomousActionRatio: 0.15, hybridM365Users: 20 };
+  const pricing = DEFAULT_PRICING_CATALOG;
+
+  const optimize = (agents: Agent[], hybridConfig: Config = config) => {
+    const { monthlyData } = calculateProjection(stages, segments, agents, hybridConfig, pricing);
+    return { monthlyData, optimization: optimizeHybridLicenses(stages, segments, agents, hybridConfig, pricing, monthlyData) };
+  };
+
+  it('should license only the segments whose covered credits cost more than a seat', () => {
+    const { optimization } = optimize([lightAgent, heavyAgent]);
+
+    expect(optimization.months).toHaveLength(36);
+    expect(optimization.months[0]).toMatchObject({ month: 1, seats: 20, segmentSeats: { hq: 20 } });
+    expect(optimization.months[35]).toMatchObject({ month: 36, seats: 200, segmentSeats: { hq: 200 } });
+    expect(optimization.segments).toEqual([
+      { segmentId: 'hq', name: 'HQ', finalUsers: 200, finalSeats: 200, finalCreditsPerUser: 26521, licensedMonths: 36, firstLicensedMonth: 1 },
+      { segmentId: 'field', name: 'Field', finalUsers: 800, finalSeats: 0, finalCreditsPerUser: 121, licensedMonths: 0, firstLicensedMonth: null }
+    ]);
+    expect(optimization.breakevenCreditsPerUser).toBe(3000);
+  });
+
+  it('should report the savings against the static license count', () => {
+    const { monthlyData, optimization } = optimize([lightAgent, heavyAgent]);
+
+    expect(optimization.staticTotal).toBe(monthlyData.reduce((sum, m) => sum + m.paygM365Cost, 0));
+    expect(optimization.total).toBe(optimization.months.reduce((sum, m) => sum + m.cost, 0));
+    expect(optimization.savings).toBe(optimization.staticTotal - optimization.total);
+    expect(optimization.savings).toBeGreaterThan(0);
+  });
+
+  it('should hold the recommended seats for the term under seat-commitment rules', () => {
+    // The static count never changes, so only the recommended seats differ when they are bought for a year at a time
+    const annual: Config = { ...config, m365Procurement: { leadTimeMonths: 0, termMonths: 12, trueUpIntervalMonths: 12 } };
+    const monthly = optimize([lightAgent, heavyAgent]).optimization;
+    const { monthlyData, optimization } = optimize([lightAgent, heavyAgent], annual);
+
+    // Month 1 already pays for the 185 HQ seats needed by month 12, 165 more than it uses
+    expect(optimization.months[0]).toMatchObject({ seats: 185, segmentSeats: { hq: 20 } });
+    expect(optimization.months[0].cost - monthly.months[0].cost).toBe(165 * pricing.m365CopilotPrice);
+    optimization.months.forEach((plan, idx) => {
+      expect(plan.seats).toBeGreaterThanOrEqual(monthly.months[idx].seats);
+      expect(plan.staticCost).toBe(monthlyData[idx].paygM365Cost);
+    });
+    expect(optimization.total).toBeGreaterThan(monthly.total);
+  });
+
+  it('should recommend no seats when PAYG is cheaper for every segment', () => {
+    const { monthlyData, optimization } = optimize([lightAgent], { ...config, hybridM365Users: 0 });
+
+    optimization.months.forEach((plan, idx) => {
+      expect(plan.seats).toBe(0);
+      expect(plan.cost).toBeCloseTo(monthlyData[idx].paygCost, -1);
+    });
+  });
+
+  it('should license only the heavy users of a segment under a skewed usage distribution', () => {
+    const skewed: Config = {
+      ...config,
+      usageDistribution: [
+        { name: 'Power users', userShare: 0.05, usageShare: 0.95 },
+        { name: 'Everyone else', userShare: 0.95, usageShare: 0.05 }
+      ]
+    };
+    const { optimization } = optimize([{ ...lightAgent, conversationsPerDay: 5 }], skewed);
+
+    // 605 credits per field user on average, but power users consume 19 times the average
+    expect(optimization.months[35].segmentSeats).toEqual({ hq: 10, field: 40 });
+    expect(optimization.segments[1]).toMatchObject({ finalUsers: 800, finalSeats: 40, finalCreditsPerUser: 605 });
+  });
+});
@@ -0,0 +1,126 @@
+// Hybrid licensing optimizer: which segments should hold M365 Copilot seats each month
+
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  SegmentUsage,
+  UNIFORM_USAGE_DISTRIBUTION,
+  calculateMonthlySegmentUsage,
+  calculateSeatPlan
+} from './calculations';
+import { PricingCatalog, getEventCredits, getBreakevenCredits } from './pricing';
+
+export interface LicenseMonthPlan {
+  month: number;
+  seats: number; // seats paid for: under config.m365Procurement, the recommended seats as procured for their term
+  segmentSeats: Record<string, number>; // recommended seats per segment, for segments that get any
+  cost: number; // PAYG + M365 Licenses cost with the recommended seats
+  staticCost: number; // ... with config.hybridM365Users seats
+}
+
+export interface SegmentLicenseAdvice {
+  segmentId: string;
+  name: string;
+  finalUsers: number;
+  finalSeats: number;
+  finalCreditsPerUser: number; // monthly credits per user in the last month
+  licensedMonths: number;
+  firstLicensedMonth: number | null;
+}
+
+export interface LicenseOptimization {
+  months: LicenseMonthPlan[];
+  segments: SegmentLicenseAdvice[];
+  breakevenCreditsPerUser: number; // monthly license-covered credits per user at which a seat pays off
+  total: number;
+  staticTotal: number;
+  savings: number;
+}
+
+// Credits a segment is still billed for when every user in it holds a license: autonomous actions and triggers
+const calculateLicensedCredits = (usage: SegmentUsage, config: Config, pricing: PricingCatalog): number =>
+  usage.actions * config.autonomousActionRatio * getEventCredits(pricing, 'agentAction') + usage.autonomousCredits;
+
+// Users of a usage bucket within a segment share its consumption, so a seat pays off for all of them or for none:
+// license a bucket in a month when the PAYG credits a license would cover cost more than its seats.
+// Without a usage distribution every user of a segment consumes the same. With seat-commitment rules the recommended
+// seats are procured as in the hybrid models, so seats can only be cut at renewal and unused ones cover no credits.
+export const optimizeHybridLicenses = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog,
+  monthlyData: MonthlyData[]
+): LicenseOptimization => {
+  const usageByMonth = calculateMonthlySegmentUsage(stages, segments, agents, pricing, monthlyData.length);
+  const buckets = config.usageDistribution || UNIFORM_USAGE_DISTRIBUTION;
+
+  const recommended = usageByMonth.map(({ month, segments: segmentUsage, licensed }) => {
+    let seats = 0;
+    // Users with an existing license need no seat, and are billed for their autonomous credits whatever is recommended
+    let creditCost = calculateLicensedCredits(licensed, config, pricing) * pricing.paygRate;
+    const segmentSeats: Record<string, number> = {};
+
+    segments.forEach(segment => {
+      const usage = segmentUsage[segment.id];
+      const licensedCredits = calculateLicensedCredits(usage, config, pricing);
+
+      buckets.forEach(bucket => {
+        const users = Math.round(usage.users * bucket.userShare);
+        const paygCost = usage.credits * bucket.usageShare * pricing.paygRate;
+        const licensedCreditCost = licensedCredits * bucket.usageShare * pricing.paygRate;
+
+        if (users > 0 && users * pricing.m365CopilotPrice + licensedCreditCost < paygCost) {
+          seats += users;
+          segmentSeats[segment.id] = (segmentSeats[segment.id] || 0) + users;
+          creditCost += licensedCreditCost;
+        } else {
+          creditCost += paygCost;
+        }
+      });
+    });
+
+    return { month, seats, segmentSeats, creditCost };
+  });
+
+  const seatPlan = config.m365Procurement && calculateSeatPlan(recommended.map(m => m.seats), config.m365Procurement);
+  const months = recommended.map(({ month, seats, segmentSeats, creditCost }, idx): LicenseMonthPlan => {
+    const paidSeats = seatPlan ? seatPlan[idx].seats : seats;
+    return {
+      month,
+      seats: paidSeats,
+      segmentSeats,
+      cost: Math.round(paidSeats * pricing.m365CopilotPrice + creditCost),
+      staticCost: monthlyData[idx]?.paygM365Cost ?? 0
+    };
+  });
+
+  const lastUsage = usageByMonth[usageByMonth.length - 1]?.segments || {};
+  const total = months.reduce((sum, m) => sum + m.cost, 0);
+  const staticTotal = months.reduce((sum, m) => sum + m.staticCost, 0);
+
+  return {
+    months,
+    segments: segments.map(segment => {
+      const licensed = months.filter(m => m.segmentSeats[segment.id]);
+      const finalUsage = lastUsage[segment.id];
+      return {
+        segmentId: segment.id,
+        name: segment.name,
+        finalUsers: finalUsage?.users || 0,
+        finalSeats: months[months.length - 1]?.segmentSeats[segment.id] || 0,
+        finalCreditsPerUser: finalUsage?.users ? Math.round(finalUsage.credits / finalUsage.users) : 0,
+        licensedMonths: licensed.length,
+        firstLicensedMonth: licensed[0]?.month ?? null
+      };
+    }),
+    breakevenCreditsPerUser: getBreakevenCredits(pricing),
+    total,
+    staticTotal,
+    savings: staticTotal - total
+  };
+};
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PRICING_CATALOG,
+  PRICING_CATALOG_STORAGE_KEY,
+  PricingCatalog,
+  getP3Discount,
+  getEventCredits,
+  migratePricingCatalog,
+  getBreakevenCredits,
+  validatePricingCatalog,
+  loadPricingCatalog,
+  savePricingCatalog
+} from './pricing';
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  };
+};
+
+describe('Pricing Catalog', () => {
+  const tieredCatalog: PricingCatalog = {
+    ...DEFAULT_PRICING_CATALOG,
+    p3DiscountTiers: [
+      { minAnnualCredits: 1000000, discount: 0.2 },
+      { minAnnualCredits: 0, discount: 0.1 }
+    ]
+  };
+
+  describe('getP3Discount', () => {
+    it('should pick the highest tier reached by the annual volume', () => {
+      expect(getP3Discount(tieredCatalog, 500000)).toBe(0.1);
+      expect(getP3Discount(tieredCatalog, 1000000)).toBe(0.2);
+      expect(getP3Discount(tieredCatalog, 5000000)).toBe(0.2);
+    });
+
+    it('should return no discount below the first tier', () => {
+      const catalog = { ...DEFAULT_PRICING_CATALOG, p3DiscountTiers: [{ minAnnualCredits: 1000, discount: 0.1 }] };
+      expect(getP3Discount(catalog, 999)).toBe(0);
+    });
+  });
+
+  describe('getEventCredits', () => {
+    it('should look up credits per event and default to zero', () => {
+      expect(getEventCredits(DEFAULT_PRICING_CATALOG, 'generativeAnswer')).toBe(2);
+      expect(getEventCredits(DEFAULT_PRICING_CATALOG, 'unknown')).toBe(0);
+    });
+  });
+
+  describe('migratePricingCatalog', () => {
+    it('should convert fixed credit weights into event rules', () => {
+      const { billingEvents, ...legacy } = DEFAULT_PRICING_CATALOG;
+      const migrated = migratePricingCatalog({
+        ...legacy,
+        creditWeights: { classicAnswer: 1, generativeAnswer: 3, action: 4, tenantGraph: 12 }
+      }) as PricingCatalog;
+
+      expect(validatePricingCatalog(migrated)).toEqual([]);
+      expect(getEventCredits(migrated, 'generativeAnswer')).toBe(3);
+      expect(getEventCredits(migrated, 'agentAction')).toBe(4);
+      expect(getEventCredits(migrated, 'tenantGraphGrounding')).toBe(12);
+      expect(migrated.billingEvents).toHaveLength(billingEvents.length);
+    });
+
+    it('should leave current catalogs untouched', () => {
+      expect(migratePricingCatalog(DEFAULT_PRICING_CATALOG)).toBe(DEFAULT_PRICING_CATALOG);
+    });
+  });
+
+  describe('getBreakevenCredits', () => {
+    it('should divide the M365 price by the PAYG rate', () => {
+      expect(getBreakevenCredits(DEFAULT_PRICING_CATALOG)).toBe(3000);
+      expect(getBreakevenCredits({ ...DEFAULT_PRICING_CATALOG, m365CopilotPrice: 25 })).toBe(2500);
+    });
+  });
+
+  describe('validatePricingCatalog', () => {
+    it('should accept the default catalog', () => {
+      expect(validatePricingCatalog(DEFAULT_PRICING_CATALOG)).toEqual([]);
+    });
+
+    it('should report invalid fields', () => {
+      const errors = validatePricingCatalog({
+        ...DEFAULT_PRICING_CATALOG,
+        paygRate: -1,
+        packCredits: 0,
+        p3DiscountTiers: [{ minAnnualCredits: 0, discount: 1.5 }],
+        billingEvents: DEFAULT_PRICING_CATALOG.billingEvents
+          .filter(rule => rule.id !== 'tenantGraphGrounding')
+          .map(rule => rule.id === 'agentAction' ? { ...rule, credits: NaN } : rule)
+      });
+      expect(errors).toEqual([
+        'paygRate must be a non-negative number',
+        'packCredits must be a positive number',
+        'p3DiscountTiers[0].discount must be between 0 and 1',
+        'billingEvents[2].credits must be a non-negative number',
+        'billingEvents must include the "tenantGraphGrounding" event'
+      ]);
+    });
+
+    it('should reject duplicated event types', () => {
+      const errors = validatePricingCatalog({
+        ...DEFAULT_PRICING_CATALOG,
+        billingEvents: [...DEFAULT_PRICING_CATALOG.billingEvents, { id: 'agentAction', label: 'Again', credits: 5 }]
+      });
+      expect(errors).toEqual([`billingEvents[${DEFAULT_PRICING_CATALOG.billingEvents.length}].id "agentAction" is duplicated`]);
+    });
+
+    it('should reject non-objects', () => {
+      expect(validatePricingCatalog(null)).toEqual(['Pricing catalog must be an object']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should fall back to list prices when nothing is stored', () => {
+      expect(loadPricingCatalog(createStorage())).toBe(DEFAULT_PRICING_CATALOG);
+    });
+
+    it('should fall back to list prices when the stored catalog is invalid', () => {
+      const storage = createStorage({ [PRICING_CATALOG_STORAGE_KEY]: '{"paygRate": "cheap"}' });
+      expect(loadPricingCatalog(storage)).toBe(DEFAULT_PRICING_CATALOG);
+      expect(loadPricingCatalog(createStorage({ [PRICING_CATALOG_STORAGE_KEY]: 'not json' }))).toBe(DEFAULT_PRICING_CATALOG);
+    });
+
+    it('should save edits as the next version and load them back', () => {
+      const storage = createStorage();
+      const saved = savePricingCatalog({ ...DEFAULT_PRICING_CATALOG, m365CopilotPrice: 27 }, DEFAULT_PRICING_CATALOG, storage);
+
+      expect(saved.version).toBe(2);
+      expect(loadPricingCatalog(storage)).toEqual(saved);
+    });
+  });
+});
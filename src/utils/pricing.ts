@@ -0,0 +1,189 @@
+// Pricing catalog for Copilot Studio Cost Calculator
+
+export interface P3DiscountTier {
+  minAnnualCredits: number;
+  discount: number;
+}
+
+// Billable event type on the Copilot Studio meter, with the credits charged per single event
+export interface BillingEventRule {
+  id: string;
+  label: string;
+  credits: number;
+}
+
+// Event types derived from each agent's conversation shape; they cannot be removed from the catalog
+export type CoreBillingEventId = 'classicAnswer' | 'generativeAnswer' | 'agentAction' | 'tenantGraphGrounding';
+export const CORE_BILLING_EVENT_IDS: CoreBillingEventId[] = ['classicAnswer', 'generativeAnswer', 'agentAction', 'tenantGraphGrounding'];
+
+// Billed for M365 Copilot licensed users too, as licenses only cover user-triggered usage
+export const AUTONOMOUS_TRIGGER_EVENT_ID = 'autonomousTrigger';
+
+export interface PricingCatalog {
+  version: number;
+  effectiveDate: string;
+  source: string;
+  paygRate: number;
+  p3DiscountTiers: P3DiscountTier[];
+  packCredits: number;
+  packPrice: number;
+  m365CopilotPrice: number;
+  billingEvents: BillingEventRule[];
+}
+
+export const PRICING_CATALOG_STORAGE_KEY = 'copilot-cost-calculator:pricing-catalog';
+
+// Microsoft list prices (Nov 2025)
+export const DEFAULT_PRICING_CATALOG: PricingCatalog = {
+  version: 1,
+  effectiveDate: '2025-11-01',
+  source: 'Microsoft list price',
+  paygRate: 0.01,
+  p3DiscountTiers: [{ minAnnualCredits: 0, discount: 0.15 }],
+  packCredits: 25000,
+  packPrice: 200,
+  m365CopilotPrice: 30,
+  billingEvents: [
+    { id: 'classicAnswer', label: 'Classic answer', credits: 1 },
+    { id: 'generativeAnswer', label: 'Generative answer', credits: 2 },
+    { id: 'agentAction', label: 'Agent action', credits: 5 },
+    { id: 'tenantGraphGrounding', label: 'Tenant Graph grounding (per message)', credits: 10 },
+    { id: 'agentFlowAction', label: 'Agent flow action (13 per 100 actions)', credits: 0.13 },
+    { id: 'aiToolBasic', label: 'AI tools, basic model (1 per 10 responses)', credits: 0.1 },
+    { id: 'aiToolStandard', label: 'AI tools, standard model (15 per 10 responses)', credits: 1.5 },
+    { id: 'aiToolPremium', label: 'AI tools, premium model (100 per 10 responses)', credits: 10 },
+    { id: AUTONOMOUS_TRIGGER_EVENT_ID, label: 'Autonomous trigger', credits: 5 }
+  ]
+};
+
+export const getEventCredits = (catalog: PricingCatalog, eventId: string): number =>
+  catalog.billingEvents.find(rule => rule.id === eventId)?.credits ?? 0;
+
+// Discount of the highest P3 tier reached by the annual credit volume
+export const getP3Discount = (catalog: PricingCatalog, annualCredits: number): number =>
+  [...catalog.p3DiscountTiers]
+    .sort((a, b) => a.minAnnualCredits - b.minAnnualCredits)
+    .reduce((discount, tier) => annualCredits >= tier.minAnnualCredits ? tier.discount : discount, 0);
+
+// Credits per user per month at which PAYG costs the same as an M365 Copilot license
+export const getBreakevenCredits = (catalog: PricingCatalog): number =>
+  catalog.paygRate > 0 ? catalog.m365CopilotPrice / catalog.paygRate : Infinity;
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && !isNaN(value) && value >= 0;
+
+// Returns a list of human-readable problems; an empty list means the catalog is valid
+export const validatePricingCatalog = (value: unknown): string[] => {
+  if (!value || typeof value !== 'object') {
+    return ['Pricing catalog must be an object'];
+  }
+
+  const catalog = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Number.isInteger(catalog.version) || (catalog.version as number) < 1) {
+    errors.push('version must be a positive integer');
+  }
+  if (typeof catalog.effectiveDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(catalog.effectiveDate)) {
+    errors.push('effectiveDate must be a YYYY-MM-DD date');
+  }
+  if (typeof catalog.source !== 'string') {
+    errors.push('source must be a string');
+  }
+
+  (['paygRate', 'packPrice', 'm365CopilotPrice'] as const).forEach(key => {
+    if (!isNonNegativeNumber(catalog[key])) {
+      errors.push(`${key} must be a non-negative number`);
+    }
+  });
+  if (!isNonNegativeNumber(catalog.packCredits) || catalog.packCredits === 0) {
+    errors.push('packCredits must be a positive number');
+  }
+
+  if (!Array.isArray(catalog.p3DiscountTiers) || catalog.p3DiscountTiers.length === 0) {
+    errors.push('p3DiscountTiers must contain at least one tier');
+  } else {
+    catalog.p3DiscountTiers.forEach((tier: P3DiscountTier, idx: number) => {
+      if (!tier || !isNonNegativeNumber(tier.minAnnualCredits)) {
+        errors.push(`p3DiscountTiers[${idx}].minAnnualCredits must be a non-negative number`);
+      }
+      if (!tier || !isNonNegativeNumber(tier.discount) || tier.discount > 1) {
+        errors.push(`p3DiscountTiers[${idx}].discount must be between 0 and 1`);
+      }
+    });
+  }
+
+  if (!Array.isArray(catalog.billingEvents)) {
+    errors.push('billingEvents must be a list of event rules');
+  } else {
+    const seen = new Set<string>();
+    catalog.billingEvents.forEach((rule: BillingEventRule, idx: number) => {
+      if (!rule || typeof rule.id !== 'string' || rule.id.trim() === '') {
+        errors.push(`billingEvents[${idx}].id must be a non-empty string`);
+        return;
+      }
+      if (seen.has(rule.id)) {
+        errors.push(`billingEvents[${idx}].id "${rule.id}" is duplicated`);
+      }
+      seen.add(rule.id);
+      if (typeof rule.label !== 'string') {
+        errors.push(`billingEvents[${idx}].label must be a string`);
+      }
+      if (!isNonNegativeNumber(rule.credits)) {
+        errors.push(`billingEvents[${idx}].credits must be a non-negative number`);
+      }
+    });
+    CORE_BILLING_EVENT_IDS.filter(id => !seen.has(id)).forEach(id => {
+      errors.push(`billingEvents must include the "${id}" event`);
+    });
+  }
+
+  return errors;
+};
+
+// Convert catalogs saved with the four fixed credit weights to the billing event rules table
+export const migratePricingCatalog = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') return value;
+
+  const { creditWeights, ...catalog } = value as Record<string, unknown>;
+  if (!creditWeights || typeof creditWeights !== 'object' || 'billingEvents' in catalog) return value;
+
+  const weights = creditWeights as Record<string, number>;
+  const migrated: Record<string, number> = {
+    classicAnswer: weights.classicAnswer,
+    generativeAnswer: weights.generativeAnswer,
+    agentAction: weights.action,
+    tenantGraphGrounding: weights.tenantGraph
+  };
+
+  return {
+    ...catalog,
+    billingEvents: DEFAULT_PRICING_CATALOG.billingEvents.map(rule =>
+      rule.id in migrated ? { ...rule, credits: migrated[rule.id] } : rule
+    )
+  };
+};
+
+// Load the saved catalog, falling back to list prices when nothing valid is stored
+export const loadPricingCatalog = (storage: Pick<Storage, 'getItem'> = localStorage): PricingCatalog => {
+  try {
+    const raw = storage.getItem(PRICING_CATALOG_STORAGE_KEY);
+    if (!raw) return DEFAULT_PRICING_CATALOG;
+
+    const parsed = migratePricingCatalog(JSON.parse(raw));
+    return validatePricingCatalog(parsed).length === 0 ? parsed as PricingCatalog : DEFAULT_PRICING_CATALOG;
+  } catch {
+    return DEFAULT_PRICING_CATALOG;
+  }
+};
+
+// Persist an edited catalog as the next version
+export const savePricingCatalog = (
+  catalog: PricingCatalog,
+  previous: PricingCatalog,
+  storage: Pick<Storage, 'setItem'> = localStorage
+): PricingCatalog => {
+  const saved = { ...catalog, version: previous.version + 1 };
+  storage.setItem(PRICING_CATALOG_STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+};
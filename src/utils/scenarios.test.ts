@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCENARIO_INPUTS,
+  SCENARIO_STORE_STORAGE_KEY,
+  ScenarioStore,
+  createScenario,
+  duplicateScenario,
+  validateScenarioName,
+  updateActiveScenario,
+  validateScenario,
+  loadScenarioStore,
+  saveScenarioStore,
+  uniqueScenarioName,
+  createAgent,
+  SCENARIO_DOCUMENT_SCHEMA_VERSION,
+  createScenarioDocument,
+  parseScenarioDocument
+} from './scenarios';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  };
+};
+
+describe('Scenarios', () => {
+  const now = new Date('2026-01-15T10:00:00Z');
+  const baseline = createScenario('Baseline', DEFAULT_SCENARIO_INPUTS, [], now);
+
+  describe('createScenario', () => {
+    it('should assign the first free id and a timestamp', () => {
+      expect(baseline.id).toBe('scenario-1');
+      expect(baseline.updatedAt).toBe('2026-01-15T10:00:00.000Z');
+      expect(createScenario('Aggressive', DEFAULT_SCENARIO_INPUTS, [baseline], now).id).toBe('scenario-2');
+    });
+  });
+
+  describe('duplicateScenario', () => {
+    it('should copy the inputs under a new id and unique name', () => {
+      const copy = duplicateScenario(baseline, [baseline], now);
+      expect(copy.id).not.toBe(baseline.id);
+      expect(copy.name).toBe('Baseline (copy)');
+      expect(copy.agents).toEqual(baseline.agents);
+      expect(duplicateScenario(baseline, [baseline, copy], now).name).toBe('Baseline (copy 2)');
+    });
+  });
+
+  describe('validateScenarioName', () => {
+    it('should require a unique, non-empty name', () => {
+      expect(validateScenarioName(' ', [baseline])).toEqual(['Scenario name is required']);
+      expect(validateScenarioName('Baseline', [baseline])).toEqual(['A scenario named "Baseline" already exists']);
+      expect(validateScenarioName('Conservative', [baseline])).toEqual([]);
+    });
+
+    it('should allow a scenario to keep its own name when renamed', () => {
+      expect(validateScenarioName('Baseline', [baseline], baseline.id)).toEqual([]);
+    });
+  });
+
+  describe('updateActiveScenario', () => {
+    const store: ScenarioStore = { activeScenarioId: baseline.id, scenarios: [baseline] };
+
+    it('should save changed inputs into the active scenario', () => {
+      const config = { ...DEFAULT_SCENARIO_INPUTS.config, hybridM365Users: 500 };
+      const later = new Date('2026-02-01T00:00:00Z');
+      const updated = updateActiveScenario(store, { ...DEFAULT_SCENARIO_INPUTS, config }, later);
+      expect(updated.scenarios[0].config.hybridM365Users).toBe(500);
+      expect(updated.scenarios[0].updatedAt).toBe('2026-02-01T00:00:00.000Z');
+    });
+
+    it('should return the same store when nothing changed', () => {
+      expect(updateActiveScenario(store, DEFAULT_SCENARIO_INPUTS)).toBe(store);
+    });
+  });
+
+  describe('validateScenario', () => {
+    it('should accept the default scenario', () => {
+      expect(validateScenario(baseline)).toEqual([]);
+    });
+
+    it('should report missing fields and invalid stages', () => {
+      expect(validateScenario(null)).toEqual(['Scenario must be an object']);
+      expect(validateScenario({ ...baseline, agents: undefined })).toEqual(['Baseline: agents must be a list']);
+      expect(validateScenario({ ...baseline, stages: [] })).toEqual(['Baseline: At least one deployment stage is required']);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should seed a baseline scenario when nothing is stored', () => {
+      const store = loadScenarioStore(createStorage());
+      expect(store.scenarios.map(s => s.name)).toEqual(['Baseline']);
+      expect(store.activeScenarioId).toBe(store.scenarios[0].id);
+    });
+
+    it('should round-trip saved scenarios', () => {
+      const storage = createStorage();
+      const aggressive = createScenario('Aggressive', DEFAULT_SCENARIO_INPUTS, [baseline], now);
+      const store = { activeScenarioId: aggressive.id, scenarios: [baseline, aggressive] };
+      saveScenarioStore(store, storage);
+      expect(loadScenarioStore(storage)).toEqual(store);
+    });
+
+    it('should drop unreadable scenarios and fall back to the first remaining one', () => {
+      const storage = createStorage({
+        [SCENARIO_STORE_STORAGE_KEY]: JSON.stringify({
+          activeScenarioId: 'broken',
+          scenarios: [{ id: 'broken', name: 'Broken' }, baseline]
+        })
+      });
+      const store = loadScenarioStore(storage);
+      expect(store.scenarios.map(s => s.id)).toEqual([baseline.id]);
+      expect(store.activeScenarioId).toBe(baseline.id);
+    });
+
+    it('should keep scenarios saved with invalid inputs for the user to fix', () => {
+      const storage = createStorage();
+      const segments = [...DEFAULT_SCENARIO_INPUTS.segments, { id: 'segment-4', name: '', share: 0.5 }];
+      const unfinished = createScenario('Unfinished', { ...DEFAULT_SCENARIO_INPUTS, segments }, [baseline], now);
+      saveScenarioStore({ activeScenarioId: unfinished.id, scenarios: [baseline, unfinished] }, storage);
+
+      const store = loadScenarioStore(storage);
+      expect(store.activeScenarioId).toBe(unfinished.id);
+      expect(store.scenarios[1].segments).toEqual(segments);
+      expect(validateScenario(store.scenarios[1])).toContain('Unfinished: Segment 4: name is required');
+    });
+
+    it('should repair agents saved without their flags', () => {
+      const { enabled: _enabled, tenantGraph: _tenantGraph, ...legacy } = DEFAULT_SCENARIO_INPUTS.agents[0];
+      const storage = createStorage({
+        [SCENARIO_STORE_STORAGE_KEY]: JSON.stringify({ activeScenarioId: baseline.id, scenarios: [{ ...baseline, agents: [legacy] }] })
+      });
+      const [scenario] = loadScenarioStore(storage).scenarios;
+      expect(scenario.agents[0]).toMatchObject({ enabled: true, tenantGraph: false });
+      expect(validateScenario(scenario)).toEqual([]);
+    });
+
+    it('should keep a scenario with an agent added through the agent form', () => {
+      const storage = createStorage();
+      const { agents } = DEFAULT_SCENARIO_INPUTS;
+      // The fields the Add Agent form fills in
+      const added = createAgent({
+        name: 'Store Procedures',
+        purpose: 'SOPs, training materials',
+        conversationsPerDay: 1,
+        turns: 4,
+        generativeRatio: 0.5,
+        actions: 1,
+        deployMonth: 3,
+        segments: ['stores']
+      }, agents, '#06b6d4');
+      const scenario = createScenario('With new agent', { ...DEFAULT_SCENARIO_INPUTS, agents: [...agents, added] }, [baseline], now);
+
+      expect(added).toMatchObject({ id: 6, enabled: true, tenantGraph: false, eventCounts: {} });
+      expect(validateScenario(scenario)).toEqual([]);
+      saveScenarioStore({ activeScenarioId: scenario.id, scenarios: [baseline, scenario] }, storage);
+      expect(loadScenarioStore(storage).scenarios.map(s => s.name)).toEqual(['Baseline', 'With new agent']);
+    });
+
+    it('should ignore corrupt storage', () => {
+      const storage = createStorage({ [SCENARIO_STORE_STORAGE_KEY]: 'not json' });
+      expect(loadScenarioStore(storage).scenarios).toHaveLength(1);
+    });
+  });
+
+  describe('uniqueScenarioName', () => {
+    it('should number names that are already taken', () => {
+      expect(uniqueScenarioName('Aggressive', [baseline])).toBe('Aggressive');
+      expect(uniqueScenarioName('Baseline', [baseline])).toBe('Baseline 2');
+    });
+  });
+
+  describe('scenario documents', () => {
+    const pricing = { ...DEFAULT_PRICING_CATALOG, paygRate: 0.008, source: 'EA 2026' };
+
+    it('should round-trip a scenario with its pricing', () => {
+      const doc = createScenarioDocument(baseline, pricing, now);
+      expect(doc.schemaVersion).toBe(SCENARIO_DOCUMENT_SCHEMA_VERSION);
+      expect(doc.exportedAt).toBe('2026-01-15T10:00:00.000Z');
+
+      const { document: imported, errors } = parseScenarioDocument(JSON.stringify(doc));
+      expect(errors).toEqual([]);
+      expect(imported).toEqual(doc);
+    });
+
+    it('should reject invalid JSON and unsupported versions', () => {
+      expect(parseScenarioDocument('{').errors).toEqual(['File is not valid JSON']);
+      expect(parseScenarioDocument('{}').errors).toEqual(['schemaVersion must be a positive whole number']);
+      expect(parseScenarioDocument(JSON.stringify({ schemaVersion: 99 })).errors).toEqual([
+        `schemaVersion 99 is newer than this calculator supports (${SCENARIO_DOCUMENT_SCHEMA_VERSION})`
+      ]);
+    });
+
+    it('should name the fields that fail validation', () => {
+      const doc = createScenarioDocument(baseline, pricing, now);
+      const broken = {
+        ...doc,
+        agents: [{ ...doc.agents[0], generativeRatio: 2, segments: ['finance'] }],
+        config: { ...doc.config, hybridM365Users: -1 },
+        pricing: { ...pricing, paygRate: 'free' }
+      };
+      const { document: imported, errors } = parseScenarioDocument(JSON.stringify(broken));
+      expect(imported).toBeNull();
+      expect(errors).toEqual([
+        'Baseline: HR Helper: generativeRatio must be between 0 and 1',
+        'Baseline: HR Helper: unknown segment "finance"',
+        'Baseline: hybridM365Users must be a non-negative whole number',
+        'pricing: paygRate must be a non-negative number'
+      ]);
+    });
+
+    it('should migrate version 1 documents from the fixed audience model', () => {
+      const { segmentUsers: _segmentUsers, ...pilot } = DEFAULT_SCENARIO_INPUTS.stages[0];
+      const { eventCounts: _eventCounts, ...agent } = DEFAULT_SCENARIO_INPUTS.agents[0];
+      const v1 = {
+        schemaVersion: 1,
+        name: 'Legacy plan',
+        exportedAt: '2025-06-01T00:00:00.000Z',
+        stages: [pilot],
+        agents: [{ ...agent, segments: ['All'] }, { ...agent, id: 2, segments: ['HQ', 'Stores'] }],
+        config: { m365CopilotPrice: 28, autonomousActionRatio: 0.1, hybridM365Users: 50 }
+      };
+
+      const { document: migrated, errors } = parseScenarioDocument(JSON.stringify(v1));
+      expect(errors).toEqual([]);
+      expect(migrated?.schemaVersion).toBe(SCENARIO_DOCUMENT_SCHEMA_VERSION);
+      expect(migrated?.segments.map(s => s.id)).toEqual(['hq', 'management', 'stores']);
+      expect(migrated?.stages[0].segmentUsers).toEqual({});
+      expect(migrated?.agents[0].segments).toEqual(['hq', 'management', 'stores']);
+      expect(migrated?.agents[1].segments).toEqual(['hq', 'stores']);
+      expect(migrated?.agents[0].eventCounts).toEqual({});
+      expect(migrated?.config).toEqual({ autonomousActionRatio: 0.1, hybridM365Users: 50 });
+      expect(migrated?.pricing.m365CopilotPrice).toBe(28);
+    });
+  });
+});
@@ -0,0 +1,401 @@
+// Named scenarios for Copilot Studio Cost Calculator
+
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  validateStages,
+  validateSegments,
+  validateAgents,
+  validateConfig
+} from './calculations';
+import { PricingCatalog, DEFAULT_PRICING_CATALOG, migratePricingCatalog, validatePricingCatalog } from './pricing';
+
+// Everything that drives a projection apart from the shared pricing catalog
+export interface ScenarioInputs {
+  stages: Stage[];
+  segments: Segment[];
+  agents: Agent[];
+  config: Config;
+}
+
+export interface Scenario extends ScenarioInputs {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+export interface ScenarioStore {
+  activeScenarioId: string;
+  scenarios: Scenario[];
+}
+
+export const SCENARIO_STORE_STORAGE_KEY = 'copilot-cost-calculator:scenarios';
+
+export const DEFAULT_SCENARIO_INPUTS: ScenarioInputs = {
+  stages: [
+    { name: 'Pilot (HQ)', users: 130, month: 1, dau: 0.45, phase: 'Pilot', segmentUsers: { hq: 130, management: 0, stores: 0 } },
+    { name: 'HQ Expansion', users: 500, month: 4, dau: 0.40, phase: 'Expansion', segmentUsers: { hq: 500, management: 0, stores: 0 } },
+    { name: 'Full HQ', users: 1000, month: 7, dau: 0.38, phase: 'Expansion', segmentUsers: { hq: 1000, management: 0, stores: 0 } },
+    { name: 'HQ + Mgmt', users: 2500, month: 10, dau: 0.35, phase: 'Management', segmentUsers: { hq: 1000, management: 1500, stores: 0 } },
+    { name: 'All Mgmt', users: 6000, month: 13, dau: 0.33, phase: 'Management', segmentUsers: { hq: 1000, management: 5000, stores: 0 } },
+    { name: 'Mgmt + Stores', users: 12000, month: 19, dau: 0.30, phase: 'Stores', segmentUsers: { hq: 1000, management: 5000, stores: 6000 } },
+    { name: 'Near-Complete', users: 30000, month: 31, dau: 0.28, phase: 'Enterprise', segmentUsers: { hq: 1000, management: 5000, stores: 24000 } }
+  ],
+  segments: [
+    { id: 'hq', name: 'HQ', share: 0.03 },
+    { id: 'management', name: 'Management', share: 0.17 },
+    { id: 'stores', name: 'Stores', share: 0.8 }
+  ],
+  agents: [
+    {
+      id: 1,
+      name: 'HR Helper',
+      purpose: 'Benefits, PTO, policies',
+      conversationsPerDay: 1.5,
+      turns: 4,
+      generativeRatio: 0.50,
+      actions: 0.5,
+      tenantGraph: false,
+      eventCounts: {},
+      deployMonth: 1,
+      segments: ['hq', 'management', 'stores'],
+      color: '#8b5cf6',
+      enabled: true
+    },
+    {
+      id: 2,
+      name: 'IT Helpdesk',
+      purpose: 'Password reset, access requests',
+      conversationsPerDay: 1.0,
+      turns: 5,
+      generativeRatio: 0.60,
+      actions: 2,
+      tenantGraph: false,
+      eventCounts: {},
+      deployMonth: 1,
+      segments: ['hq', 'management', 'stores'],
+      color: '#3b82f6',
+      enabled: true
+    },
+    {
+      id: 3,
+      name: 'Document Search',
+      purpose: 'Policy docs, manuals',
+      conversationsPerDay: 1.0,
+      turns: 6,
+      generativeRatio: 0.80,
+      actions: 1,
+      tenantGraph: true,
+      eventCounts: {},
+      deployMonth: 4,
+      segments: ['hq', 'management'],
+      color: '#f59e0b',
+      enabled: true
+    },
+    {
+      id: 4,
+      name: 'Document Translation',
+      purpose: 'Translate PPT, Word, Excel documents',
+      conversationsPerDay: 0.75,
+      turns: 4,
+      generativeRatio: 0.95,
+      actions: 2.5,
+      tenantGraph: false,
+      eventCounts: {},
+      deployMonth: 5,
+      segments: ['hq', 'management'],
+      color: '#22c55e',
+      enabled: true
+    },
+    {
+      id: 5,
+      name: 'Document Summarization',
+      purpose: 'Summarize PPT, Word, Excel documents',
+      conversationsPerDay: 1.5,
+      turns: 5,
+      generativeRatio: 0.85,
+      actions: 1.5,
+      tenantGraph: false,
+      eventCounts: {},
+      deployMonth: 2,
+      segments: ['hq', 'management', 'stores'],
+      color: '#ef4444',
+      enabled: true
+    }
+  ],
+  config: {
+    autonomousActionRatio: 0.15,
+    hybridM365Users: 200
+  }
+};
+
+const nextScenarioId = (scenarios: Scenario[]): string => {
+  let n = scenarios.length + 1;
+  while (scenarios.some(s => s.id === `scenario-${n}`)) n++;
+  return `scenario-${n}`;
+};
+
+export const createScenario = (
+  name: string,
+  inputs: ScenarioInputs,
+  existing: Scenario[],
+  now: Date = new Date()
+): Scenario => ({
+  ...inputs,
+  id: nextScenarioId(existing),
+  name,
+  updatedAt: now.toISOString()
+});
+
+// First of "<name>", "<name> 2", "<name> 3"... not used by an existing scenario
+export const uniqueScenarioName = (name: string, existing: Scenario[]): string => {
+  let candidate = name;
+  let n = 2;
+  while (existing.some(s => s.name === candidate)) {
+    candidate = `${name} ${n++}`;
+  }
+  return candidate;
+};
+
+// Copy a scenario under the first free "<name> (copy)" name
+export const duplicateScenario = (scenario: Scenario, existing: Scenario[], now: Date = new Date()): Scenario => {
+  let name = `${scenario.name} (copy)`;
+  let n = 2;
+  while (existing.some(s => s.name === name)) {
+    name = `${scenario.name} (copy ${n++})`;
+  }
+  const { stages, segments, agents, config } = scenario;
+  return createScenario(name, { stages, segments, agents, config }, existing, now);
+};
+
+// Agent added through the agent form, which edits neither its id, colour nor whether it is enabled
+export const createAgent = (data: Partial<Agent>, agents: Agent[], color: string): Agent => ({
+  tenantGraph: false,
+  eventCounts: {},
+  enabled: true,
+  ...data,
+  id: Math.max(...agents.map(a => a.id), 0) + 1,
+  color
+}) as Agent;
+
+// Returns a list of human-readable problems with a new or renamed scenario name
+export const validateScenarioName = (name: string, scenarios: Scenario[], scenarioId?: string): string[] => {
+  if (!name.trim()) {
+    return ['Scenario name is required'];
+  }
+  if (scenarios.some(s => s.id !== scenarioId && s.name.trim() === name.trim())) {
+    return [`A scenario named "${name.trim()}" already exists`];
+  }
+  return [];
+};
+
+// Store the working inputs in the active scenario; unchanged inputs keep the store as is
+export const updateActiveScenario = (
+  store: ScenarioStore,
+  inputs: ScenarioInputs,
+  now: Date = new Date()
+): ScenarioStore => {
+  const active = store.scenarios.find(s => s.id === store.activeScenarioId);
+  if (!active) return store;
+
+  const { stages, segments, agents, config } = active;
+  if (JSON.stringify({ stages, segments, agents, config }) === JSON.stringify(inputs)) return store;
+
+  return {
+    ...store,
+    scenarios: store.scenarios.map(s =>
+      s.id === active.id ? { ...s, ...inputs, updatedAt: now.toISOString() } : s
+    )
+  };
+};
+
+const getScenarioLabel = (scenario: Record<string, unknown>): string =>
+  typeof scenario.name === 'string' && scenario.name.trim() ? scenario.name : 'Scenario';
+
+// Problems that keep a scenario from being opened at all, as opposed to inputs that can be fixed in the editors
+const validateScenarioShape = (value: unknown): string[] => {
+  if (!value || typeof value !== 'object') {
+    return ['Scenario must be an object'];
+  }
+
+  const scenario = value as Record<string, unknown>;
+  const label = getScenarioLabel(scenario);
+  const errors: string[] = [];
+
+  if (typeof scenario.id !== 'string' || scenario.id === '') {
+    errors.push(`${label}: id must be a non-empty string`);
+  }
+  if (typeof scenario.name !== 'string' || scenario.name.trim() === '') {
+    errors.push(`${label}: name is required`);
+  }
+  (['segments', 'stages', 'agents'] as const).forEach(key => {
+    const list = scenario[key];
+    if (!Array.isArray(list)) {
+      errors.push(`${label}: ${key} must be a list`);
+    } else if (list.some(item => !item || typeof item !== 'object')) {
+      errors.push(`${label}: every entry in ${key} must be an object`);
+    }
+  });
+  if (!scenario.config || typeof scenario.config !== 'object') {
+    errors.push(`${label}: config must be an object`);
+  }
+  return errors;
+};
+
+// Returns a list of human-readable problems; an empty list means the scenario can be projected
+export const validateScenario = (value: unknown): string[] => {
+  const errors = validateScenarioShape(value);
+  if (errors.length > 0) return errors;
+
+  const scenario = value as Record<string, unknown>;
+  const label = getScenarioLabel(scenario);
+  const segments = scenario.segments as Segment[];
+  return [
+    ...validateSegments(segments),
+    ...validateStages(scenario.stages as Stage[], segments),
+    ...validateAgents(scenario.agents as Agent[], segments),
+    ...validateConfig(scenario.config as Config)
+  ].map(error => `${label}: ${error}`);
+};
+
+const createDefaultStore = (): ScenarioStore => {
+  const baseline = createScenario('Baseline', DEFAULT_SCENARIO_INPUTS, []);
+  return { activeScenarioId: baseline.id, scenarios: [baseline] };
+};
+
+// Agents saved by the agent form before it set them, which would otherwise fail validation
+const repairAgent = (agent: Agent): Agent => ({
+  ...agent,
+  tenantGraph: agent.tenantGraph ?? false,
+  eventCounts: agent.eventCounts ?? {},
+  enabled: agent.enabled ?? true
+});
+
+// Load saved scenarios, seeding a baseline when none remain. Scenarios are saved as they are edited, so one with
+// invalid inputs is kept for the user to fix (validateScenario reports what is wrong); only unreadable ones are dropped.
+export const loadScenarioStore = (storage: Pick<Storage, 'getItem'> = localStorage): ScenarioStore => {
+  try {
+    const raw = storage.getItem(SCENARIO_STORE_STORAGE_KEY);
+    if (!raw) return createDefaultStore();
+
+    const parsed = JSON.parse(raw) as Partial<ScenarioStore>;
+    const scenarios = Array.isArray(parsed.scenarios)
+      ? parsed.scenarios
+        .filter(s => validateScenarioShape(s).length === 0)
+        .map(s => ({ ...s, agents: s.agents.map(repairAgent) }))
+      : [];
+    if (scenarios.length === 0) return createDefaultStore();
+
+    const activeScenarioId = scenarios.some(s => s.id === parsed.activeScenarioId)
+      ? parsed.activeScenarioId as string
+      : scenarios[0].id;
+    return { activeScenarioId, scenarios };
+  } catch {
+    return createDefaultStore();
+  }
+};
+
+export const saveScenarioStore = (store: ScenarioStore, storage: Pick<Storage, 'setItem'> = localStorage): void => {
+  storage.setItem(SCENARIO_STORE_STORAGE_KEY, JSON.stringify(store));
+};
+
+// Versioned JSON document used to share a complete model between users and check it into source control.
+// Version 1 is the original calculator shape: agents target the fixed HQ/Management/Stores/All audiences,
+// stages carry no segment headcounts and the M365 Copilot price lives in the config.
+export const SCENARIO_DOCUMENT_SCHEMA_VERSION = 2;
+
+export interface ScenarioDocument extends ScenarioInputs {
+  schemaVersion: number;
+  name: string;
+  exportedAt: string;
+  pricing: PricingCatalog;
+}
+
+export interface ScenarioDocumentImport {
+  document: ScenarioDocument | null;
+  errors: string[];
+}
+
+export const createScenarioDocument = (
+  scenario: Scenario,
+  pricing: PricingCatalog,
+  now: Date = new Date()
+): ScenarioDocument => ({
+  schemaVersion: SCENARIO_DOCUMENT_SCHEMA_VERSION,
+  name: scenario.name,
+  exportedAt: now.toISOString(),
+  stages: scenario.stages,
+  segments: scenario.segments,
+  agents: scenario.agents,
+  config: scenario.config,
+  pricing
+});
+
+// Upgrade a version 1 document: fixed audiences become the default segments
+const migrateDocumentV1 = (doc: Record<string, unknown>): Record<string, unknown> => {
+  const segments = DEFAULT_SCENARIO_INPUTS.segments;
+  const toSegmentIds = (names: unknown): unknown => Array.isArray(names)
+    ? Array.from(new Set(names.flatMap((name: string) =>
+      name === 'All' ? segments.map(s => s.id) : [segments.find(s => s.name === name)?.id ?? name]
+    )))
+    : names;
+
+  const { m365CopilotPrice, ...config } = (doc.config || {}) as Record<string, unknown>;
+  const pricing = (migratePricingCatalog(doc.pricing) || { ...DEFAULT_PRICING_CATALOG }) as Record<string, unknown>;
+
+  return {
+    ...doc,
+    schemaVersion: 2,
+    segments,
+    stages: Array.isArray(doc.stages)
+      ? doc.stages.map((stage: Record<string, unknown>) => ({ segmentUsers: {}, ...stage }))
+      : doc.stages,
+    agents: Array.isArray(doc.agents)
+      ? doc.agents.map((agent: Record<string, unknown>) => ({ eventCounts: {}, ...agent, segments: toSegmentIds(agent.segments) }))
+      : doc.agents,
+    config,
+    pricing: m365CopilotPrice === undefined ? pricing : { ...pricing, m365CopilotPrice }
+  };
+};
+
+// Bring a document of any known schema version up to the current one
+export const migrateScenarioDocument = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') return value;
+
+  let doc = value as Record<string, unknown>;
+  if (doc.schemaVersion === 1) doc = migrateDocumentV1(doc);
+  if (doc.pricing) doc = { ...doc, pricing: migratePricingCatalog(doc.pricing) };
+  return doc;
+};
+
+// Parse, migrate and validate an imported document; errors name the offending fields
+export const parseScenarioDocument = (json: string): ScenarioDocumentImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { document: null, errors: ['File is not valid JSON'] };
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    return { document: null, errors: ['Document must be a JSON object'] };
+  }
+
+  const version = (parsed as Record<string, unknown>).schemaVersion;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return { document: null, errors: ['schemaVersion must be a positive whole number'] };
+  }
+  if ((version as number) > SCENARIO_DOCUMENT_SCHEMA_VERSION) {
+    return {
+      document: null,
+      errors: [`schemaVersion ${version} is newer than this calculator supports (${SCENARIO_DOCUMENT_SCHEMA_VERSION})`]
+    };
+  }
+
+  const doc = migrateScenarioDocument(parsed) as Record<string, unknown>;
+  const errors = validateScenario({ ...doc, id: 'imported' });
+  validatePricingCatalog(doc.pricing).forEach(error => errors.push(`pricing: ${error}`));
+
+  return errors.length > 0 ? { document: null, errors } : { document: doc as unknown as ScenarioDocument, errors };
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Stage, Segment, Agent, Config, calculateProjection } from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { calculateSensitivity, rankSensitivity } from './sensitivity';
+
+describe('Sensitivity Analysis', () => {
+  const stages: Stage[] = [
+    { name: 'Pilot', users: 100, month: 1, dau: 0.5, phase: 'Pilot', segmentUsers: {} },
+    { name: 'Enterprise', users: 1000, month: 13, dau: 0.5, phase: 'Enterprise', segmentUsers: {} }
+  ];
+
+  const segments: Segment[] = [
+    { id: 'hq', name: 'HQ', share: 0.2 },
+    { id: 'field', name: 'Field', share: 0.8 }
+  ];
+
+  const agent: Agent = {
+    id: 1,
+    name: 'HR Helper',
+    purpose: 'Benefits, PTO, policies',
+    conversationsPerDay: 1,
+    turns: 4,
+    generativeRatio: 0.5,
+    actions: 1,
+    tenantGraph: true,
+    eventCounts: {},
+    deployMonth: 1,
+    segments: ['hq', 'field'],
+    color: '#8b5cf6',
+    enabled: true
+  };
+
+  const config: Config = { autonomousActionRatio: 0.15, hybridM365Users: 20 };
+  const pricing = DEFAULT_PRICING_CATALOG;
+
+  describe('calculateSensitivity', () => {
+    it('should perturb every agent, stage and global input', () => {
+      const result = calculateSensitivity(stages, segments, [agent, { ...agent, id: 2, enabled: false }], config, pricing, 0.2);
+      expect(result.drivers.map(d => d.label)).toEqual([
+        'HR Helper: conversations/day',
+        'HR Helper: turns',
+        'HR Helper: generative ratio',
+        'HR Helper: actions',
+        'HR Helper: Graph grounding',
+        'Pilot: DAU',
+        'Pilot: users',
+        'Enterprise: DAU',
+        'Enterprise: users',
+        'Autonomous action ratio',
+        'M365 Copilot price'
+      ]);
+      expect(result.baseline).toEqual(
+        calculateProjection(stages, segments, [agent], config, pricing).pricingSummary.map(s => s.total)
+      );
+    });
+
+    it('should scale usage-driven costs with the conversation rate', () => {
+      const result = calculateSensitivity(stages, segments, [agent], config, pricing, 0.1);
+      const conversations = result.drivers.find(d => d.id === 'agent-1-conversationsPerDay');
+      // PAYG cost is proportional to conversations, up to per-month rounding
+      expect(conversations?.high[0]).toBeCloseTo(result.baseline[0] * 1.1, -2);
+      expect(conversations?.low[0]).toBeCloseTo(result.baseline[0] * 0.9, -2);
+      // Licensing every user does not depend on usage
+      expect(conversations?.high[4]).toBe(result.baseline[4]);
+    });
+  });
+
+  describe('rankSensitivity', () => {
+    it('should rank inputs by swing and drop those that do not move the model', () => {
+      const result = calculateSensitivity(stages, segments, [agent], config, pricing, 0.2);
+      const bars = rankSensitivity(result, 'm365AllCost');
+      expect(bars.map(b => b.id).sort()).toEqual(['m365CopilotPrice', 'stage-0-users', 'stage-1-users']);
+      expect(bars[0].id).toBe('m365CopilotPrice');
+      expect(bars[0].low).toBeLessThan(0);
+      expect(bars[0].high).toBeGreaterThan(0);
+      expect(bars[0].swing).toBe(bars[0].high - bars[0].low);
+    });
+
+    it('should leave the M365 price out of the PAYG tornado', () => {
+      const bars = rankSensitivity(calculateSensitivity(stages, segments, [agent], config, pricing, 0.2), 'paygCost');
+      expect(bars.map(b => b.id)).not.toContain('m365CopilotPrice');
+      bars.slice(1).forEach((bar, idx) => expect(bar.swing).toBeLessThanOrEqual(bars[idx].swing));
+    });
+  });
+});
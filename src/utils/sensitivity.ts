@@ -0,0 +1,169 @@
+// Sensitivity analysis: how far each input moves the projection total of each pricing model
+
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  PRICING_MODELS,
+  calculateProjectionMonths,
+  calculatePricingSummary
+} from './calculations';
+import { PricingCatalog } from './pricing';
+
+interface SensitivityInputs {
+  stages: Stage[];
+  agents: Agent[];
+  config: Config;
+  pricing: PricingCatalog;
+}
+
+interface Perturbation {
+  id: string;
+  label: string;
+  apply: (inputs: SensitivityInputs, factor: number) => SensitivityInputs;
+}
+
+export interface SensitivityDriver {
+  id: string;
+  label: string;
+  low: number[]; // projection total per pricing model (PRICING_MODELS order) with the input decreased
+  high: number[]; // ... and with the input increased
+}
+
+export interface SensitivityResult {
+  change: number;
+  baseline: number[];
+  drivers: SensitivityDriver[];
+}
+
+export interface TornadoBar {
+  id: string;
+  label: string;
+  low: number; // change of the model's projection total when the input is decreased
+  high: number; // ... and when it is increased
+  swing: number;
+}
+
+const scale = (value: number, factor: number, upper = Infinity): number => Math.min(upper, value * factor);
+
+const updateAgent = (inputs: SensitivityInputs, id: number, update: (agent: Agent) => Partial<Agent>): SensitivityInputs => ({
+  ...inputs,
+  agents: inputs.agents.map(agent => agent.id === id ? { ...agent, ...update(agent) } : agent)
+});
+
+const updateStage = (inputs: SensitivityInputs, index: number, update: (stage: Stage) => Partial<Stage>): SensitivityInputs => ({
+  ...inputs,
+  stages: inputs.stages.map((stage, idx) => idx === index ? { ...stage, ...update(stage) } : stage)
+});
+
+// Every input the analysis perturbs: usage of each enabled agent, each stage's rollout and the global settings
+const buildPerturbations = (stages: Stage[], agents: Agent[]): Perturbation[] => [
+  ...agents.filter(agent => agent.enabled).flatMap((agent): Perturbation[] => [
+    {
+      id: `agent-${agent.id}-conversationsPerDay`,
+      label: `${agent.name}: conversations/day`,
+      apply: (inputs, factor) => updateAgent(inputs, agent.id, a => ({ conversationsPerDay: scale(a.conversationsPerDay, factor) }))
+    },
+    {
+      id: `agent-${agent.id}-turns`,
+      label: `${agent.name}: turns`,
+      apply: (inputs, factor) => updateAgent(inputs, agent.id, a => ({ turns: scale(a.turns, factor) }))
+    },
+    {
+      id: `agent-${agent.id}-generativeRatio`,
+      label: `${agent.name}: generative ratio`,
+      apply: (inputs, factor) => updateAgent(inputs, agent.id, a => ({ generativeRatio: scale(a.generativeRatio, factor, 1) }))
+    },
+    {
+      id: `agent-${agent.id}-actions`,
+      label: `${agent.name}: actions`,
+      apply: (inputs, factor) => updateAgent(inputs, agent.id, a => ({ actions: scale(a.actions, factor) }))
+    },
+    // Grounded answers per conversation; an explicit event count overrides the one derived from the conversation shape
+    ...(agent.tenantGraph ? [{
+      id: `agent-${agent.id}-tenantGraph`,
+      label: `${agent.name}: Graph grounding`,
+      apply: (inputs: SensitivityInputs, factor: number) => updateAgent(inputs, agent.id, a => ({
+        eventCounts: {
+          ...a.eventCounts,
+          tenantGraphGrounding: scale(a.eventCounts.tenantGraphGrounding ?? a.turns * a.generativeRatio, factor)
+        }
+      }))
+    }] : [])
+  ]),
+  ...stages.flatMap((stage, index): Perturbation[] => [
+    {
+      id: `stage-${index}-dau`,
+      label: `${stage.name}: DAU`,
+      apply: (inputs, factor) => updateStage(inputs, index, s => ({ dau: scale(s.dau, factor, 1) }))
+    },
+    {
+      id: `stage-${index}-users`,
+      label: `${stage.name}: users`,
+      apply: (inputs, factor) => updateStage(inputs, index, s => ({
+        users: Math.round(s.users * factor),
+        segmentUsers: Object.fromEntries(Object.entries(s.segmentUsers).map(([id, users]) => [id, Math.round(users * factor)]))
+      }))
+    }
+  ]),
+  {
+    id: 'autonomousActionRatio',
+    label: 'Autonomous action ratio',
+    apply: (inputs, factor) => ({
+      ...inputs,
+      config: { ...inputs.config, autonomousActionRatio: scale(inputs.config.autonomousActionRatio, factor, 1) }
+    })
+  },
+  {
+    id: 'm365CopilotPrice',
+    label: 'M365 Copilot price',
+    apply: (inputs, factor) => ({
+      ...inputs,
+      pricing: { ...inputs.pricing, m365CopilotPrice: scale(inputs.pricing.m365CopilotPrice, factor) }
+    })
+  }
+];
+
+const projectTotals = (inputs: SensitivityInputs, segments: Segment[]): number[] =>
+  calculatePricingSummary(calculateProjectionMonths(inputs.stages, segments, inputs.agents, inputs.config, inputs.pricing))
+    .map(summary => summary.total);
+
+// Re-run the projection with each input decreased and increased by `change` (0.2 for ±20%)
+export const calculateSensitivity = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog,
+  change: number
+): SensitivityResult => {
+  const inputs: SensitivityInputs = { stages, agents, config, pricing };
+
+  return {
+    change,
+    baseline: projectTotals(inputs, segments),
+    drivers: buildPerturbations(stages, agents).map(({ id, label, apply }) => ({
+      id,
+      label,
+      low: projectTotals(apply(inputs, 1 - change), segments),
+      high: projectTotals(apply(inputs, 1 + change), segments)
+    }))
+  };
+};
+
+// Tornado bars for one pricing model, largest swing first; inputs that do not move the model are left out
+export const rankSensitivity = (result: SensitivityResult, modelKey: keyof MonthlyData): TornadoBar[] => {
+  const modelIdx = PRICING_MODELS.findIndex(m => m.key === modelKey);
+  const baseline = result.baseline[modelIdx];
+
+  return result.drivers
+    .map(({ id, label, low, high }) => {
+      const lowChange = low[modelIdx] - baseline;
+      const highChange = high[modelIdx] - baseline;
+      return { id, label, low: lowChange, high: highChange, swing: Math.abs(lowChange) + Math.abs(highChange) };
+    })
+    .filter(bar => bar.swing > 0)
+    .sort((a, b) => b.swing - a.swing);
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import { DEFAULT_SCENARIO_INPUTS, createScenario, createScenarioDocument } from './scenarios';
+import {
+  SHARE_HASH_PREFIX,
+  compressToBase64Url,
+  decompressFromBase64Url,
+  encodeShareHash,
+  decodeShareHash,
+  getSharedPricingWarning
+} from './share';
+
+describe('Share Links', () => {
+  const scenario = createScenario('Aggressive rollout', DEFAULT_SCENARIO_INPUTS, [], new Date('2026-01-15T10:00:00Z'));
+  const doc = createScenarioDocument(scenario, DEFAULT_PRICING_CATALOG, new Date('2026-01-15T10:00:00Z'));
+
+  describe('compression', () => {
+    it('should round-trip text through URL-safe base64', async () => {
+      const text = JSON.stringify(doc);
+      const encoded = await compressToBase64Url(text);
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(encoded.length).toBeLessThan(text.length / 2);
+      expect(await decompressFromBase64Url(encoded)).toBe(text);
+    });
+  });
+
+  describe('encodeShareHash / decodeShareHash', () => {
+    it('should restore the scenario document from the hash', async () => {
+      const hash = await encodeShareHash(doc);
+      expect(hash.startsWith(SHARE_HASH_PREFIX)).toBe(true);
+
+      const result = await decodeShareHash(hash);
+      expect(result?.errors).toEqual([]);
+      expect(result?.document).toEqual(doc);
+    });
+
+    it('should ignore hashes that are not share links', async () => {
+      expect(await decodeShareHash('')).toBeNull();
+      expect(await decodeShareHash('#pricing')).toBeNull();
+    });
+
+    it('should report damaged links', async () => {
+      const hash = await encodeShareHash(doc);
+      const result = await decodeShareHash(hash.slice(0, hash.length / 2));
+      expect(result?.document).toBeNull();
+      expect(result?.errors).toEqual(['The shared link is damaged or incomplete']);
+    });
+
+    it('should report invalid documents with field errors', async () => {
+      const hash = `${SHARE_HASH_PREFIX}${await compressToBase64Url(JSON.stringify({ ...doc, config: { ...doc.config, autonomousActionRatio: 2 } }))}`;
+      const result = await decodeShareHash(hash);
+      expect(result?.errors).toEqual(['Aggressive rollout: autonomousActionRatio must be between 0 and 1']);
+    });
+  });
+
+  describe('getSharedPricingWarning', () => {
+    const local = { ...DEFAULT_PRICING_CATALOG, version: 3, effectiveDate: '2026-03-01', paygRate: 0.009 };
+
+    it('should not warn when the pricing matches, whatever the local version number', () => {
+      expect(getSharedPricingWarning({ ...local, version: 1 }, local)).toBeNull();
+    });
+
+    it('should warn when the link used an older catalog', () => {
+      expect(getSharedPricingWarning(DEFAULT_PRICING_CATALOG, local)).toBe(
+        'This link was produced with an older pricing catalog v1 (Microsoft list price, effective 2025-11-01) ' +
+        'than your catalog v3 (Microsoft list price, effective 2026-03-01).'
+      );
+    });
+
+    it('should describe newer and different catalogs', () => {
+      expect(getSharedPricingWarning(local, DEFAULT_PRICING_CATALOG)).toContain('a newer pricing catalog');
+      expect(getSharedPricingWarning({ ...local, paygRate: 0.01 }, local)).toContain('a different pricing catalog');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+// Shareable links: a scenario document compressed into the URL hash
+
+import { PricingCatalog } from './pricing';
+import { ScenarioDocument, ScenarioDocumentImport, parseScenarioDocument } from './scenarios';
+
+export const SHARE_HASH_PREFIX = '#scenario=';
+
+const streamBytes = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Deflate the text and encode it with the URL-safe base64 alphabet
+export const compressToBase64Url = async (text: string): Promise<string> =>
+  toBase64Url(await streamBytes(new TextEncoder().encode(text), new CompressionStream('deflate-raw')));
+
+export const decompressFromBase64Url = async (value: string): Promise<string> =>
+  new TextDecoder().decode(await streamBytes(fromBase64Url(value), new DecompressionStream('deflate-raw')));
+
+export const encodeShareHash = async (doc: ScenarioDocument): Promise<string> =>
+  `${SHARE_HASH_PREFIX}${await compressToBase64Url(JSON.stringify(doc))}`;
+
+// Decode a share link hash; null when the hash is not a share link
+export const decodeShareHash = async (hash: string): Promise<ScenarioDocumentImport | null> => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+
+  try {
+    return parseScenarioDocument(await decompressFromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)));
+  } catch {
+    return { document: null, errors: ['The shared link is damaged or incomplete'] };
+  }
+};
+
+// Explain how the pricing behind a shared link differs from the local catalog; null when they match
+export const getSharedPricingWarning = (linkPricing: PricingCatalog, localPricing: PricingCatalog): string | null => {
+  if (JSON.stringify({ ...linkPricing, version: 0 }) === JSON.stringify({ ...localPricing, version: 0 })) {
+    return null;
+  }
+
+  const link = `pricing catalog v${linkPricing.version} (${linkPricing.source}, effective ${linkPricing.effectiveDate})`;
+  const local = `your catalog v${localPricing.version} (${localPricing.source}, effective ${localPricing.effectiveDate})`;
+  const relation = linkPricing.effectiveDate < localPricing.effectiveDate
+    ? 'an older'
+    : linkPricing.effectiveDate > localPricing.effectiveDate ? 'a newer' : 'a different';
+  return `This link was produced with ${relation} ${link} than ${local}.`;
+};
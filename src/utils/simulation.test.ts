@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { Stage, Segment, Agent, Config, PRICING_MODELS, calculateProjection } from './calculations';
+import { DEFAULT_PRICING_CATALOG } from './pricing';
+import {
+  createRandom,
+  sampleTriangular,
+  sampleInputs,
+  applyRangeSpread,
+  percentile,
+  runMonteCarlo
+} from './simulation';
+
+describe('Monte Carlo Simulation', () => {
+  const stages: Stage[] = [
+    { name: 'Pilot', users: 100, month: 1, dau: 0.5, phase: 'Pilot', segmentUsers: {} },
+    { name: 'Enterprise', users: 1000, month: 13, dau: 0.5, phase: 'Enterprise', segmentUsers: {} }
+  ];
+
+  const segments: Segment[] = [
+    { id: 'hq', name: 'HQ', share: 0.2 },
+    { id: 'field', name: 'Field', share: 0.8 }
+  ];
+
+  const agent: Agent = {
+    id: 1,
+    name: 'HR Helper',
+    purpose: 'Benefits, PTO, policies',
+    conversationsPerDay: 1,
+    turns: 4,
+    generativeRatio: 0.5,
+    actions: 1,
+    tenantGraph: false,
+    eventCounts: {},
+    deployMonth: 1,
+    segments: ['hq', 'field'],
+    color: '#8b5cf6',
+    enabled: true
+  };
+
+  const config: Config = { autonomousActionRatio: 0.15, hybridM365Users: 20 };
+  const pricing = DEFAULT_PRICING_CATALOG;
+
+  describe('createRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const values = [a(), a(), a()];
+      expect([b(), b(), b()]).toEqual(values);
+      values.forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+  });
+
+  describe('sampleTriangular', () => {
+    it('should map the unit interval onto [min, max] through the most likely value', () => {
+      expect(sampleTriangular(1, 2, 4, 0)).toBe(1);
+      expect(sampleTriangular(1, 2, 4, 1)).toBe(4);
+      expect(sampleTriangular(1, 2, 4, 1 / 3)).toBeCloseTo(2);
+    });
+
+    it('should return the estimate for an empty range', () => {
+      expect(sampleTriangular(2, 2, 2, 0.7)).toBe(2);
+    });
+  });
+
+  describe('percentile', () => {
+    it('should interpolate between neighbouring samples', () => {
+      expect(percentile([10, 20, 30, 40, 50], 0.5)).toBe(30);
+      expect(percentile([10, 20, 30, 40, 50], 0.1)).toBe(14);
+      expect(percentile([], 0.5)).toBe(0);
+    });
+  });
+
+  describe('sampleInputs', () => {
+    it('should keep estimates without a range and sample the others within their range', () => {
+      const random = createRandom(7);
+      const sample = sampleInputs(stages, [{ ...agent, ranges: { turns: { min: 2, max: 10 } } }], random);
+      expect(sample.stages).toEqual(stages);
+      expect(sample.agents[0].conversationsPerDay).toBe(1);
+      expect(sample.agents[0].turns).toBeGreaterThanOrEqual(2);
+      expect(sample.agents[0].turns).toBeLessThanOrEqual(10);
+    });
+  });
+
+  describe('applyRangeSpread', () => {
+    it('should bracket every estimate and cap ratios at 100%', () => {
+      const spread = applyRangeSpread([{ ...stages[0], dau: 0.9 }], [agent], 0.2);
+      expect(spread.stages[0].dauRange?.min).toBeCloseTo(0.72);
+      expect(spread.stages[0].dauRange?.max).toBe(1);
+      expect(spread.agents[0].ranges?.turns).toEqual({ min: 3.2, max: 4.8 });
+      expect(spread.agents[0].ranges?.generativeRatio).toEqual({ min: 0.4, max: 0.6 });
+    });
+
+    it('should clear the ranges for a spread of zero', () => {
+      const spread = applyRangeSpread(stages, [agent], 0.2);
+      const cleared = applyRangeSpread(spread.stages, spread.agents, 0);
+      expect(cleared.stages).toEqual(stages);
+      expect(cleared.agents).toEqual([agent]);
+    });
+  });
+
+  describe('runMonteCarlo', () => {
+    it('should collapse to the point projection when no input has a range', () => {
+      const { pricingSummary, monthlyData } = calculateProjection(stages, segments, [agent], config, pricing);
+      const result = runMonteCarlo(stages, segments, [agent], config, pricing, 20);
+
+      expect(result.iterations).toBe(20);
+      expect(result.months).toHaveLength(36);
+      expect(result.months[11].bands.paygCost).toEqual({
+        p10: monthlyData[11].paygCost,
+        p50: monthlyData[11].paygCost,
+        p90: monthlyData[11].paygCost
+      });
+      result.models.forEach((model, idx) => {
+        expect(model.model).toBe(PRICING_MODELS[idx].model);
+        expect(model.total.p10).toBe(pricingSummary[idx].total);
+        expect(model.total.p90).toBe(pricingSummary[idx].total);
+      });
+      expect(result.models.map(m => m.probabilityCheapest).sort()).toEqual([0, 0, 0, 0, 0, 1]);
+    });
+
+    it('should produce ordered bands and cheapest-model probabilities that sum to one', () => {
+      const uncertain = applyRangeSpread(stages, [agent], 0.5);
+      const result = runMonteCarlo(uncertain.stages, segments, uncertain.agents, config, pricing, 200, createRandom(3));
+      const payg = result.models.find(m => m.key === 'paygCost');
+
+      expect(payg?.total.p10).toBeLessThan(payg?.total.p50 ?? 0);
+      expect(payg?.total.p50).toBeLessThan(payg?.total.p90 ?? 0);
+      expect(result.months[20].bands.paygCost.p10).toBeLessThan(result.months[20].bands.paygCost.p90);
+      // Licensing every user does not depend on usage
+      const m365All = result.models.find(m => m.key === 'm365AllCost');
+      expect(m365All?.total.p10).toBe(m365All?.total.p90);
+      expect(result.models.reduce((sum, m) => sum + m.probabilityCheapest, 0)).toBeCloseTo(1);
+    });
+
+    it('should be reproducible for a seed', () => {
+      const uncertain = applyRangeSpread(stages, [agent], 0.3);
+      const run = () => runMonteCarlo(uncertain.stages, segments, uncertain.agents, config, pricing, 50, createRandom(9));
+      expect(run()).toEqual(run());
+    });
+  });
+});
@@ -0,0 +1,181 @@
+// Monte Carlo simulation: sample uncertain usage estimates and summarise the spread of projected costs
+
+import {
+  Stage,
+  Segment,
+  Agent,
+  Config,
+  MonthlyData,
+  ValueRange,
+  AGENT_RANGE_FIELDS,
+  PRICING_MODELS,
+  getHorizonMonths,
+  calculateProjectionMonths,
+  calculatePricingSummary,
+  findCheapestModel
+} from './calculations';
+import { PricingCatalog } from './pricing';
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface SimulatedMonth {
+  month: number;
+  bands: Record<string, PercentileBand>; // keyed by the pricing model's MonthlyData cost field
+}
+
+export interface SimulatedModel {
+  model: string;
+  key: keyof MonthlyData;
+  color: string;
+  years: PercentileBand[]; // per budget year, in getYearLabels order
+  total: PercentileBand;
+  probabilityCheapest: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  months: SimulatedMonth[];
+  models: SimulatedModel[];
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 500;
+
+// Seeded pseudo-random generator (mulberry32) so a seed always reproduces the same simulation
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Inverse CDF of the triangular distribution with the given min, most likely value and max
+export const sampleTriangular = (min: number, likely: number, max: number, u: number): number => {
+  if (max <= min) return likely;
+  const split = (likely - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+};
+
+const sampleRange = (range: ValueRange | undefined, estimate: number, random: () => number): number =>
+  range ? sampleTriangular(range.min, estimate, range.max, random()) : estimate;
+
+// Draw one set of stage and agent inputs; estimates without a range stay fixed
+export const sampleInputs = (
+  stages: Stage[],
+  agents: Agent[],
+  random: () => number
+): { stages: Stage[]; agents: Agent[] } => ({
+  stages: stages.map(stage => ({ ...stage, dau: sampleRange(stage.dauRange, stage.dau, random) })),
+  agents: agents.map(agent => {
+    const sampled = { ...agent };
+    AGENT_RANGE_FIELDS.forEach(field => {
+      sampled[field] = sampleRange(agent.ranges?.[field], agent[field], random);
+    });
+    return sampled;
+  })
+});
+
+// Give every estimate a range of ± spread (0.2 for ±20%), keeping ratios within 0-100%; a spread of 0 clears the ranges
+export const applyRangeSpread = (stages: Stage[], agents: Agent[], spread: number): { stages: Stage[]; agents: Agent[] } => {
+  const around = (estimate: number, upper = Infinity): ValueRange => ({
+    min: Math.max(0, estimate * (1 - spread)),
+    max: Math.min(upper, estimate * (1 + spread))
+  });
+
+  if (spread <= 0) {
+    return {
+      stages: stages.map(({ dauRange: _dauRange, ...stage }) => stage),
+      agents: agents.map(({ ranges: _ranges, ...agent }) => agent)
+    };
+  }
+
+  return {
+    stages: stages.map(stage => ({ ...stage, dauRange: around(stage.dau, 1) })),
+    agents: agents.map(agent => ({
+      ...agent,
+      ranges: Object.fromEntries(AGENT_RANGE_FIELDS.map(field =>
+        [field, around(agent[field], field === 'generativeRatio' ? 1 : Infinity)]
+      ))
+    }))
+  };
+};
+
+// Percentile of an ascending list, interpolating between neighbouring samples
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const toBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: Math.round(percentile(sorted, 0.1)),
+    p50: Math.round(percentile(sorted, 0.5)),
+    p90: Math.round(percentile(sorted, 0.9))
+  };
+};
+
+// Run the projection for many sampled inputs and report P10/P50/P90 costs per pricing model,
+// monthly and per budget year, with the share of runs in which each model is the cheapest over the horizon
+export const runMonteCarlo = (
+  stages: Stage[],
+  segments: Segment[],
+  agents: Agent[],
+  config: Config,
+  pricing: PricingCatalog,
+  iterations: number = DEFAULT_SIMULATION_ITERATIONS,
+  random: () => number = createRandom(1)
+): SimulationResult => {
+  const horizonMonths = getHorizonMonths(config);
+  const monthSamples: number[][][] = PRICING_MODELS.map(() => Array.from({ length: horizonMonths }, () => []));
+  const summarySamples = PRICING_MODELS.map(() => ({ years: [] as number[][], total: [] as number[] }));
+  const cheapestCounts = PRICING_MODELS.map(() => 0);
+
+  for (let i = 0; i < iterations; i++) {
+    const sample = sampleInputs(stages, agents, random);
+    const monthlyData = calculateProjectionMonths(sample.stages, segments, sample.agents, config, pricing);
+    const pricingSummary = calculatePricingSummary(monthlyData);
+
+    monthlyData.forEach((data, monthIdx) => {
+      PRICING_MODELS.forEach(({ key }, modelIdx) => {
+        monthSamples[modelIdx][monthIdx].push(data[key] as number);
+      });
+    });
+    pricingSummary.forEach((summary, modelIdx) => {
+      const samples = summarySamples[modelIdx];
+      summary.years.forEach((cost, yearIdx) => {
+        (samples.years[yearIdx] = samples.years[yearIdx] || []).push(cost);
+      });
+      samples.total.push(summary.total);
+    });
+    cheapestCounts[pricingSummary.indexOf(findCheapestModel(pricingSummary))]++;
+  }
+
+  return {
+    iterations,
+    months: Array.from({ length: horizonMonths }, (_, monthIdx) => ({
+      month: monthIdx + 1,
+      bands: Object.fromEntries(PRICING_MODELS.map(({ key }, modelIdx) => [key, toBand(monthSamples[modelIdx][monthIdx])]))
+    })),
+    models: PRICING_MODELS.map(({ model, key, color }, modelIdx) => ({
+      model,
+      key,
+      color,
+      years: summarySamples[modelIdx].years.map(toBand),
+      total: toBand(summarySamples[modelIdx].total),
+      probabilityCheapest: iterations > 0 ? cheapestCounts[modelIdx] / iterations : 0
+    }))
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Config, MonthlyData } from './calculations';
+import { calculateCumulativeCosts, calculateCrossovers } from './timeline';
+
+describe('Breakeven Timeline', () => {
+  // PAYG grows by $100 a month against a flat $1,000 for M365 Copilot for All; the other models stay far apart
+  const monthlyData: MonthlyData[] = Array.from({ length: 36 }, (_, i) => ({
+    month: i + 1,
+    label: `Month ${i + 1}`,
+    year: `Year ${Math.floor(i / 12) + 1}`,
+    users: 100,
+    dau: 0.5,
+    dauPercent: 50,
+    activeUsers: 50,
+    segmentUsers: {},
+    conversations: 0,
+    credits: 0,
+    licensedUsers: 0,
+    licensedCredits: 0,
+    paygCost: (i + 1) * 100,
+    p3Cost: 5000,
+    paygM365Cost: 6000,
+    p3M365Cost: 7000,
+    m365AllCost: 1000,
+    packs: 1,
+    packCost: 8000
+  }));
+  const config: Config = { autonomousActionRatio: 0.15, hybridM365Users: 0 };
+
+  it('should accumulate each model cost month by month', () => {
+    const cumulative = calculateCumulativeCosts(monthlyData);
+
+    expect(cumulative).toHaveLength(36);
+    expect(cumulative[0].costs).toMatchObject({ paygCost: 100, m365AllCost: 1000 });
+    expect(cumulative[2].costs).toMatchObject({ paygCost: 600, m365AllCost: 3000 });
+    expect(cumulative[35].costs.paygCost).toBe(monthlyData.reduce((sum, m) => sum + m.paygCost, 0));
+  });
+
+  it('should find the month in which one model overtakes another', () => {
+    const crossovers = calculateCrossovers(monthlyData, 'monthly', config);
+
+    // PAYG equals M365 for All in month 10 and overtakes it in month 11
+    expect(crossovers[0]).toMatchObject({
+      month: 11,
+      basis: 'monthly',
+      moreExpensive: 'PAYG Alone',
+      cheaper: 'M365 Copilot for All',
+      moreExpensiveCost: 1100,
+      cheaperCost: 1000,
+      message: 'PAYG Alone becomes more expensive than M365 Copilot for All in Month 11'
+    });
+    // PAYG would reach P3 Pre-Purchase only in month 51, and the flat models never cross
+    expect(crossovers).toHaveLength(1);
+  });
+
+  it('should report crossovers on cost to date later than on monthly cost', () => {
+    const crossovers = calculateCrossovers(monthlyData, 'cumulative', config);
+    const paygVsM365 = crossovers.find(c => c.cheaperKey === 'm365AllCost' && c.moreExpensiveKey === 'paygCost');
+
+    // PAYG to date is 50 * n * (n + 1) against 1,000 * n: it catches up in month 19 and overtakes in month 20
+    expect(paygVsM365).toMatchObject({ month: 20, basis: 'cumulative', moreExpensiveCost: 21000, cheaperCost: 20000 });
+    expect(paygVsM365?.message).toBe('PAYG Alone becomes more expensive than M365 Copilot for All in total in Month 20');
+  });
+
+  it('should report a model falling back below another', () => {
+    const dipping = monthlyData.map(m => ({ ...m, paygCost: m.month >= 30 ? 500 : m.paygCost }));
+    const crossovers = calculateCrossovers(dipping, 'monthly', config).filter(c => c.cheaperKey === 'paygCost' || c.moreExpensiveKey === 'paygCost');
+
+    expect(crossovers.map(c => [c.month, c.moreExpensive, c.cheaper])).toEqual([
+      [11, 'PAYG Alone', 'M365 Copilot for All'],
+      [30, 'M365 Copilot for All', 'PAYG Alone']
+    ]);
+  });
+
+  it('should name the calendar month once the projection has a start date', () => {
+    const [crossover] = calculateCrossovers(monthlyData, 'monthly', { ...config, startDate: '2026-07' });
+    expect(crossover.message).toBe('PAYG Alone becomes more expensive than M365 Copilot for All in May 2027');
+  });
+});
@@ -0,0 +1,83 @@
+// Breakeven timeline: the months in which one pricing model overtakes another
+
+import { Config, MonthlyData, PRICING_MODELS, getMonthLabel } from './calculations';
+
+export type CostBasis = 'monthly' | 'cumulative';
+
+export interface CumulativeMonth {
+  month: number;
+  costs: Record<string, number>; // running total per pricing model, keyed by its MonthlyData cost field
+}
+
+export interface Crossover {
+  month: number; // first month in which `moreExpensive` costs more than `cheaper`
+  basis: CostBasis;
+  moreExpensive: string;
+  moreExpensiveKey: keyof MonthlyData;
+  cheaper: string;
+  cheaperKey: keyof MonthlyData;
+  moreExpensiveCost: number;
+  cheaperCost: number;
+  message: string;
+}
+
+export const calculateCumulativeCosts = (monthlyData: MonthlyData[]): CumulativeMonth[] => {
+  const totals: Record<string, number> = {};
+  return monthlyData.map(monthData => {
+    PRICING_MODELS.forEach(({ key }) => {
+      totals[key] = (totals[key] || 0) + (monthData[key] as number);
+    });
+    return { month: monthData.month, costs: { ...totals } };
+  });
+};
+
+// A pair crosses over when the model that was cheaper in the last month they differed becomes the more expensive one;
+// months in which both cost the same don't count as a crossover in either direction
+const findCrossovers = (
+  months: { month: number; costs: Record<string, number> }[],
+  basis: CostBasis,
+  config: Config
+): Crossover[] => {
+  const crossovers: Crossover[] = [];
+
+  PRICING_MODELS.forEach((a, aIdx) => {
+    PRICING_MODELS.slice(aIdx + 1).forEach(b => {
+      let lastSign = 0;
+
+      months.forEach(({ month, costs }) => {
+        const sign = Math.sign(costs[a.key] - costs[b.key]);
+        if (sign === 0) return;
+
+        if (lastSign !== 0 && sign !== lastSign) {
+          const [moreExpensive, cheaper] = sign > 0 ? [a, b] : [b, a];
+          crossovers.push({
+            month,
+            basis,
+            moreExpensive: moreExpensive.model,
+            moreExpensiveKey: moreExpensive.key,
+            cheaper: cheaper.model,
+            cheaperKey: cheaper.key,
+            moreExpensiveCost: costs[moreExpensive.key],
+            cheaperCost: costs[cheaper.key],
+            message: `${moreExpensive.model} becomes more expensive than ${cheaper.model} ${basis === 'cumulative' ? 'in total ' : ''}in ${getMonthLabel(month, config)}`
+          });
+        }
+        lastSign = sign;
+      });
+    });
+  });
+
+  return crossovers.sort((x, y) => x.month - y.month);
+};
+
+// Crossovers between every pair of pricing models, by monthly cost or by cost to date
+export const calculateCrossovers = (monthlyData: MonthlyData[], basis: CostBasis, config: Config): Crossover[] => {
+  const months = basis === 'cumulative'
+    ? calculateCumulativeCosts(monthlyData)
+    : monthlyData.map(monthData => ({
+      month: monthData.month,
+      costs: Object.fromEntries(PRICING_MODELS.map(({ key }) => [key, monthData[key] as number]))
+    }));
+
+  return findCrossovers(months, basis, config);
+};
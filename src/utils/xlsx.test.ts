@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, columnName, createZip, createWorkbook } from './xlsx';
+
+const text = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+describe('XLSX Writer', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('columnName', () => {
+    it('should convert indexes to spreadsheet column letters', () => {
+      expect(columnName(0)).toBe('A');
+      expect(columnName(25)).toBe('Z');
+      expect(columnName(26)).toBe('AA');
+      expect(columnName(701)).toBe('ZZ');
+      expect(columnName(702)).toBe('AAA');
+    });
+  });
+
+  describe('createZip', () => {
+    it('should write local headers, a central directory and the end record', () => {
+      const zip = createZip([{ path: 'a.txt', content: 'hello' }, { path: 'b.txt', content: 'world' }]);
+      const view = new DataView(zip.buffer);
+
+      expect(view.getUint32(0, true)).toBe(0x04034b50);
+      const end = zip.length - 22;
+      expect(view.getUint32(end, true)).toBe(0x06054b50);
+      expect(view.getUint16(end + 10, true)).toBe(2);
+      const centralOffset = view.getUint32(end + 16, true);
+      expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+      // Local header (30) + name (5) + data (5) per file
+      expect(centralOffset).toBe(80);
+    });
+  });
+
+  describe('createWorkbook', () => {
+    it('should include one worksheet part per sheet with typed cells', () => {
+      const content = text(createWorkbook([
+        { name: 'Monthly', rows: [['Month', 'Cost'], [1, 121.5]] },
+        { name: 'Notes & <Assumptions>', rows: [['a "quoted" value']] }
+      ]));
+
+      expect(content).toContain('xl/worksheets/sheet1.xml');
+      expect(content).toContain('xl/worksheets/sheet2.xml');
+      expect(content).toContain('<c r="B2"><v>121.5</v></c>');
+      expect(content).toContain('<t xml:space="preserve">Month</t>');
+      expect(content).toContain('name="Notes &amp; &lt;Assumptions&gt;"');
+      expect(content).toContain('a &quot;quoted&quot; value');
+    });
+  });
+});